@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IAgentRuntime } from "@elizaos/core";
+import { TwitchChannelConfig } from "../src/channels";
+import { CommandRouter, TwitchCommand, getUserRoles, parseDuration } from "../src/commands";
+import { TwitchBadge, TwitchChatMessage } from "../src/types";
+
+const runtime = { getSetting: () => undefined } as unknown as IAgentRuntime;
+const channel: TwitchChannelConfig = { broadcasterId: "100", login: "streamer", enabled: true };
+
+function chat(text: string, badges: string[] = [], chatterId = "1"): TwitchChatMessage {
+  return {
+    messageId: `m-${Math.random()}`,
+    broadcasterId: "100",
+    broadcasterLogin: "streamer",
+    chatterId,
+    chatterLogin: "viewer",
+    chatterName: "Viewer",
+    badges: badges.map((set_id): TwitchBadge => ({ set_id, id: "1" })),
+    text,
+    cleanText: text,
+    emotes: [],
+    mentions: [],
+    cheermotes: [],
+    sentAt: Date.now(),
+  };
+}
+
+describe("parseDuration", () => {
+  it("reads seconds, minutes, hours and days", () => {
+    expect(parseDuration("30s", 0)).toBe(30000);
+    expect(parseDuration("10m", 0)).toBe(600000);
+    expect(parseDuration("2h", 0)).toBe(7200000);
+    expect(parseDuration("1D", 0)).toBe(86400000);
+  });
+
+  it("treats a bare number as minutes", () => {
+    expect(parseDuration(" 5 ", 0)).toBe(300000);
+  });
+
+  it("falls back for missing or invalid input", () => {
+    expect(parseDuration(undefined, 42)).toBe(42);
+    expect(parseDuration("soon", 42)).toBe(42);
+    expect(parseDuration("1.5h", 42)).toBe(42);
+  });
+});
+
+describe("getUserRoles", () => {
+  it("maps badges to roles", () => {
+    expect([...getUserRoles([])]).toEqual(["everyone"]);
+    expect(getUserRoles([{ set_id: "broadcaster", id: "1" }]).has("moderator")).toBe(true);
+    expect(getUserRoles([{ set_id: "lead_moderator", id: "1" }]).has("moderator")).toBe(true);
+    expect(getUserRoles([{ set_id: "founder", id: "0" }]).has("subscriber")).toBe(true);
+  });
+});
+
+describe("CommandRouter", () => {
+  let router: CommandRouter;
+  let ran: string[];
+
+  const command = (def: Partial<TwitchCommand> & { name: string }): TwitchCommand => ({
+    handler: async (ctx) => {
+      ran.push(`${ctx.invokedAs}:${ctx.argText}`);
+    },
+    ...def,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    ran = [];
+    router = new CommandRouter(runtime);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("ignores plain chat and unknown commands", async () => {
+    router.register(command({ name: "hello" }));
+    expect(await router.handle(chat("hello there"), channel, async () => {})).toBe(false);
+    expect(await router.handle(chat("!nope"), channel, async () => {})).toBe(false);
+    expect(ran).toEqual([]);
+  });
+
+  it("runs commands by name or alias, case-insensitively", async () => {
+    router.register(command({ name: "discord", aliases: ["DC"] }));
+    expect(await router.handle(chat("!Discord now"), channel, async () => {})).toBe(true);
+    expect(await router.handle(chat("!dc please  hurry"), channel, async () => {})).toBe(true);
+    expect(ran).toEqual(["discord:now", "dc:please hurry"]);
+  });
+
+  it("refuses users without an allowed role but lets the broadcaster through", async () => {
+    router.register(command({ name: "mute", roles: ["moderator"] }));
+    expect(await router.handle(chat("!mute"), channel, async () => {})).toBe(true);
+    expect(ran).toEqual([]);
+
+    await router.handle(chat("!mute", ["moderator"]), channel, async () => {});
+    await router.handle(chat("!mute", ["broadcaster"]), channel, async () => {});
+    expect(ran).toEqual(["mute:", "mute:"]);
+
+    router.register(command({ name: "vipsonly", roles: ["vip"] }));
+    await router.handle(chat("!vipsonly", ["broadcaster"]), channel, async () => {});
+    expect(ran).toHaveLength(3);
+  });
+
+  it("applies per-channel cooldowns, except for moderators", async () => {
+    router.register(command({ name: "stats", cooldownSeconds: 30 }));
+    await router.handle(chat("!stats"), channel, async () => {});
+    expect(await router.handle(chat("!stats", [], "2"), channel, async () => {})).toBe(true);
+    expect(ran).toHaveLength(1);
+
+    await router.handle(chat("!stats", ["moderator"]), channel, async () => {});
+    expect(ran).toHaveLength(2);
+
+    await router.handle(chat("!stats"), { ...channel, broadcasterId: "200" }, async () => {});
+    expect(ran).toHaveLength(3);
+
+    vi.advanceTimersByTime(30000);
+    await router.handle(chat("!stats", [], "2"), channel, async () => {});
+    expect(ran).toHaveLength(4);
+  });
+
+  it("swallows handler errors", async () => {
+    router.register(
+      command({
+        name: "boom",
+        handler: async () => {
+          throw new Error("boom");
+        },
+      })
+    );
+    expect(await router.handle(chat("!boom"), channel, async () => {})).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EventSubConnection } from "../src/connection";
+
+/**
+ * Waits for socket I/O without moving the fake clock (vi.waitFor would advance it).
+ */
+async function until(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+/**
+ * A local EventSub WebSocket server the test drives frame by frame: it records every
+ * connection (with its path) and only sends what the test asks for.
+ */
+class TestEventSubServer {
+  public sockets: Array<{ path: string; socket: WebSocket }> = [];
+  private server: WebSocketServer | null = null;
+  private sent = 0;
+
+  public async start(): Promise<void> {
+    const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    server.on("connection", (socket, req) => this.sockets.push({ path: req.url ?? "", socket }));
+    await new Promise((resolve) => server.once("listening", resolve));
+    this.server = server;
+  }
+
+  public url(path = "/ws"): string {
+    return `ws://127.0.0.1:${(this.server!.address() as AddressInfo).port}${path}`;
+  }
+
+  public async connection(index: number): Promise<WebSocket> {
+    await until(() => this.sockets.length > index);
+    return this.sockets[index].socket;
+  }
+
+  public send(socket: WebSocket, type: string, payload: object = {}, messageId = `m${++this.sent}`): void {
+    socket.send(JSON.stringify({ metadata: { message_id: messageId, message_type: type }, payload }));
+  }
+
+  public welcome(socket: WebSocket, sessionId: string, keepaliveSeconds = 10): void {
+    this.send(socket, "session_welcome", { session: { id: sessionId, keepalive_timeout_seconds: keepaliveSeconds } });
+  }
+
+  public stop(): void {
+    for (const { socket } of this.sockets) {
+      socket.terminate();
+    }
+    this.server?.close();
+  }
+}
+
+describe("EventSubConnection", () => {
+  let server: TestEventSubServer;
+  let connection: EventSubConnection;
+  const onSessionReady = vi.fn(async () => {});
+  const onNotification = vi.fn(async () => {});
+  const onRevocation = vi.fn(async () => {});
+
+  beforeEach(async () => {
+    // Only the connection's timers are faked; socket I/O runs for real
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    onSessionReady.mockClear();
+    onNotification.mockClear();
+    server = new TestEventSubServer();
+    await server.start();
+    connection = new EventSubConnection({ onSessionReady, onNotification, onRevocation }, server.url());
+  });
+
+  afterEach(() => {
+    connection.stop();
+    server.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps the old socket until the reconnect socket is welcomed", async () => {
+    connection.start();
+    const first = await server.connection(0);
+    server.welcome(first, "s1");
+    await until(() => onSessionReady.mock.calls.length === 1);
+
+    server.send(first, "session_reconnect", { session: { reconnect_url: server.url("/reconnect") } });
+    const second = await server.connection(1);
+    expect(server.sockets[1].path).toBe("/reconnect");
+
+    // Events still arrive on the old socket during the handover
+    server.send(first, "notification", { event: { n: 1 } });
+    await until(() => onNotification.mock.calls.length === 1);
+    expect(first.readyState).toBe(WebSocket.OPEN);
+    expect(connection.currentSessionId).toBe("s1");
+
+    server.welcome(second, "s2");
+    await until(() => connection.currentSessionId === "s2");
+    // The client closes the old socket only now
+    await until(() => first.readyState !== WebSocket.OPEN);
+    expect(connection.state).toBe("open");
+    // Subscriptions carry over, so no new session setup
+    expect(onSessionReady).toHaveBeenCalledTimes(1);
+  });
+
+  it("delivers a message sent on both sockets during the handover once", async () => {
+    connection.start();
+    const first = await server.connection(0);
+    server.welcome(first, "s1");
+    server.send(first, "session_reconnect", { session: { reconnect_url: server.url("/reconnect") } });
+    const second = await server.connection(1);
+    server.send(first, "notification", { event: { n: 1 } }, "same-id");
+    await until(() => onNotification.mock.calls.length === 1);
+    server.welcome(second, "s2");
+    server.send(second, "notification", { event: { n: 1 } }, "same-id");
+    server.send(second, "notification", { event: { n: 2 } });
+    await until(() => onNotification.mock.calls.length === 2);
+  });
+
+  it("drops the session when no message arrives within the keepalive window", async () => {
+    connection.start();
+    const first = await server.connection(0);
+    server.welcome(first, "s1", 10);
+    await until(() => onSessionReady.mock.calls.length === 1);
+
+    // keepalive_timeout_seconds plus 5s of grace
+    vi.advanceTimersByTime(14999);
+    expect(connection.state).toBe("open");
+    // Any frame resets the watchdog; the notification behind it shows both were read
+    server.send(first, "session_keepalive");
+    server.send(first, "notification", { event: {} });
+    await until(() => onNotification.mock.calls.length === 1);
+    vi.advanceTimersByTime(14999);
+    expect(connection.state).toBe("open");
+
+    vi.advanceTimersByTime(1);
+    expect(connection.state).toBe("reconnecting");
+    expect(connection.currentSessionId).toBeNull();
+
+    vi.advanceTimersByTime(1000);
+    server.welcome(await server.connection(1), "s2");
+    await until(() => onSessionReady.mock.calls.length === 2);
+  });
+
+  it("backs off exponentially and resets once a session stayed up", async () => {
+    connection.start();
+    (await server.connection(0)).close(4000);
+
+    for (const [index, delay] of [1000, 2000, 4000].entries()) {
+      await until(() => connection.state === "reconnecting");
+      vi.advanceTimersByTime(delay - 1);
+      expect(server.sockets).toHaveLength(index + 1);
+      vi.advanceTimersByTime(1);
+      const socket = await server.connection(index + 1);
+      if (index < 2) {
+        socket.close(4000);
+      } else {
+        server.welcome(socket, "stable", 60);
+      }
+    }
+    await until(() => onSessionReady.mock.calls.length === 1);
+
+    // Stable for 30s: the next drop starts over at the base delay
+    vi.advanceTimersByTime(30000);
+    server.sockets[3].socket.close(4000);
+    await until(() => connection.state === "reconnecting");
+    vi.advanceTimersByTime(1000);
+    await server.connection(4);
+  });
+});
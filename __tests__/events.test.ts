@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { CHANNEL_EVENT_DEFINITIONS, renderEventTemplate } from "../src/events";
+
+const definition = (type: string) => CHANNEL_EVENT_DEFINITIONS.find((d) => d.type === type)!;
+
+describe("channel.raid", () => {
+  it("links the raider's channel by login, not display name", () => {
+    const raid = definition("channel.raid");
+    const described = raid.describe({
+      from_broadcaster_user_id: "7",
+      from_broadcaster_user_login: "kr_streamer",
+      from_broadcaster_user_name: "한국스트리머",
+      viewers: 42,
+    });
+
+    expect(described.text).toBe("한국스트리머 raided the channel with 42 viewers.");
+    expect(renderEventTemplate(raid.defaultTemplate, described.vars)).toBe(
+      "Welcome raiders! Thanks 한국스트리머 for bringing 42 friends! Go check out twitch.tv/kr_streamer"
+    );
+  });
+});
+
+describe("renderEventTemplate", () => {
+  it("leaves unknown variables empty", () => {
+    expect(renderEventTemplate("{user} did {nothing}", { user: "viewer" })).toBe("viewer did");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { parseChatFragments, parseReplyParent } from "../src/fragments";
+
+describe("parseChatFragments", () => {
+  it("falls back to the plain text without fragments", () => {
+    expect(parseChatFragments({ text: "hello chat" })).toEqual({
+      text: "hello chat",
+      cleanText: "hello chat",
+      emotes: [],
+      mentions: [],
+      cheermotes: [],
+    });
+    expect(parseChatFragments(undefined).text).toBe("");
+  });
+
+  it("marks emotes and cheermotes in the clean text", () => {
+    const parsed = parseChatFragments({
+      text: "Cheer100 nice play Kappa",
+      fragments: [
+        { type: "cheermote", text: "Cheer100", cheermote: { prefix: "cheer", bits: 100, tier: 1 } },
+        { type: "text", text: " nice play " },
+        { type: "emote", text: "Kappa", emote: { id: "25", emote_set_id: "0", owner_id: "0" } },
+      ],
+    });
+
+    expect(parsed.text).toBe("Cheer100 nice play Kappa");
+    expect(parsed.cleanText).toBe("[cheer: 100 bits] nice play [emote:Kappa]");
+    expect(parsed.emotes).toEqual([{ id: "25", name: "Kappa", setId: "0", ownerId: "0" }]);
+    expect(parsed.cheermotes).toEqual([{ prefix: "cheer", bits: 100, tier: 1 }]);
+  });
+
+  it("keeps mentions as typed and collects the mentioned users", () => {
+    const parsed = parseChatFragments({
+      text: "@ElizaBot   hi",
+      fragments: [
+        { type: "mention", text: "@ElizaBot", mention: { user_id: "900", user_login: "elizabot", user_name: "ElizaBot" } },
+        { type: "text", text: "   hi" },
+      ],
+    });
+
+    expect(parsed.cleanText).toBe("@ElizaBot hi");
+    expect(parsed.mentions).toEqual([{ userId: "900", userLogin: "elizabot", userName: "ElizaBot" }]);
+  });
+
+  it("tolerates incomplete fragments", () => {
+    const parsed = parseChatFragments({
+      text: "x",
+      fragments: [{ type: "mention", text: "@someone" }, { type: "emote" }, null],
+    });
+
+    expect(parsed.mentions).toEqual([{ userId: "", userLogin: "", userName: "someone" }]);
+    expect(parsed.emotes).toEqual([{ id: "", name: "", setId: undefined, ownerId: undefined }]);
+    expect(parsed.cleanText).toBe("@someone[emote:]");
+  });
+});
+
+describe("parseReplyParent", () => {
+  it("reads the reply object and defaults the thread to the parent", () => {
+    expect(parseReplyParent(undefined)).toBeUndefined();
+    expect(
+      parseReplyParent({ parent_message_id: "p1", parent_message_body: "first!", parent_user_login: "viewer" })
+    ).toEqual({
+      parentMessageId: "p1",
+      parentMessageBody: "first!",
+      parentUserId: "",
+      parentUserLogin: "viewer",
+      parentUserName: "",
+      threadMessageId: "p1",
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import fetch, { Response } from "node-fetch";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HelixAuth, HelixClient, HelixError } from "../src/helix";
+
+vi.mock("node-fetch", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node-fetch")>();
+  return { ...actual, default: vi.fn() };
+});
+
+const fetchMock = vi.mocked(fetch);
+
+function reply(status: number, body: unknown = { data: [] }, headers: Record<string, string> = {}): Response {
+  return new Response(status === 204 ? "" : JSON.stringify(body), { status, headers });
+}
+
+/** Ratelimit-Reset is in epoch seconds. */
+const resetIn = (ms: number) => String(Math.ceil((Date.now() + ms) / 1000));
+
+describe("HelixClient", () => {
+  let tokens: string[];
+  let auth: HelixAuth & { refresh: ReturnType<typeof vi.fn> };
+  let client: HelixClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2025-03-01T20:00:00.000Z") });
+    fetchMock.mockReset();
+    tokens = ["old-token", "new-token"];
+    auth = {
+      clientId: "client-id",
+      getAccessToken: async () => tokens[0],
+      refresh: vi.fn(async () => {
+        tokens.shift();
+        return true;
+      }),
+    };
+    client = new HelixClient(() => auth, "https://api.example.com/helix");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const authorization = (call: number) => (fetchMock.mock.calls[call][1]!.headers as any).get("Authorization");
+
+  it("refreshes the token once after a 401 and retries", async () => {
+    fetchMock.mockResolvedValueOnce(reply(401, { message: "Invalid OAuth token" })).mockResolvedValueOnce(reply(200));
+
+    await expect(client.get("/users")).resolves.toEqual({ data: [] });
+    expect(auth.refresh).toHaveBeenCalledTimes(1);
+    expect([authorization(0), authorization(1)]).toEqual(["Bearer old-token", "Bearer new-token"]);
+  });
+
+  it("does not refresh again when the retry gets a 401 too", async () => {
+    fetchMock.mockResolvedValue(reply(401, { message: "Invalid OAuth token" }));
+
+    const error = await client.get("/users").catch((err) => err);
+    expect(error).toBeInstanceOf(HelixError);
+    expect(error).toMatchObject({ status: 401, twitchMessage: "Invalid OAuth token" });
+    expect(auth.refresh).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws the 401 when the token cannot be refreshed", async () => {
+    auth.refresh.mockResolvedValue(false);
+    fetchMock.mockResolvedValue(reply(401, { message: "Invalid OAuth token" }));
+
+    await expect(client.get("/users")).rejects.toMatchObject({ status: 401 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for Ratelimit-Reset after a 429 and gives up after the retries", async () => {
+    fetchMock.mockImplementation(async () => reply(429, { message: "Too Many Requests" }, { "Ratelimit-Reset": resetIn(5000) }));
+
+    const result = client.get("/users").catch((err) => err);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await result).toMatchObject({ status: 429, rateLimitResetAt: Date.now() + 5000 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits at most a minute for a 429, and at least a second", async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(429, {}, { "Ratelimit-Reset": resetIn(3600000) }))
+      .mockResolvedValueOnce(reply(429, {}, { "Ratelimit-Reset": resetIn(-5000) }))
+      .mockResolvedValueOnce(reply(200));
+
+    const result = client.get("/users", {});
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toEqual({ data: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits for the bucket to refill when Ratelimit-Remaining reached 0", async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(200, { data: [] }, { "Ratelimit-Remaining": "0", "Ratelimit-Reset": resetIn(3000) }))
+      .mockResolvedValueOnce(reply(200, { data: [] }, { "Ratelimit-Remaining": "799" }));
+
+    await client.get("/users");
+    expect(client.rateLimit.remaining).toBe(0);
+
+    const second = client.get("/users");
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await second;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.rateLimit.remaining).toBe(799);
+  });
+
+  it("follows the cursor and stops without one", async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(200, { data: [1, 2], pagination: { cursor: "c1" } }))
+      .mockResolvedValueOnce(reply(200, { data: [3], pagination: {} }));
+
+    expect(await client.getAll("/streams", { first: 2 })).toEqual([1, 2, 3]);
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+      "https://api.example.com/helix/streams?first=2",
+      "https://api.example.com/helix/streams?first=2&after=c1",
+    ]);
+  });
+
+  it("stops paginating at an empty page even with a cursor", async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(200, { data: [1], pagination: { cursor: "c1" } }))
+      .mockResolvedValueOnce(reply(200, { data: [], pagination: { cursor: "c2" } }));
+
+    expect(await client.getAll("/streams")).toEqual([1]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
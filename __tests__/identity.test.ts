@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+import { Actor, IAgentRuntime, UUID } from "@elizaos/core";
+import { ChatterDirectory, chatterUserId } from "../src/identity";
+
+function createRuntime() {
+  const cache = new Map<string, unknown>();
+  const accounts = new Map<string, unknown>();
+  const runtime = {
+    agentId: "agent",
+    cacheManager: {
+      get: async (key: string) => cache.get(key),
+      set: async (key: string, value: unknown) => {
+        cache.set(key, value);
+      },
+    },
+    databaseAdapter: {
+      getAccountById: vi.fn(async (id: string) => accounts.get(id) ?? null),
+      createAccount: vi.fn(async (account: { id: string }) => {
+        accounts.set(account.id, account);
+        return true;
+      }),
+    },
+    ensureConnection: vi.fn(async () => {}),
+    ensureRoomExists: vi.fn(async () => {}),
+    ensureParticipantInRoom: vi.fn(async () => {}),
+  };
+  return { runtime, cache, accounts, typed: runtime as unknown as IAgentRuntime };
+}
+
+const viewer = { twitchUserId: "1", login: "viewer", displayName: "Viewer", badges: ["subscriber"] };
+const actor = (id: string, name: string, username: string): Actor =>
+  ({ id, name, username, details: { tagline: "", summary: "", quote: "" } }) as Actor;
+
+describe("ChatterDirectory", () => {
+  it("registers a chatter once, with the same user id in every channel", async () => {
+    const { runtime, accounts, typed } = createRuntime();
+    const directory = new ChatterDirectory(typed);
+
+    const first = await directory.ensureChatter(viewer, "100", "room-a" as UUID);
+    const second = await directory.ensureChatter(viewer, "200", "room-b" as UUID);
+
+    expect(first).toBe(chatterUserId("1"));
+    expect(second).toBe(first);
+    expect(runtime.databaseAdapter.createAccount).toHaveBeenCalledTimes(1);
+    expect(accounts.get(first)).toMatchObject({ name: "Viewer", username: "viewer", details: { twitchUserId: "1" } });
+    expect(runtime.ensureConnection.mock.calls.map((call) => (call as unknown[])[1])).toEqual(["room-a", "room-b"]);
+  });
+
+  it("costs no database calls for a known, unchanged chatter", async () => {
+    const { runtime, typed } = createRuntime();
+    const directory = new ChatterDirectory(typed);
+    await directory.ensureChatter(viewer, "100", "room-a" as UUID);
+    vi.clearAllMocks();
+
+    await directory.ensureChatter(viewer, "100", "room-a" as UUID);
+    expect(runtime.databaseAdapter.getAccountById).not.toHaveBeenCalled();
+    expect(runtime.ensureConnection).not.toHaveBeenCalled();
+  });
+
+  it("keeps badges per channel and remembers profiles through the cache", async () => {
+    const { typed } = createRuntime();
+    await new ChatterDirectory(typed).ensureChatter(viewer, "100", "room-a" as UUID);
+    const directory = new ChatterDirectory(typed);
+    await directory.ensureChatter({ ...viewer, badges: ["moderator"] }, "200", "room-b" as UUID);
+
+    expect(await directory.getBadges("1")).toEqual({ "100": ["subscriber"], "200": ["moderator"] });
+    expect(await directory.getBadges("2")).toEqual({});
+  });
+
+  it("applies changed display names to the actors of a state", async () => {
+    const { runtime, accounts, typed } = createRuntime();
+    const directory = new ChatterDirectory(typed);
+    const userId = await directory.ensureChatter(viewer, "100", "room-a" as UUID);
+    await directory.ensureChatter({ ...viewer, displayName: "VIEWER_Renamed" }, "100", "room-a" as UUID);
+
+    expect(runtime.databaseAdapter.createAccount).toHaveBeenCalledTimes(1);
+    expect(accounts.get(userId)).toMatchObject({ name: "Viewer" });
+
+    const actors = [actor(userId, "Viewer", "viewer"), actor("agent", "Eliza", "eliza")];
+    expect(directory.withCurrentNames(actors)).toEqual([actor(userId, "VIEWER_Renamed", "viewer"), actors[1]]);
+  });
+
+  it("returns the same actors when no name changed", async () => {
+    const { typed } = createRuntime();
+    const directory = new ChatterDirectory(typed);
+    const userId = await directory.ensureChatter(viewer, "100", "room-a" as UUID);
+
+    const actors = [actor(userId, "Viewer", "viewer")];
+    expect(directory.withCurrentNames(actors)).toBe(actors);
+  });
+});
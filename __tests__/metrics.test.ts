@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { TwitchMetrics, metricReason } from "../src/metrics";
+
+describe("metricReason", () => {
+  it("reduces free-text reasons to short identifiers", () => {
+    expect(metricReason("user cooldown (3s left)")).toBe("user_cooldown");
+    expect(metricReason('blocked term "x"')).toBe("blocked_term");
+    expect(metricReason("blocked pattern /buy\\s+followers/")).toBe("blocked_pattern");
+    expect(metricReason("Prompt injection")).toBe("prompt_injection");
+    expect(metricReason("stale")).toBe("stale");
+  });
+
+  it("falls back to unknown", () => {
+    expect(metricReason(undefined)).toBe("unknown");
+    expect(metricReason("")).toBe("unknown");
+    expect(metricReason('"quoted"')).toBe("unknown");
+  });
+});
+
+describe("TwitchMetrics", () => {
+  it("renders counters per label set", () => {
+    const metrics = new TwitchMetrics();
+    metrics.inc("twitch_messages_skipped_total", { reason: "stale" });
+    metrics.inc("twitch_messages_skipped_total", { reason: "stale" });
+    metrics.inc("twitch_messages_skipped_total", { reason: "overflow" });
+
+    const text = metrics.render();
+    expect(text).toContain('twitch_messages_skipped_total{reason="stale"} 2');
+    expect(text).toContain('twitch_messages_skipped_total{reason="overflow"} 1');
+  });
+});
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PipelineJob, PipelineOptions, ReplyPipeline } from "../src/pipeline";
+
+interface TestJob extends PipelineJob {
+  text: string;
+}
+
+const options: PipelineOptions = {
+  concurrency: 1,
+  maxQueueLength: 3,
+  staleAfterMs: 60000,
+  digest: false,
+  digestMaxMessages: 8,
+};
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("ReplyPipeline", () => {
+  let processed: string[];
+  let digests: string[][];
+  let dropped: Array<[string, string]>;
+  let gate: ReturnType<typeof deferred>;
+
+  const job = (text: string, channelId = "100", receivedAt = Date.now(), digestible?: boolean): TestJob => ({
+    channelId,
+    receivedAt,
+    digestible,
+    text,
+  });
+
+  const create = (overrides: Partial<PipelineOptions> = {}) =>
+    new ReplyPipeline<TestJob>(
+      { ...options, ...overrides },
+      {
+        process: async (j) => {
+          processed.push(j.text);
+          await gate.promise;
+        },
+        processDigest: async (jobs) => {
+          digests.push(jobs.map((j) => j.text));
+          await gate.promise;
+        },
+        onDrop: (j, reason) => dropped.push([j.text, reason]),
+      }
+    );
+
+  /** Lets the running job finish and the pipeline pick up the next one. */
+  const release = async () => {
+    const current = gate;
+    gate = deferred();
+    current.resolve();
+    await vi.runAllTimersAsync();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    processed = [];
+    digests = [];
+    dropped = [];
+    gate = deferred();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("processes jobs in order, one at a time", async () => {
+    const pipeline = create();
+    pipeline.push(job("a"));
+    pipeline.push(job("b"));
+
+    expect(processed).toEqual(["a"]);
+    expect(pipeline.running).toBe(1);
+    expect(pipeline.size).toBe(1);
+
+    await release();
+    expect(processed).toEqual(["a", "b"]);
+  });
+
+  it("drops the oldest waiting job when the queue overflows", async () => {
+    const pipeline = create();
+    for (const text of ["running", "1", "2", "3", "4"]) {
+      pipeline.push(job(text));
+    }
+
+    expect(dropped).toEqual([["1", "overflow"]]);
+    expect(pipeline.size).toBe(3);
+
+    await release();
+    await release();
+    await release();
+    expect(processed).toEqual(["running", "2", "3", "4"]);
+  });
+
+  it("drops jobs that went stale while waiting", async () => {
+    const pipeline = create();
+    pipeline.push(job("running"));
+    pipeline.push(job("old"));
+    vi.advanceTimersByTime(61000);
+    pipeline.push(job("fresh"));
+
+    await release();
+    expect(dropped).toEqual([["old", "stale"]]);
+    expect(processed).toEqual(["running", "fresh"]);
+  });
+
+  it("merges waiting jobs of the same channel in digest mode", async () => {
+    const pipeline = create({ digest: true, digestMaxMessages: 2, maxQueueLength: 10 });
+    pipeline.push(job("first"));
+    pipeline.push(job("a1"));
+    pipeline.push(job("b1", "200"));
+    pipeline.push(job("a2"));
+    pipeline.push(job("a3"));
+
+    expect(digests).toEqual([]);
+    expect(processed).toEqual(["first"]);
+
+    await release();
+    expect(digests).toEqual([["a1", "a2"]]);
+    await release();
+    expect(processed).toEqual(["first", "b1"]);
+    await release();
+    expect(processed).toEqual(["first", "b1", "a3"]);
+  });
+
+  it("answers jobs that are not digestible on their own", async () => {
+    const pipeline = create({ digest: true, maxQueueLength: 10 });
+    pipeline.push(job("first"));
+    pipeline.push(job("a1"));
+    pipeline.push(job("ask", "100", Date.now(), false));
+    pipeline.push(job("a2"));
+
+    await release();
+    expect(digests).toEqual([["a1", "a2"]]);
+    await release();
+    expect(processed).toEqual(["first", "ask"]);
+  });
+
+  it("keeps going after a failed job", async () => {
+    const seen: string[] = [];
+    const pipeline = new ReplyPipeline<TestJob>(options, {
+      process: async (j) => {
+        seen.push(j.text);
+        if (j.text === "bad") {
+          throw new Error("LLM down");
+        }
+      },
+    });
+    pipeline.push(job("bad"));
+    pipeline.push(job("good"));
+    await vi.runAllTimersAsync();
+
+    expect(seen).toEqual(["bad", "good"]);
+  });
+
+  it("ignores jobs pushed after stop", () => {
+    const pipeline = create();
+    pipeline.stop();
+    pipeline.push(job("late"));
+
+    expect(processed).toEqual([]);
+    expect(pipeline.size).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { POLL_LIMITS, PREDICTION_LIMITS, validatePoll, validatePrediction } from "../src/polls";
+
+describe("validatePoll", () => {
+  it("accepts a poll within Twitch's limits", () => {
+    expect(validatePoll("Next game?", ["Elden Ring", "Hades"], 120)).toBeNull();
+    expect(validatePoll("x".repeat(POLL_LIMITS.titleLength), ["a", "b", "c", "d", "e"], POLL_LIMITS.maxSeconds)).toBeNull();
+  });
+
+  it("checks the title", () => {
+    expect(validatePoll("", ["a", "b"], 60)).toBe("the title is missing");
+    expect(validatePoll("x".repeat(61), ["a", "b"], 60)).toBe("the title is longer than 60 characters");
+  });
+
+  it("checks the choices", () => {
+    expect(validatePoll("Pick", ["only"], 60)).toBe("it needs 2-5 choices (got 1)");
+    expect(validatePoll("Pick", ["a", "b", "c", "d", "e", "f"], 60)).toBe("it needs 2-5 choices (got 6)");
+    expect(validatePoll("Pick", ["a", ""], 60)).toBe("one of the choices is empty");
+    expect(validatePoll("Pick", ["a", "y".repeat(26)], 60)).toBe(`"${"y".repeat(26)}" is longer than 25 characters`);
+    expect(validatePoll("Pick", ["Yes", "yes"], 60)).toBe("the choices must be different");
+  });
+
+  it("checks the duration", () => {
+    expect(validatePoll("Pick", ["a", "b"], 14)).toBe("the duration must be 15-1800 seconds");
+    expect(validatePoll("Pick", ["a", "b"], 1801)).toBe("the duration must be 15-1800 seconds");
+    expect(validatePoll("Pick", ["a", "b"], 60.5)).toBe("the duration must be 15-1800 seconds");
+  });
+});
+
+describe("validatePrediction", () => {
+  it("accepts a prediction within Twitch's limits", () => {
+    expect(validatePrediction("Will we win?", ["Yes", "No"], 120)).toBeNull();
+    const outcomes = Array.from({ length: PREDICTION_LIMITS.maxOutcomes }, (_, i) => `Outcome ${i}`);
+    expect(validatePrediction("Placement?", outcomes, PREDICTION_LIMITS.minSeconds)).toBeNull();
+  });
+
+  it("uses the prediction limits", () => {
+    expect(validatePrediction("x".repeat(46), ["Yes", "No"], 120)).toBe("the title is longer than 45 characters");
+    const outcomes = Array.from({ length: 11 }, (_, i) => `Outcome ${i}`);
+    expect(validatePrediction("Placement?", outcomes, 120)).toBe("it needs 2-10 outcomes (got 11)");
+    expect(validatePrediction("Win?", ["Yes", "YES"], 120)).toBe("the outcomes must be different");
+    expect(validatePrediction("Win?", ["Yes", "No"], 15)).toBe("the prediction window must be 30-1800 seconds");
+  });
+});
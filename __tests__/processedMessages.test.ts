@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { IAgentRuntime, Memory } from "@elizaos/core";
+import { ProcessedMessageStore, chatMemoryId, isMemoryProcessed } from "../src/processedMessages";
+
+function createRuntime(cache = new Map<string, unknown>(), memories = new Map<string, Memory>()) {
+  return {
+    agentId: "agent",
+    getSetting: () => undefined,
+    cacheManager: {
+      get: async (key: string) => cache.get(key),
+      set: async (key: string, value: unknown) => {
+        cache.set(key, value);
+      },
+    },
+    messageManager: {
+      getMemoryById: async (id: string) => memories.get(id) ?? null,
+      createMemory: async (memory: Memory) => {
+        if (!memories.has(memory.id!)) {
+          memories.set(memory.id!, memory);
+        }
+      },
+      removeMemory: async (id: string) => {
+        memories.delete(id);
+      },
+    },
+  } as unknown as IAgentRuntime;
+}
+
+function chatMemory(messageId: string, processed = false): Memory {
+  return {
+    id: chatMemoryId(messageId),
+    content: { text: "hi", twitchMessageId: messageId, ...(processed ? { twitchProcessed: true } : {}) },
+  } as Memory;
+}
+
+describe("ProcessedMessageStore", () => {
+  it("claims a message once per run", async () => {
+    const store = new ProcessedMessageStore(createRuntime());
+    const [first, second] = await Promise.all([store.claim("m1"), store.claim("m1")]);
+    expect([first, second]).toEqual([true, false]);
+    expect(store.status("m1")).toBe("received");
+  });
+
+  it("rejects messages an earlier run processed", async () => {
+    const cache = new Map<string, unknown>();
+    const earlier = new ProcessedMessageStore(createRuntime(cache));
+    await earlier.claim("m1");
+    await earlier.markProcessed("m1");
+
+    const store = new ProcessedMessageStore(createRuntime(cache));
+    expect(await store.claim("m1")).toBe(false);
+    expect(store.status("m1")).toBe("processed");
+  });
+
+  it("claims messages an earlier run received but did not process", async () => {
+    const cache = new Map<string, unknown>();
+    await new ProcessedMessageStore(createRuntime(cache)).claim("m1");
+
+    const store = new ProcessedMessageStore(createRuntime(cache));
+    expect(await store.claim("m1")).toBe(true);
+    expect(await store.claim("m1")).toBe(false);
+  });
+
+  it("keeps blocked messages and !commands final across runs", async () => {
+    const cache = new Map<string, unknown>();
+    const earlier = new ProcessedMessageStore(createRuntime(cache));
+    for (const id of ["blocked", "command"]) {
+      await earlier.claim(id);
+      // Neither is stored as a memory
+      await earlier.markProcessed(id);
+    }
+
+    const store = new ProcessedMessageStore(createRuntime(cache));
+    expect(await store.claim("blocked")).toBe(false);
+    expect(await store.claim("command")).toBe(false);
+  });
+
+  it("keeps dropped messages final through the marker on the memory", async () => {
+    const memories = new Map<string, Memory>();
+    const runtime = createRuntime(new Map(), memories);
+    const earlier = new ProcessedMessageStore(runtime);
+    await earlier.claim("dropped");
+    const memory = chatMemory("dropped");
+    await runtime.messageManager.createMemory(memory);
+    await earlier.markProcessed("dropped", memory);
+
+    expect(isMemoryProcessed(memories.get(chatMemoryId("dropped"))!)).toBe(true);
+    expect(isMemoryProcessed(memory)).toBe(true);
+
+    // The cache entry is gone (expired or a fresh cache), the memory remains
+    const store = new ProcessedMessageStore(createRuntime(new Map(), memories));
+    expect(await store.claim("dropped")).toBe(false);
+    expect(store.status("dropped")).toBe("processed");
+  });
+
+  it("claims a stored message without the marker again", async () => {
+    const memories = new Map([[chatMemoryId("m1"), chatMemory("m1")]]);
+    const store = new ProcessedMessageStore(createRuntime(new Map(), memories));
+    expect(await store.claim("m1")).toBe(true);
+  });
+
+  it("puts the memory back when the marked copy cannot be written", async () => {
+    const memories = new Map<string, Memory>();
+    const runtime = createRuntime(new Map(), memories);
+    const memory = chatMemory("m1");
+    memories.set(memory.id!, memory);
+    const create = runtime.messageManager.createMemory;
+    let failures = 1;
+    runtime.messageManager.createMemory = async (m: Memory) => {
+      if (failures-- > 0) {
+        throw new Error("db down");
+      }
+      await create(m);
+    };
+
+    await new ProcessedMessageStore(runtime).markProcessed("m1", memory);
+    expect(memories.get(memory.id!)).toBe(memory);
+    expect(isMemoryProcessed(memory)).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IAgentRuntime } from "@elizaos/core";
+import { ReplyDecisionEngine, ReplyDecisionOptions } from "../src/replyDecision";
+import { TwitchChatMessage } from "../src/types";
+
+const bot = { userId: "999", login: "elizabot" };
+
+const options: ReplyDecisionOptions = {
+  triggers: ["eliza"],
+  triggerPatterns: [/\bhelp\b/i],
+  ambientProbability: 0,
+  userCooldownMs: 30000,
+  globalCooldownMs: 5000,
+  useLlmShouldRespond: false,
+};
+
+function chat(text: string, overrides: Partial<TwitchChatMessage> = {}): TwitchChatMessage {
+  return {
+    messageId: `m-${Math.random()}`,
+    broadcasterId: "100",
+    broadcasterLogin: "streamer",
+    chatterId: "1",
+    chatterLogin: "viewer",
+    chatterName: "Viewer",
+    badges: [],
+    text,
+    cleanText: text,
+    emotes: [],
+    mentions: [],
+    cheermotes: [],
+    sentAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe("ReplyDecisionEngine.evaluate", () => {
+  let engine: ReplyDecisionEngine;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    engine = new ReplyDecisionEngine({} as IAgentRuntime, bot, options);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("answers @mentions, matching the login as a whole word", () => {
+    expect(engine.evaluate(chat("hey @ElizaBot what's up")).reason).toBe("mention");
+    expect(engine.evaluate(chat("hi @elizabot2", { chatterId: "2" })).verdict).toBe("ignore");
+    expect(engine.evaluate(chat("mail me at x@elizabot.com", { chatterId: "3" })).verdict).toBe("ignore");
+  });
+
+  it("answers mention fragments and replies to the bot", () => {
+    const mention = chat("hello", { mentions: [{ userId: "999", userLogin: "elizabot", userName: "ElizaBot" }] });
+    expect(engine.evaluate(mention).reason).toBe("mention");
+
+    const reply = chat("agreed", {
+      chatterId: "2",
+      reply: {
+        parentMessageId: "p1",
+        parentMessageBody: "pizza is great",
+        parentUserId: "999",
+        parentUserLogin: "elizabot",
+        parentUserName: "ElizaBot",
+        threadMessageId: "p1",
+      },
+    });
+    expect(engine.evaluate(reply).reason).toBe("reply to bot");
+  });
+
+  it("matches keyword and regex triggers", () => {
+    expect(engine.evaluate(chat("is Eliza here?")).reason).toBe('trigger "eliza"');
+    vi.advanceTimersByTime(options.globalCooldownMs);
+    expect(engine.evaluate(chat("I need HELP", { chatterId: "2" })).reason).toBe("trigger /\\bhelp\\b/i");
+    vi.advanceTimersByTime(options.globalCooldownMs);
+    expect(engine.evaluate(chat("just chatting", { chatterId: "3" }))).toEqual({ verdict: "ignore", reason: "no trigger" });
+  });
+
+  it("matches keywords and the character name as whole words only", () => {
+    const named = new ReplyDecisionEngine({} as IAgentRuntime, bot, { ...options, triggers: ["eli", "ava", "c++"] });
+    for (const [i, text] of ["this is delicious", "the floor is lava", "is it available?", "Elias says hi"].entries()) {
+      expect(named.evaluate(chat(text, { chatterId: `n${i}` })).verdict).toBe("ignore");
+    }
+    expect(named.evaluate(chat("hey Ava!", { chatterId: "a" })).reason).toBe('trigger "ava"');
+    vi.advanceTimersByTime(options.globalCooldownMs);
+    expect(named.evaluate(chat("eli, you there?", { chatterId: "b" })).reason).toBe('trigger "eli"');
+    vi.advanceTimersByTime(options.globalCooldownMs);
+    expect(named.evaluate(chat("anyone know C++?", { chatterId: "c" })).reason).toBe('trigger "c++"');
+  });
+
+  it("reserves the user and channel cooldowns when it decides to respond", () => {
+    expect(engine.evaluate(chat("eliza?")).verdict).toBe("respond");
+    expect(engine.evaluate(chat("eliza again?")).reason).toBe("user cooldown (30s left)");
+    expect(engine.evaluate(chat("eliza!", { chatterId: "2" })).reason).toBe("global cooldown");
+
+    vi.advanceTimersByTime(options.globalCooldownMs);
+    expect(engine.evaluate(chat("eliza!", { chatterId: "2" })).verdict).toBe("respond");
+  });
+
+  it("answers mentions and replies during cooldowns", () => {
+    engine.evaluate(chat("eliza?"));
+    expect(engine.evaluate(chat("@elizabot hello?")).reason).toBe("mention");
+    expect(engine.evaluate(chat("@elizabot hi", { chatterId: "2" })).reason).toBe("mention");
+  });
+
+  it("gives the reservation back on release", () => {
+    const msg = chat("eliza?");
+    const decision = engine.evaluate(msg);
+    engine.releaseReply(msg, decision);
+
+    expect(engine.evaluate(chat("eliza again?")).verdict).toBe("respond");
+  });
+
+  it("keeps cooldowns started by a later reply when releasing", () => {
+    const msg = chat("eliza?");
+    const decision = engine.evaluate(msg);
+    vi.advanceTimersByTime(1000);
+    engine.recordReply("100", "1");
+    engine.releaseReply(msg, decision);
+
+    expect(engine.evaluate(chat("eliza again?")).verdict).toBe("ignore");
+  });
+
+  it("asks the model instead of rolling the dice when configured", () => {
+    const llm = new ReplyDecisionEngine({} as IAgentRuntime, bot, { ...options, useLlmShouldRespond: true });
+    expect(llm.evaluate(chat("nice weather"))).toMatchObject({ verdict: "ask-llm" });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeChatReply } from "../src/sanitizer";
+
+describe("sanitizeChatReply", () => {
+  it("returns null for empty or garbage output", () => {
+    expect(sanitizeChatReply(undefined)).toBeNull();
+    expect(sanitizeChatReply("   ")).toBeNull();
+    expect(sanitizeChatReply("... !!! ???")).toBeNull();
+    expect(sanitizeChatReply('{"user": "eliza", "action": "NONE"}')).toBeNull();
+  });
+
+  it("strips reasoning blocks, also unterminated ones", () => {
+    expect(sanitizeChatReply("<think>they want a joke</think>Why did the streamer cross the road?")).toBe(
+      "Why did the streamer cross the road?"
+    );
+    expect(sanitizeChatReply("planning the answer</think>GG chat")).toBe("GG chat");
+    expect(sanitizeChatReply("GG chat<think>now I should")).toBe("GG chat");
+  });
+
+  describe("JSON recovery", () => {
+    it("reads the text field of a JSON reply", () => {
+      expect(sanitizeChatReply('{"user": "Eliza", "text": "hello chat", "action": "NONE"}')).toBe("hello chat");
+    });
+
+    it("reads fenced JSON5", () => {
+      expect(sanitizeChatReply("```json\n{ text: 'hi there', action: 'NONE', }\n```")).toBe("hi there");
+    });
+
+    it("recovers the text of unterminated JSON", () => {
+      expect(sanitizeChatReply('{"user": "Eliza", "text": "cut off mid \\"quote\\" and')).toBe('cut off mid "quote" and');
+    });
+  });
+
+  it("removes markdown and collapses newlines", () => {
+    expect(sanitizeChatReply("# Title\n- **bold** point\n- see [docs](https://x.y)")).toBe(
+      "Title bold point see docs (https://x.y)"
+    );
+  });
+
+  describe("command neutralization", () => {
+    it("drops leading slashes and dots", () => {
+      expect(sanitizeChatReply("/ban someone")).toBe("ban someone");
+      expect(sanitizeChatReply(".timeout someone 600")).toBe("timeout someone 600");
+      expect(sanitizeChatReply("  //\\. /me dances")).toBe("me dances");
+    });
+
+    it("also catches commands that were wrapped in quotes or JSON", () => {
+      expect(sanitizeChatReply('"/clear"')).toBe("clear");
+      expect(sanitizeChatReply('{"text": "/mod eliza"}')).toBe("mod eliza");
+    });
+
+    it("leaves slashes inside the text alone", () => {
+      expect(sanitizeChatReply("it's 50/50 tbh.")).toBe("it's 50/50 tbh.");
+    });
+  });
+
+  describe("truncation", () => {
+    it("cuts at a sentence boundary when there is one late enough", () => {
+      const text = "This is the first sentence of the reply. And this second one runs way too long for chat";
+      expect(sanitizeChatReply(text, 60)).toBe("This is the first sentence of the reply.");
+    });
+
+    it("otherwise cuts at a word boundary and adds an ellipsis", () => {
+      const result = sanitizeChatReply("one two three four five six seven eight nine ten", 30)!;
+      expect(result).toBe("one two three four five six…");
+      expect(result.length).toBeLessThanOrEqual(30);
+    });
+
+    it("keeps replies within the limit untouched", () => {
+      expect(sanitizeChatReply("short and sweet", 20)).toBe("short and sweet");
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IAgentRuntime } from "@elizaos/core";
+import { SchedulerHost, SchedulerSettings, TwitchScheduler, loadSchedulerSettings } from "../src/scheduler";
+
+const minutes = (n: number) => n * 60000;
+
+function createHost(overrides: Partial<SchedulerHost> = {}) {
+  const sent: Array<{ broadcasterId: string; text: string; color?: string }> = [];
+  const host: SchedulerHost = {
+    channels: () => ["100"],
+    isLive: () => true,
+    isMuted: () => false,
+    lastChatAt: () => undefined,
+    generate: async (_broadcasterId, kind, topic) => `${kind}: ${topic}`,
+    send: async (broadcasterId, text, color) => {
+      sent.push({ broadcasterId, text, color });
+    },
+    ...overrides,
+  };
+  return { host, sent };
+}
+
+const idleSettings: SchedulerSettings = { timers: [], idleChatMs: minutes(10), idleJitterMs: 0, idleTopics: ["games"] };
+
+describe("TwitchScheduler", () => {
+  let scheduler: TwitchScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it("does not count a channel without chat as idle from the start", async () => {
+    const { host, sent } = createHost();
+    scheduler = new TwitchScheduler(host, idleSettings);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(minutes(9.5));
+    expect(sent).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(minutes(0.5));
+    expect(sent).toEqual([{ broadcasterId: "100", text: "idle: games", color: undefined }]);
+  });
+
+  it("posts one idle message per quiet period", async () => {
+    const { host, sent } = createHost({ lastChatAt: () => Date.now() - minutes(10) });
+    scheduler = new TwitchScheduler(host, idleSettings);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(minutes(9.5));
+    expect(sent).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(minutes(1));
+    expect(sent).toHaveLength(2);
+  });
+
+  it("skips idle chat while offline or muted", async () => {
+    let live: boolean | undefined = undefined;
+    let muted = false;
+    const { host, sent } = createHost({ isLive: () => live, isMuted: () => muted });
+    scheduler = new TwitchScheduler(host, idleSettings);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(minutes(15));
+    live = true;
+    muted = true;
+    await vi.advanceTimersByTimeAsync(minutes(1));
+    expect(sent).toEqual([]);
+
+    muted = false;
+    await vi.advanceTimersByTimeAsync(minutes(0.5));
+    expect(sent).toHaveLength(1);
+  });
+
+  it("runs timers from the static pool, as announcements when asked, and only while live", async () => {
+    let live = false;
+    const { host, sent } = createHost({ isLive: () => live });
+    scheduler = new TwitchScheduler(host, {
+      ...idleSettings,
+      idleChatMs: 0,
+      timers: [{ id: "socials", intervalMinutes: 30, messages: ["follow!"], announce: true, color: "purple" }],
+    });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(minutes(30));
+    expect(sent).toEqual([]);
+
+    live = true;
+    await vi.advanceTimersByTimeAsync(minutes(30));
+    expect(sent).toEqual([{ broadcasterId: "100", text: "follow!", color: "purple" }]);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(minutes(60));
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe("loadSchedulerSettings", () => {
+  it("drops unusable timers and defaults the colour", () => {
+    const settings: Record<string, string> = {
+      TWITCH_SCHEDULE: `[
+        { intervalMinutes: 30, messages: ["a"], color: "pink" },
+        { id: "empty", intervalMinutes: 30 },
+        { id: "never", intervalMinutes: 0, topics: ["x"] },
+      ]`,
+      TWITCH_IDLE_CHAT_MINUTES: "15",
+    };
+    const runtime = { getSetting: (key: string) => settings[key] } as unknown as IAgentRuntime;
+
+    expect(loadSchedulerSettings(runtime)).toEqual({
+      timers: [{ id: "timer-1", intervalMinutes: 30, messages: ["a"], color: "primary" }],
+      idleChatMs: minutes(15),
+      idleJitterMs: minutes(2),
+      idleTopics: [],
+    });
+  });
+});
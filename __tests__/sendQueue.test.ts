@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChatSendResult, TwitchSendQueue, splitChatMessage } from "../src/sendQueue";
+
+const sent: ChatSendResult = { status: 200, isSent: true };
+
+describe("splitChatMessage", () => {
+  it("keeps short messages in one chunk", () => {
+    expect(splitChatMessage("  hello chat  ")).toEqual(["hello chat"]);
+  });
+
+  it("returns no chunks for blank text", () => {
+    expect(splitChatMessage("   ")).toEqual([]);
+  });
+
+  it("splits at sentence boundaries first", () => {
+    const chunks = splitChatMessage("First sentence here. Second one! Third?", 25);
+    expect(chunks).toEqual(["First sentence here.", "Second one! Third?"]);
+  });
+
+  it("falls back to word boundaries for long sentences", () => {
+    const chunks = splitChatMessage("one two three four five six seven", 10);
+    expect(chunks).toEqual(["one two", "three four", "five six", "seven"]);
+    expect(chunks.every((c) => c.length <= 10)).toBe(true);
+  });
+
+  it("cuts a single word longer than the limit", () => {
+    expect(splitChatMessage("abcdefghijkl", 5)).toEqual(["abcde", "fghij", "kl"]);
+  });
+});
+
+describe("TwitchSendQueue", () => {
+  it("sends the chunks of a reply in order with the same options", async () => {
+    const sender = vi.fn().mockResolvedValue(sent);
+    const queue = new TwitchSendQueue(sender, { isModerator: false, maxMessageLength: 10 });
+
+    const results = await queue.enqueue("123", "one two three", { replyParentMessageId: "m1" });
+
+    expect(results).toEqual([sent, sent]);
+    expect(sender.mock.calls).toEqual([
+      ["123", "one two", { replyParentMessageId: "m1" }],
+      ["123", "three", { replyParentMessageId: "m1" }],
+    ]);
+  });
+
+  it("resolves queued chunks with null when stopped", async () => {
+    let release: (result: ChatSendResult) => void = () => {};
+    const sender = vi.fn(() => new Promise<ChatSendResult>((resolve) => (release = resolve)));
+    const queue = new TwitchSendQueue(sender, { isModerator: false });
+
+    const first = queue.enqueue("123", "first");
+    const second = queue.enqueue("123", "second");
+    await Promise.resolve();
+    queue.stop();
+    release(sent);
+
+    expect(await first).toEqual([sent]);
+    expect(await second).toEqual([null]);
+    expect(sender).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves with null instead of hanging when enqueued after stop", async () => {
+    const sender = vi.fn().mockResolvedValue(sent);
+    const queue = new TwitchSendQueue(sender, { isModerator: false });
+    queue.stop();
+
+    expect(await queue.enqueue("123", "too late")).toEqual([null]);
+    expect(sender).not.toHaveBeenCalled();
+  });
+});
+
+describe("TwitchSendQueue limits", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retries a 429 once the Ratelimit-Reset time has passed", async () => {
+    const sender = vi
+      .fn()
+      .mockResolvedValueOnce({ status: 429, isSent: false, rateLimitResetAt: Date.now() + 5000 })
+      .mockResolvedValue(sent);
+    const queue = new TwitchSendQueue(sender, { isModerator: false });
+
+    const results = queue.enqueue("123", "hello");
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(sender).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await results).toEqual([sent]);
+    expect(sender).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const sender = vi.fn().mockResolvedValue({ status: 429, isSent: false });
+    const queue = new TwitchSendQueue(sender, { isModerator: false, maxRetries: 2 });
+
+    const results = queue.enqueue("123", "hello");
+    // Without a reset time the retries back off 2s, 4s, 6s
+    await vi.advanceTimersByTimeAsync(12000);
+    expect(await results).toEqual([null]);
+    expect(sender).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns dropped messages without retrying them", async () => {
+    const dropped: ChatSendResult = { status: 200, isSent: false, dropReason: { code: "msg_duplicate", message: "dup" } };
+    const sender = vi.fn().mockResolvedValue(dropped);
+    const queue = new TwitchSendQueue(sender, { isModerator: false });
+
+    expect(await queue.enqueue("123", "hello")).toEqual([dropped]);
+    expect(sender).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends at most 20 messages per 30s from the account, across channels", async () => {
+    const sender = vi.fn().mockResolvedValue(sent);
+    const queue = new TwitchSendQueue(sender, { isModerator: false });
+
+    for (let i = 0; i < 12; i++) {
+      void queue.enqueue("123", `a${i}`);
+      void queue.enqueue("456", `b${i}`);
+    }
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(sender).toHaveBeenCalledTimes(20);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sender).toHaveBeenCalledTimes(24);
+    queue.stop();
+  });
+
+  it("allows 100 messages per 30s in each channel as a moderator", async () => {
+    const sender = vi.fn().mockResolvedValue(sent);
+    const queue = new TwitchSendQueue(sender, { isModerator: true });
+
+    for (let i = 0; i < 101; i++) {
+      void queue.enqueue("123", `a${i}`);
+    }
+    void queue.enqueue("456", "other channel");
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(sender).toHaveBeenCalledTimes(101);
+    expect(sender.mock.calls.map((c) => c[1])).not.toContain("a100");
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sender).toHaveBeenCalledTimes(102);
+    queue.stop();
+  });
+});
@@ -0,0 +1,135 @@
+import net, { AddressInfo } from "net";
+import path from "path";
+import WebSocket from "ws";
+import { describe, expect, it } from "vitest";
+import { IAgentRuntime } from "@elizaos/core";
+import { TwitchChannelConfig } from "../src/channels";
+import { TwitchModeration } from "../src/moderation";
+import {
+  EventSubFrame,
+  FakeEventSubServer,
+  ReplayEntry,
+  ReplaySource,
+  ReplayWriter,
+  SimulatorSettings,
+  TranscriptHelixClient,
+  readReplayFile,
+} from "../src/simulator";
+
+const fixture = path.join(__dirname, "fixtures", "session.jsonl");
+const runtime = { getSetting: () => undefined } as unknown as IAgentRuntime;
+const channels: TwitchChannelConfig[] = [{ broadcasterId: "100", login: "streamer", enabled: true }];
+
+const settings: SimulatorSettings = {
+  enabled: true,
+  source: fixture,
+  transport: "direct",
+  wsPort: 8081,
+  speed: 0,
+  transcriptFile: "",
+};
+
+type HelixEntry = Extract<ReplayEntry, { kind: "helix" }>;
+
+/** Replayed ids carry a "-replay-<run>" suffix; the recording has the original ones. */
+const withoutReplaySuffix = (entry: HelixEntry) => ({
+  method: entry.method,
+  path: entry.path,
+  query: JSON.parse(JSON.stringify(entry.query ?? {}).replace(/-replay-[a-z0-9]+/g, "")),
+  body: entry.body,
+});
+
+/**
+ * Replays the fixture against a transcript Helix client, reacting to chat the way the
+ * client does for the recorded session: replies go to /chat/messages, spam is deleted
+ * and moderators can turn on shield mode.
+ */
+async function replay(): Promise<{ writer: ReplayWriter; frames: EventSubFrame[] }> {
+  const writer = new ReplayWriter(null);
+  const helix = new TranscriptHelixClient(writer);
+  const moderation = new TwitchModeration(runtime, helix, "900", async () => {});
+  const frames: EventSubFrame[] = [];
+
+  const source = new ReplaySource(settings, channels, async (frame) => {
+    frames.push(frame);
+    writer.event(frame);
+    const event = frame.payload.event;
+    const text: string = event.message.text;
+    if (text.includes("spam.example")) {
+      await moderation.execute({
+        kind: "delete",
+        broadcasterId: "100",
+        userId: event.chatter_user_id,
+        messageId: event.message_id,
+      });
+    } else if (text === "!shield on" && event.badges.some((b: { set_id: string }) => b.set_id === "moderator")) {
+      await moderation.execute({ kind: "shield", broadcasterId: "100", active: true });
+    } else {
+      const reply = `hey ${event.chatter_user_login}, welcome in!`;
+      await helix.post("/chat/messages", { broadcaster_id: "100", sender_id: "900", message: reply });
+      writer.sent({ broadcasterId: "100", text: reply, replyParentMessageId: event.message_id });
+    }
+  });
+  await source.start();
+  return { writer, frames };
+}
+
+describe("simulator replay", () => {
+  it("dispatches every recorded event with fresh ids", async () => {
+    const { frames } = await replay();
+    expect(frames.map((f) => f.payload.event.message_id)).toEqual([
+      expect.stringMatching(/^rec-m1-replay-/),
+      expect.stringMatching(/^rec-m2-replay-/),
+      expect.stringMatching(/^rec-m3-replay-/),
+    ]);
+    expect(frames.every((f) => f.metadata.message_timestamp! > "2025-03-01T20:00:09.000Z")).toBe(true);
+  });
+
+  it("makes the same Helix calls as the recorded session", async () => {
+    const recorded = (await readReplayFile(fixture, channels)).filter((e): e is HelixEntry => e.kind === "helix");
+    const { writer } = await replay();
+    const helixCalls = writer.entries.filter((e): e is HelixEntry => e.kind === "helix");
+
+    expect(helixCalls.map(withoutReplaySuffix)).toEqual(recorded.map(withoutReplaySuffix));
+  });
+
+  it("records chat messages as sent entries instead of Helix calls", async () => {
+    const recorded = (await readReplayFile(fixture, channels)).filter((e) => e.kind === "sent");
+    const { writer } = await replay();
+
+    expect(writer.entries.some((e) => e.kind === "helix" && e.path === "/chat/messages")).toBe(false);
+    expect(writer.entries.filter((e) => e.kind === "sent").map((e) => e.kind === "sent" && e.text)).toEqual(
+      recorded.map((e) => e.kind === "sent" && e.text)
+    );
+  });
+});
+
+describe("FakeEventSubServer", () => {
+  it("welcomes a connecting client", async () => {
+    const server = new FakeEventSubServer(0);
+    await server.start();
+    const { port } = server["server"]!.address() as AddressInfo;
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/ws`);
+    try {
+      const frame = await new Promise<any>((resolve) => socket.once("message", (data) => resolve(JSON.parse(String(data)))));
+      expect(frame.metadata.message_type).toBe("session_welcome");
+      expect(frame.payload.session.keepalive_timeout_seconds).toBe(10);
+    } finally {
+      socket.close();
+      server.stop();
+    }
+  });
+
+  it("leaves no keepalive timer behind when the port is taken", async () => {
+    const blocker = net.createServer();
+    await new Promise<void>((resolve) => blocker.listen(0, "127.0.0.1", resolve));
+    const server = new FakeEventSubServer((blocker.address() as AddressInfo).port);
+    try {
+      await expect(server.start()).rejects.toThrow(/EADDRINUSE/);
+      expect(server["keepalive"]).toBeNull();
+      expect(server["server"]).toBeNull();
+    } finally {
+      blocker.close();
+    }
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { applyLiveMode } from "../src/streamLifecycle";
+
+describe("applyLiveMode", () => {
+  const mention = { verdict: "respond", reason: "mention" } as const;
+  const keyword = { verdict: "respond", reason: 'trigger "eliza"' } as const;
+
+  it("leaves decisions alone while live, when the state is unknown or in always mode", () => {
+    expect(applyLiveMode("live-only", true, keyword)).toBe(keyword);
+    expect(applyLiveMode("live-only", undefined, keyword)).toBe(keyword);
+    expect(applyLiveMode("always", false, keyword)).toBe(keyword);
+  });
+
+  it("ignores everything offline in live-only mode", () => {
+    expect(applyLiveMode("live-only", false, mention)).toEqual({ verdict: "ignore", reason: "channel offline" });
+  });
+
+  it("keeps only direct replies offline in offline-reduced mode", () => {
+    expect(applyLiveMode("offline-reduced", false, mention)).toBe(mention);
+    expect(applyLiveMode("offline-reduced", false, { verdict: "respond", reason: "!ask" }).verdict).toBe("respond");
+    expect(applyLiveMode("offline-reduced", false, keyword)).toEqual({
+      verdict: "ignore",
+      reason: 'offline chat mode (trigger "eliza")',
+    });
+  });
+
+  it("does not turn an ignore into a reply", () => {
+    const ignored = { verdict: "ignore", reason: "no trigger" } as const;
+    expect(applyLiveMode("offline-reduced", false, ignored)).toBe(ignored);
+  });
+});
@@ -0,0 +1,152 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import fetch, { Response } from "node-fetch";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IAgentRuntime } from "@elizaos/core";
+import { BASE_REQUIRED_SCOPES, FileTokenStore, TokenStore, TwitchTokenManager } from "../src/tokenManager";
+
+vi.mock("node-fetch", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node-fetch")>();
+  return { ...actual, default: vi.fn() };
+});
+
+const fetchMock = vi.mocked(fetch);
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const all: Record<string, string> = {
+    TWITCH_OAUTH_TOKEN: "access-1",
+    TWITCH_REFRESH_TOKEN: "refresh-1",
+    TWITCH_CLIENT_SECRET: "secret",
+    ...settings,
+  };
+  return { agentId: "agent", getSetting: (key: string) => all[key] } as unknown as IAgentRuntime;
+}
+
+/** Answers /oauth2/validate and /oauth2/token with the given handlers. */
+function routeAuth(handlers: { validate: (token: string) => Response; token: (body: URLSearchParams) => Response }) {
+  fetchMock.mockImplementation(async (url, init) => {
+    if (String(url).endsWith("/oauth2/validate")) {
+      return handlers.validate(String((init!.headers as Record<string, string>).Authorization).replace("OAuth ", ""));
+    }
+    return handlers.token(init!.body as URLSearchParams);
+  });
+}
+
+const valid = (expiresIn: number) => json(200, { client_id: "client", login: "elizabot", scopes: BASE_REQUIRED_SCOPES, expires_in: expiresIn });
+
+describe("TwitchTokenManager", () => {
+  let store: TokenStore & { save: ReturnType<typeof vi.fn> };
+  let manager: TwitchTokenManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset();
+    store = { name: "test", load: async () => null, save: vi.fn(async () => {}) };
+  });
+
+  afterEach(() => {
+    manager?.stop();
+    vi.useRealTimers();
+  });
+
+  it("refreshes the token five minutes before it expires", async () => {
+    routeAuth({
+      validate: () => valid(3600),
+      token: (body) =>
+        body.get("refresh_token") === "refresh-1"
+          ? json(200, { access_token: "access-2", refresh_token: "refresh-2", expires_in: 14400, scope: BASE_REQUIRED_SCOPES })
+          : json(400, { message: "Invalid refresh token" }),
+    });
+    manager = new TwitchTokenManager(createRuntime(), "client", [], store);
+    await manager.init();
+    expect(manager.accessToken).toBe("access-1");
+
+    await vi.advanceTimersByTimeAsync(3300000 - 1);
+    expect(manager.accessToken).toBe("access-1");
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(manager.accessToken).toBe("access-2");
+    expect(manager.expiresAt).toBe(Date.now() + 14400000);
+    expect(store.save).toHaveBeenCalledWith(expect.objectContaining({ accessToken: "access-2", refreshToken: "refresh-2" }));
+  });
+
+  it("refreshes an expired token at startup", async () => {
+    routeAuth({
+      validate: (token) => (token === "access-2" ? valid(14400) : json(401, { message: "invalid access token" })),
+      token: () => json(200, { access_token: "access-2", refresh_token: "refresh-2", expires_in: 14400 }),
+    });
+    manager = new TwitchTokenManager(createRuntime(), "client", [], store);
+    await manager.init();
+
+    expect(manager.accessToken).toBe("access-2");
+    expect(store.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails to start when the expired token cannot be refreshed", async () => {
+    routeAuth({
+      validate: () => json(401, { message: "invalid access token" }),
+      token: () => json(400, { message: "Invalid refresh token" }),
+    });
+    manager = new TwitchTokenManager(createRuntime(), "client", [], store);
+
+    await expect(manager.init()).rejects.toThrow("Twitch token invalid");
+    expect(() => manager.accessToken).toThrow("not initialized");
+    expect(store.save).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("keeps the current token when a refresh fails", async () => {
+    routeAuth({ validate: () => valid(3600), token: () => json(400, { message: "Invalid refresh token" }) });
+    manager = new TwitchTokenManager(createRuntime(), "client", [], store);
+    await manager.init();
+
+    expect(await manager.refresh()).toBe(false);
+    expect(manager.accessToken).toBe("access-1");
+    expect(store.save).not.toHaveBeenCalled();
+  });
+
+  it("does not try to refresh without a client secret", async () => {
+    routeAuth({ validate: () => json(401, {}), token: () => json(200, {}) });
+    manager = new TwitchTokenManager(createRuntime({ TWITCH_CLIENT_SECRET: "" }), "client", [], store);
+
+    await expect(manager.init()).rejects.toThrow("Twitch token invalid");
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual(["https://id.twitch.tv/oauth2/validate"]);
+  });
+
+  it("shares one refresh between concurrent callers", async () => {
+    routeAuth({
+      validate: () => valid(3600),
+      token: () => json(200, { access_token: "access-2", refresh_token: "refresh-2", expires_in: 14400 }),
+    });
+    manager = new TwitchTokenManager(createRuntime(), "client", [], store);
+    await manager.init();
+    fetchMock.mockClear();
+
+    expect(await Promise.all([manager.refresh(), manager.refresh()])).toEqual([true, true]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("FileTokenStore", () => {
+  const file = path.join(os.tmpdir(), `twitch-tokens-test-${process.pid}.json`);
+
+  afterEach(async () => {
+    await fs.rm(file, { force: true });
+  });
+
+  it("loads nothing from a missing or unreadable file", async () => {
+    const store = new FileTokenStore(file);
+    expect(await store.load()).toBeNull();
+    await fs.writeFile(file, "{ not json");
+    expect(await store.load()).toBeNull();
+  });
+
+  it("round-trips saved tokens", async () => {
+    const store = new FileTokenStore(file);
+    await store.save({ accessToken: "a", refreshToken: "r", expiresAt: 1 });
+    expect(await store.load()).toEqual({ accessToken: "a", refreshToken: "r", expiresAt: 1 });
+  });
+});
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EventSubWebhookServer, WebhookSettings, verifyEventSubSignature } from "../src/webhook";
+
+const secret = "s3cret-webhook-key";
+
+function sign(messageId: string, timestamp: string, body: string, key = secret): string {
+  return "sha256=" + crypto.createHmac("sha256", key).update(messageId + timestamp + body).digest("hex");
+}
+
+describe("verifyEventSubSignature", () => {
+  const body = '{"challenge":"abc"}';
+  const timestamp = "2025-03-01T20:00:00.000Z";
+
+  it("accepts the HMAC of id + timestamp + body", () => {
+    expect(verifyEventSubSignature(secret, "m1", timestamp, Buffer.from(body), sign("m1", timestamp, body))).toBe(true);
+  });
+
+  it("rejects another secret, a changed body or a malformed signature", () => {
+    const signature = sign("m1", timestamp, body);
+    const otherKey = sign("m1", timestamp, body, "other-key");
+    expect(verifyEventSubSignature(secret, "m1", timestamp, Buffer.from(body), otherKey)).toBe(false);
+    expect(verifyEventSubSignature(secret, "m1", timestamp, Buffer.from(body + " "), signature)).toBe(false);
+    expect(verifyEventSubSignature(secret, "m2", timestamp, Buffer.from(body), signature)).toBe(false);
+    expect(verifyEventSubSignature(secret, "m1", timestamp, Buffer.from(body), "sha256=abc")).toBe(false);
+  });
+});
+
+describe("EventSubWebhookServer", () => {
+  const settings: WebhookSettings = {
+    enabled: true,
+    callbackUrl: "https://bot.example.com/twitch/eventsub",
+    secret,
+    port: 0,
+    path: "/twitch/eventsub",
+    maxAgeMs: 600000,
+  };
+  const onNotification = vi.fn();
+  const onRevocation = vi.fn();
+  let server: EventSubWebhookServer;
+  let url: string;
+
+  const post = (
+    type: string,
+    payload: object,
+    { messageId = crypto.randomUUID(), timestamp = new Date().toISOString(), signature = "" } = {}
+  ) => {
+    const body = JSON.stringify(payload);
+    return fetch(url, {
+      method: "POST",
+      headers: {
+        "Twitch-Eventsub-Message-Id": messageId,
+        "Twitch-Eventsub-Message-Timestamp": timestamp,
+        "Twitch-Eventsub-Message-Signature": signature || sign(messageId, timestamp, body),
+        "Twitch-Eventsub-Message-Type": type,
+      },
+      body,
+    });
+  };
+
+  const notification = { subscription: { type: "channel.follow", version: "2" }, event: { user_login: "viewer" } };
+
+  beforeEach(async () => {
+    onNotification.mockReset();
+    onRevocation.mockReset();
+    server = new EventSubWebhookServer(settings, { onNotification, onRevocation });
+    await server.start();
+    const { port } = server["server"]!.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}${settings.path}`;
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  it("answers callback verification with the challenge", async () => {
+    const res = await post("webhook_callback_verification", {
+      challenge: "pogchamp",
+      subscription: notification.subscription,
+    });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("pogchamp");
+  });
+
+  it("forwards notifications as WebSocket-shaped frames", async () => {
+    const res = await post("notification", notification, { messageId: "m1" });
+    expect(res.status).toBe(204);
+    await vi.waitFor(() => expect(onNotification).toHaveBeenCalledTimes(1));
+    expect(onNotification.mock.calls[0][0]).toMatchObject({
+      metadata: { message_id: "m1", message_type: "notification", subscription_type: "channel.follow" },
+      payload: notification,
+    });
+  });
+
+  it("rejects invalid signatures", async () => {
+    const res = await post("notification", notification, { signature: "sha256=forged" });
+    expect(res.status).toBe(403);
+    expect(onNotification).not.toHaveBeenCalled();
+  });
+
+  it("acknowledges but drops messages older than the allowed age", async () => {
+    const timestamp = new Date(Date.now() - settings.maxAgeMs - 1000).toISOString();
+    const res = await post("notification", notification, { timestamp });
+    expect(res.status).toBe(204);
+    expect(onNotification).not.toHaveBeenCalled();
+  });
+
+  it("acknowledges but drops replayed message ids", async () => {
+    await post("notification", notification, { messageId: "m1" });
+    const res = await post("notification", notification, { messageId: "m1" });
+    expect(res.status).toBe(204);
+    await vi.waitFor(() => expect(onNotification).toHaveBeenCalled());
+    expect(onNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it("forwards revocations", async () => {
+    await post("revocation", { subscription: { ...notification.subscription, status: "authorization_revoked" } });
+    await vi.waitFor(() => expect(onRevocation).toHaveBeenCalledTimes(1));
+    expect(onNotification).not.toHaveBeenCalled();
+  });
+});
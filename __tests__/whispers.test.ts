@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IAgentRuntime } from "@elizaos/core";
+import { HelixClient, HelixError } from "../src/helix";
+import { TwitchWhispers, WhisperSettings, loadWhisperSettings, parseWhisper } from "../src/whispers";
+
+const everyone: WhisperSettings = { enabled: true, allowedRoles: ["everyone"], allowedUsers: new Set(), persona: "" };
+
+function createRuntime(cache = new Map<string, unknown>()): IAgentRuntime {
+  return {
+    agentId: "agent",
+    cacheManager: {
+      get: async (key: string) => cache.get(key),
+      set: async (key: string, value: unknown) => {
+        cache.set(key, structuredClone(value));
+      },
+    },
+  } as unknown as IAgentRuntime;
+}
+
+describe("parseWhisper", () => {
+  it("maps the whisper event to a chat message without a channel", () => {
+    const msg = parseWhisper({
+      whisper_id: "w1",
+      from_user_id: "1",
+      from_user_login: "viewer",
+      from_user_name: "Viewer",
+      whisper: { text: " hi   there " },
+    });
+    expect(msg).toMatchObject({ messageId: "w1", broadcasterId: "", chatterId: "1", chatterName: "Viewer", cleanText: "hi there" });
+  });
+});
+
+describe("loadWhisperSettings", () => {
+  it("keeps known roles and lowercases the allowed users", () => {
+    const settings: Record<string, string> = {
+      TWITCH_WHISPER_ALLOWED_ROLES: "Moderator, VIP, admins",
+      TWITCH_WHISPER_ALLOWED_USERS: "SomeFriend",
+    };
+    const runtime = { getSetting: (key: string) => settings[key] } as unknown as IAgentRuntime;
+    expect(loadWhisperSettings(runtime)).toMatchObject({
+      allowedRoles: ["moderator", "vip"],
+      allowedUsers: new Set(["somefriend"]),
+    });
+  });
+});
+
+describe("TwitchWhispers", () => {
+  const post = vi.fn();
+  const helix = { post } as unknown as HelixClient;
+
+  beforeEach(() => {
+    post.mockReset().mockResolvedValue(undefined);
+  });
+
+  describe("deniedReason", () => {
+    const mods: WhisperSettings = { ...everyone, allowedRoles: ["moderator"], allowedUsers: new Set(["friend"]) };
+    const whispers = new TwitchWhispers(createRuntime(), helix, "900", mods);
+
+    it("lets everyone through by default", () => {
+      expect(new TwitchWhispers(createRuntime(), helix, "900", everyone).deniedReason("viewer", {})).toBeNull();
+    });
+
+    it("goes by the allowed users and the badges last seen in chat", () => {
+      expect(whispers.deniedReason("Friend", {})).toBeNull();
+      expect(whispers.deniedReason("moddy", { "100": [], "200": ["moderator"] })).toBeNull();
+      expect(whispers.deniedReason("viewer", { "100": ["subscriber"] })).toBe("none of the allowed roles (moderator) in chat");
+    });
+
+    it("names unknown roles as the reason for users not seen in chat", () => {
+      expect(whispers.deniedReason("moddy", {})).toBe("not seen in chat, so their roles are unknown");
+    });
+  });
+
+  it("keeps the first whisper to a recipient within 500 characters", async () => {
+    const whispers = new TwitchWhispers(createRuntime(), helix, "900", everyone);
+    const long = "x".repeat(600);
+
+    expect(await whispers.send("1", long)).toBe(true);
+    expect(await whispers.send("1", long)).toBe(true);
+
+    expect(post.mock.calls.map(([, body]) => body.message.length)).toEqual([500, 600]);
+    expect(post.mock.calls[0][2]).toEqual({ from_user_id: "900", to_user_id: "1" });
+  });
+
+  it("counts a new recipient against the daily limit only once a whisper went through", async () => {
+    const cache = new Map<string, unknown>([
+      ["twitch/whispers/agent/new-recipients", { day: new Date().toISOString().slice(0, 10), count: 39 }],
+    ]);
+    const whispers = new TwitchWhispers(createRuntime(cache), helix, "900", everyone);
+    post.mockRejectedValueOnce(new HelixError("POST", "/whispers", 400, "user blocks whispers"));
+
+    expect(await whispers.send("1", "hi")).toBe(false);
+    expect(cache.get("twitch/whispers/agent/new-recipients")).toMatchObject({ count: 39 });
+    expect(cache.get("twitch/whispers/agent")).toBeUndefined();
+
+    expect(await whispers.send("1", "hi again")).toBe(true);
+    expect(cache.get("twitch/whispers/agent/new-recipients")).toMatchObject({ count: 40 });
+    expect(cache.get("twitch/whispers/agent")).toEqual(["1"]);
+
+    expect(await whispers.send("2", "hi")).toBe(false);
+    expect(await whispers.send("1", "known recipients are fine")).toBe(true);
+    expect(post).toHaveBeenCalledTimes(3);
+  });
+
+  it("rethrows unexpected errors after giving the slot back", async () => {
+    const cache = new Map<string, unknown>();
+    const whispers = new TwitchWhispers(createRuntime(cache), helix, "900", everyone);
+    post.mockRejectedValueOnce(new TypeError("fetch failed"));
+
+    await expect(whispers.send("1", "hi")).rejects.toThrow("fetch failed");
+    expect(cache.get("twitch/whispers/agent/new-recipients")).toMatchObject({ count: 0 });
+  });
+
+  describe("rate limits", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("sends at most 3 whispers per second", async () => {
+      const whispers = new TwitchWhispers(createRuntime(), helix, "900", everyone);
+
+      const sends = [1, 2, 3, 4].map((n) => whispers.send(String(n), "hi"));
+      await vi.advanceTimersByTimeAsync(999);
+      expect(post).toHaveBeenCalledTimes(3);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await Promise.all(sends)).toEqual([true, true, true, true]);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/actions/moderation.ts
+ *
+ * Eliza actions that let the character moderate Twitch chat
+ *
+ * Each action targets the chat message the agent is responding to (its Twitch
+ * message id, chatter id and channel are stored on the memory content by the
+ * client). Whether the action runs directly or waits for a moderator's !confirm
+ * is decided by TwitchModeration.
+ */
+
+import { Action, IAgentRuntime, Memory, elizaLogger } from "@elizaos/core";
+import { ModerationKind, ModerationRequest, TwitchModeration } from "../moderation";
+
+/* ============================================================================
+   1) Helpers
+=========================================================================== */
+interface TwitchMessageRef {
+  broadcasterId: string;
+  messageId?: string;
+  chatterId?: string;
+  chatterName?: string;
+}
+
+function getTwitchMessageRef(message: Memory): TwitchMessageRef | null {
+  const content = message.content as Record<string, unknown>;
+  if (content.source !== "twitch" || typeof content.twitchBroadcasterId !== "string") {
+    return null;
+  }
+  return {
+    broadcasterId: content.twitchBroadcasterId,
+    messageId: content.twitchMessageId as string | undefined,
+    chatterId: content.twitchChatterId as string | undefined,
+    chatterName: content.chatterName as string | undefined,
+  };
+}
+
+interface ModerationActionSpec {
+  name: string;
+  kind: ModerationKind;
+  similes: string[];
+  description: string;
+  /** True when the action needs a target chatter (timeout/ban/delete). */
+  needsTarget: boolean;
+  example: string;
+}
+
+const specs: ModerationActionSpec[] = [
+  {
+    name: "TWITCH_TIMEOUT_USER",
+    kind: "timeout",
+    similes: ["TIMEOUT_CHATTER", "MUTE_CHATTER"],
+    description: "Time out the chatter who sent the current message (default 10 minutes). Use only for spam or abuse.",
+    needsTarget: true,
+    example: "buy followers at cheap-views dot com!!!",
+  },
+  {
+    name: "TWITCH_BAN_USER",
+    kind: "ban",
+    similes: ["BAN_CHATTER"],
+    description: "Permanently ban the chatter who sent the current message. Only for severe, repeated abuse.",
+    needsTarget: true,
+    example: "(a slur-filled message aimed at the streamer)",
+  },
+  {
+    name: "TWITCH_DELETE_MESSAGE",
+    kind: "delete",
+    similes: ["REMOVE_CHAT_MESSAGE"],
+    description: "Delete the current chat message, e.g. when it contains spoilers, links or slurs.",
+    needsTarget: true,
+    example: "the killer is the butler lol",
+  },
+  {
+    name: "TWITCH_CLEAR_CHAT",
+    kind: "clear",
+    similes: ["CLEAR_CHAT"],
+    description: "Clear the whole chat. Only during a spam wave.",
+    needsTarget: false,
+    example: "(dozens of identical spam messages)",
+  },
+  {
+    name: "TWITCH_SHIELD_MODE",
+    kind: "shield",
+    similes: ["ENABLE_SHIELD_MODE"],
+    description: "Turn on Twitch shield mode during a hate raid.",
+    needsTarget: false,
+    example: "(a flood of new accounts posting hate)",
+  },
+];
+
+/* ============================================================================
+   2) Action Factory
+=========================================================================== */
+export function createModerationActions(moderation: TwitchModeration): Action[] {
+  return specs.map(
+    (spec): Action => ({
+      name: spec.name,
+      similes: spec.similes,
+      description: spec.description,
+      suppressInitialMessage: true,
+      examples: [
+        [
+          { user: "{{user1}}", content: { text: spec.example } },
+          { user: "{{agentName}}", content: { text: "That's not okay here.", action: spec.name } },
+        ],
+      ],
+      validate: async (_runtime: IAgentRuntime, message: Memory) => {
+        const ref = getTwitchMessageRef(message);
+        return ref !== null && (!spec.needsTarget || Boolean(ref.chatterId));
+      },
+      handler: async (_runtime, message, _state, options) => {
+        const ref = getTwitchMessageRef(message);
+        if (!ref) {
+          return false;
+        }
+        const request: ModerationRequest = {
+          kind: spec.kind,
+          broadcasterId: ref.broadcasterId,
+          userId: ref.chatterId,
+          userName: ref.chatterName,
+          messageId: ref.messageId,
+          durationSeconds: typeof options?.durationSeconds === "number" ? options.durationSeconds : undefined,
+          reason: typeof options?.reason === "string" ? options.reason : `Requested by ${spec.name}`,
+        };
+        elizaLogger.info(`[TwitchModeration] Agent requested ${spec.name} in ${ref.broadcasterId}`);
+        return moderation.requestFromAgent(request);
+      },
+    })
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/actions/polls.ts
+ *
+ * Eliza actions that let the character run polls and predictions
+ *
+ * The actions act in the channel of the chat message the agent is responding to,
+ * and only when its sender has one of TWITCH_POLL_ALLOWED_ROLES. Titles, choices,
+ * outcomes and durations come from the action options when the caller passes them,
+ * otherwise they are read from the conversation with twitchPollParametersTemplate.
+ * Failures and reports are posted to chat; a started poll is announced by the
+ * agent's own reply (and the channel.poll.* events).
+ */
+
+import {
+  Action,
+  IAgentRuntime,
+  Memory,
+  ModelClass,
+  State,
+  composeContext,
+  elizaLogger,
+  generateText,
+  parseJSONObjectFromText,
+} from "@elizaos/core";
+import { getUserRoles } from "../commands";
+import { POLL_LIMITS, PREDICTION_LIMITS, PollOutcome, TwitchPolls } from "../polls";
+import { getTwitchTemplate, twitchPollParametersTemplate } from "../templates";
+
+/* ============================================================================
+   1) Helpers
+=========================================================================== */
+interface PollMessageRef {
+  broadcasterId: string;
+  badges: string[];
+}
+
+function getPollMessageRef(message: Memory): PollMessageRef | null {
+  const content = message.content as Record<string, unknown>;
+  if (content.source !== "twitch" || typeof content.twitchBroadcasterId !== "string") {
+    return null;
+  }
+  return {
+    broadcasterId: content.twitchBroadcasterId,
+    badges: Array.isArray(content.twitchBadges) ? (content.twitchBadges as string[]) : [],
+  };
+}
+
+type PollParams = Record<string, unknown>;
+
+const asString = (value: unknown): string => (typeof value === "string" ? value : "");
+const asList = (value: unknown): string[] => (Array.isArray(value) ? value.map((v) => String(v)) : []);
+const asSeconds = (value: unknown): number | undefined => {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? Math.round(n) : undefined;
+};
+
+interface PollActionSpec {
+  name: string;
+  similes: string[];
+  description: string;
+  example: string;
+  reply: string;
+  /** Posts the outcome to chat even when it succeeded. */
+  report: boolean;
+  /** Fields read from the conversation when the options do not carry them. */
+  extract?: { request: string; limits: string; format: string; fields: string[] };
+  run: (polls: TwitchPolls, broadcasterId: string, params: PollParams) => Promise<PollOutcome>;
+}
+
+const pollLimits =
+  `title up to ${POLL_LIMITS.titleLength} characters, ${POLL_LIMITS.minChoices}-${POLL_LIMITS.maxChoices} choices ` +
+  `of up to ${POLL_LIMITS.choiceLength} characters, ${POLL_LIMITS.minSeconds}-${POLL_LIMITS.maxSeconds} seconds`;
+const predictionLimits =
+  `title up to ${PREDICTION_LIMITS.titleLength} characters, ${PREDICTION_LIMITS.minOutcomes}-${PREDICTION_LIMITS.maxOutcomes} ` +
+  `outcomes of up to ${PREDICTION_LIMITS.outcomeLength} characters, ${PREDICTION_LIMITS.minSeconds}-${PREDICTION_LIMITS.maxSeconds} seconds`;
+
+const specs: PollActionSpec[] = [
+  {
+    name: "TWITCH_CREATE_POLL",
+    similes: ["START_POLL", "CREATE_POLL"],
+    description: "Start a Twitch poll in the channel when a moderator asks for one (title, 2-5 choices, duration).",
+    example: "can we get a poll: pizza or tacos for the next stream?",
+    reply: "Oh, the eternal question. Poll's up, vote now!",
+    report: false,
+    extract: {
+      request: "start a poll",
+      limits: pollLimits,
+      format: '{ "title": string, "choices": string[], "durationSeconds": number | null }',
+      fields: ["title", "choices"],
+    },
+    run: (polls, broadcasterId, p) =>
+      polls.createPoll({
+        broadcasterId,
+        title: asString(p.title),
+        choices: asList(p.choices),
+        durationSeconds: asSeconds(p.durationSeconds),
+      }),
+  },
+  {
+    name: "TWITCH_END_POLL",
+    similes: ["END_POLL", "CLOSE_POLL", "STOP_POLL"],
+    description: "End the running Twitch poll early and show its results.",
+    example: "ok that's enough votes, close the poll",
+    reply: "Closing the polls!",
+    report: true,
+    run: (polls, broadcasterId) => polls.endPoll(broadcasterId),
+  },
+  {
+    name: "TWITCH_POLL_RESULTS",
+    similes: ["POLL_RESULTS", "POLL_STATUS"],
+    description: "Report the votes of the current or last Twitch poll.",
+    example: "who's winning the poll?",
+    reply: "Let me check the votes.",
+    report: true,
+    run: (polls, broadcasterId) => polls.pollResults(broadcasterId),
+  },
+  {
+    name: "TWITCH_CREATE_PREDICTION",
+    similes: ["START_PREDICTION", "CREATE_PREDICTION"],
+    description:
+      "Start a Twitch channel points prediction when a moderator asks for one (title, 2-10 outcomes, prediction window).",
+    example: "start a prediction: will we beat the boss first try?",
+    reply: "Place your bets, chat!",
+    report: false,
+    extract: {
+      request: "start a channel points prediction",
+      limits: predictionLimits,
+      format: '{ "title": string, "outcomes": string[], "windowSeconds": number | null }',
+      fields: ["title", "outcomes"],
+    },
+    run: (polls, broadcasterId, p) =>
+      polls.createPrediction({
+        broadcasterId,
+        title: asString(p.title),
+        outcomes: asList(p.outcomes),
+        windowSeconds: asSeconds(p.windowSeconds),
+      }),
+  },
+  {
+    name: "TWITCH_LOCK_PREDICTION",
+    similes: ["LOCK_PREDICTION"],
+    description: "Lock the open Twitch prediction so no more points can be placed.",
+    example: "lock the prediction, the fight is starting",
+    reply: "No more bets!",
+    report: false,
+    run: (polls, broadcasterId) => polls.lockPrediction(broadcasterId),
+  },
+  {
+    name: "TWITCH_RESOLVE_PREDICTION",
+    similes: ["RESOLVE_PREDICTION", "PAY_OUT_PREDICTION"],
+    description: "Resolve the Twitch prediction with the winning outcome a moderator names, paying out the points.",
+    example: "we won! resolve the prediction as yes",
+    reply: "Paying out, congrats believers!",
+    report: false,
+    extract: {
+      request: "resolve the channel points prediction",
+      limits: "the winner must be one of the prediction's outcomes",
+      format: '{ "outcome": string }',
+      fields: ["outcome"],
+    },
+    run: (polls, broadcasterId, p) => polls.resolvePrediction(broadcasterId, asString(p.outcome)),
+  },
+  {
+    name: "TWITCH_CANCEL_PREDICTION",
+    similes: ["CANCEL_PREDICTION", "REFUND_PREDICTION"],
+    description: "Cancel the Twitch prediction and refund every point.",
+    example: "the game crashed, cancel the prediction",
+    reply: "Refunding everyone, that one doesn't count.",
+    report: false,
+    run: (polls, broadcasterId) => polls.cancelPrediction(broadcasterId),
+  },
+  {
+    name: "TWITCH_PREDICTION_RESULTS",
+    similes: ["PREDICTION_RESULTS", "PREDICTION_STATUS"],
+    description: "Report the points placed on the current or last Twitch prediction.",
+    example: "how many points are on the prediction?",
+    reply: "Let me look at the pot.",
+    report: true,
+    run: (polls, broadcasterId) => polls.predictionResults(broadcasterId),
+  },
+];
+
+/**
+ * Reads the spec's fields from the conversation with the small model.
+ */
+async function extractParams(
+  runtime: IAgentRuntime,
+  message: Memory,
+  state: State | undefined,
+  spec: PollActionSpec,
+  broadcasterId: string
+): Promise<PollParams> {
+  const extract = spec.extract!;
+  const base = state ?? (await runtime.composeState(message));
+  const context = composeContext({
+    state: {
+      ...base,
+      twitchChannel: base.twitchChannel ?? broadcasterId,
+      twitchPollRequest: extract.request,
+      twitchPollLimits: extract.limits,
+      twitchPollFormat: extract.format,
+    },
+    template: getTwitchTemplate(runtime, "twitchPollParametersTemplate", twitchPollParametersTemplate),
+  });
+  const text = await generateText({ runtime, context, modelClass: ModelClass.SMALL });
+  return parseJSONObjectFromText(text) ?? {};
+}
+
+/* ============================================================================
+   2) Action Factory
+=========================================================================== */
+export function createPollActions(
+  polls: TwitchPolls,
+  notify: (broadcasterId: string, text: string) => Promise<void>
+): Action[] {
+  return specs.map(
+    (spec): Action => ({
+      name: spec.name,
+      similes: spec.similes,
+      description: spec.description,
+      examples: [
+        [
+          { user: "{{user1}}", content: { text: spec.example } },
+          { user: "{{agentName}}", content: { text: spec.reply, action: spec.name } },
+        ],
+      ],
+      validate: async (_runtime: IAgentRuntime, message: Memory) => {
+        const ref = getPollMessageRef(message);
+        if (!ref || !polls.canManage(ref.broadcasterId)) {
+          return false;
+        }
+        const roles = getUserRoles(ref.badges.map((set_id) => ({ set_id, id: "" })));
+        return polls.settings.allowedRoles.some((role) => roles.has(role));
+      },
+      handler: async (runtime, message, state, options) => {
+        const ref = getPollMessageRef(message);
+        if (!ref) {
+          return false;
+        }
+        let params: PollParams = { ...options };
+        if (spec.extract && spec.extract.fields.some((field) => params[field] === undefined)) {
+          params = { ...(await extractParams(runtime, message, state, spec, ref.broadcasterId)), ...params };
+        }
+        elizaLogger.info(`[TwitchPolls] Agent requested ${spec.name} in ${ref.broadcasterId} =>`, params);
+        const outcome = await spec.run(polls, ref.broadcasterId, params);
+        if (!outcome.ok || spec.report) {
+          await notify(ref.broadcasterId, outcome.text);
+        }
+        return outcome.ok;
+      },
+    })
+  );
+}
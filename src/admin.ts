@@ -0,0 +1,177 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/admin.ts
+ *
+ * Health, metrics and admin HTTP endpoint
+ *
+ * An optional local endpoint per client, for telling why a bot went quiet and fixing
+ * it without restarting the agent:
+ *   GET  /health               connection state, session id, subscriptions, token expiry,
+ *                              reply queue and channels as JSON (503 unless status is "ok")
+ *   GET  /metrics              Prometheus text format (./metrics)
+ *   POST /admin/pause          stop replying (chat, events, scheduled messages); chat is still
+ *                              stored and !commands still work
+ *   POST /admin/resume         reply again
+ *   POST /admin/reconnect      drop the EventSub session and open a new one
+ *   POST /admin/resubscribe    delete and re-create the EventSub subscriptions
+ *
+ * When TWITCH_ADMIN_TOKEN is set, the admin operations need "Authorization: Bearer <token>".
+ * With several characters in one process, give each its own TWITCH_ADMIN_PORT; when the
+ * port is taken the client logs it and runs without the endpoint.
+ *
+ * Settings:
+ *   TWITCH_ADMIN_ENABLED   "true" to start the endpoint
+ *   TWITCH_ADMIN_HOST      bind address, default 127.0.0.1
+ *   TWITCH_ADMIN_PORT      default 8090
+ *   TWITCH_ADMIN_TOKEN     bearer token for the admin operations
+ */
+
+import crypto from "crypto";
+import http from "http";
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { EventSubConnectionState } from "./connection";
+import { getBooleanSetting, getNumberSetting, getStringSetting } from "./settings";
+
+/* ============================================================================
+   1) Types & Settings
+=========================================================================== */
+export interface AdminSettings {
+  enabled: boolean;
+  host: string;
+  port: number;
+  token: string;
+}
+
+export function loadAdminSettings(runtime: IAgentRuntime): AdminSettings {
+  return {
+    enabled: getBooleanSetting(runtime, "TWITCH_ADMIN_ENABLED", false),
+    host: getStringSetting(runtime, "TWITCH_ADMIN_HOST", "127.0.0.1"),
+    port: getNumberSetting(runtime, "TWITCH_ADMIN_PORT", 8090),
+    token: getStringSetting(runtime, "TWITCH_ADMIN_TOKEN", ""),
+  };
+}
+
+export type HealthStatus = "ok" | "degraded" | "down";
+
+export interface TwitchHealth {
+  status: HealthStatus;
+  agent: string;
+  uptimeSeconds: number;
+  paused: boolean;
+  transport: "websocket" | "webhook" | "simulator";
+  eventSub: {
+    state: EventSubConnectionState | "listening";
+    sessionId: string | null;
+    lastMessageAt: string | null;
+  };
+  subscriptions: { count: number; types: Record<string, number> };
+  token: { expiresAt: string | null; expiresInSeconds: number | null; scopes: string[] };
+  replyQueue: { queued: number; running: number };
+  channels: Array<{ broadcasterId: string; login?: string; enabled: boolean; muted: boolean; live?: boolean }>;
+}
+
+export type AdminOperation = "pause" | "resume" | "reconnect" | "resubscribe";
+
+export interface AdminResult {
+  ok: boolean;
+  message: string;
+}
+
+export interface AdminHandlers {
+  health: () => TwitchHealth;
+  metrics: () => string;
+  run: (operation: AdminOperation) => Promise<AdminResult>;
+}
+
+const OPERATIONS: AdminOperation[] = ["pause", "resume", "reconnect", "resubscribe"];
+
+/* ============================================================================
+   2) TwitchAdminServer Class
+=========================================================================== */
+export class TwitchAdminServer {
+  private server: http.Server | null = null;
+
+  constructor(
+    private settings: AdminSettings,
+    private handlers: AdminHandlers
+  ) {}
+
+  public start(): Promise<void> {
+    if (!this.settings.token && !["127.0.0.1", "localhost", "::1"].includes(this.settings.host)) {
+      elizaLogger.warn(
+        `[TwitchAdmin] Listening on ${this.settings.host} without TWITCH_ADMIN_TOKEN; anyone who can reach it can pause the bot`
+      );
+    }
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handleRequest(req, res).catch((err) => {
+          elizaLogger.error("[TwitchAdmin] Error while handling request =>", err);
+          if (!res.headersSent) {
+            sendJson(res, 500, { ok: false, message: "internal error" });
+          }
+        });
+      });
+      server.once("error", reject);
+      server.listen(this.settings.port, this.settings.host, () => {
+        server.off("error", reject);
+        server.on("error", (err) => elizaLogger.error("[TwitchAdmin] Server error =>", err));
+        this.server = server;
+        elizaLogger.info(`[TwitchAdmin] Listening on http://${this.settings.host}:${this.settings.port}`);
+        resolve();
+      });
+    });
+  }
+
+  public stop(): void {
+    this.server?.close();
+    this.server = null;
+    elizaLogger.info("[TwitchAdmin] Server stopped");
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url ?? "/").split("?")[0].replace(/\/+$/, "") || "/";
+
+    if (req.method === "GET" && path === "/health") {
+      const health = this.handlers.health();
+      sendJson(res, health.status === "ok" ? 200 : 503, health);
+      return;
+    }
+    if (req.method === "GET" && path === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" }).end(this.handlers.metrics());
+      return;
+    }
+
+    const operation = path.startsWith("/admin/") ? (path.slice("/admin/".length) as AdminOperation) : null;
+    if (!operation || !OPERATIONS.includes(operation)) {
+      sendJson(res, 404, { ok: false, message: "not found" });
+      return;
+    }
+    if (req.method !== "POST") {
+      res.setHeader("Allow", "POST");
+      sendJson(res, 405, { ok: false, message: "use POST" });
+      return;
+    }
+    if (!this.isAuthorized(req)) {
+      elizaLogger.warn(`[TwitchAdmin] Rejected unauthorized ${operation} from ${req.socket.remoteAddress}`);
+      sendJson(res, 401, { ok: false, message: "unauthorized" });
+      return;
+    }
+
+    elizaLogger.info(`[TwitchAdmin] ${operation} requested by ${req.socket.remoteAddress}`);
+    const result = await this.handlers.run(operation);
+    sendJson(res, result.ok ? 200 : 409, result);
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.settings.token) {
+      return true;
+    }
+    const header = req.headers.authorization ?? "";
+    const a = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+    const b = Buffer.from(this.settings.token);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body, null, 2));
+}
@@ -0,0 +1,82 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/channels.ts
+ *
+ * Channel list configuration
+ *
+ * The bot can join several channels from one instance. Channels come from
+ * TWITCH_CHANNELS (JSON5 array of ids or objects) or, for backwards compatibility,
+ * from TWITCH_CHANNEL_USER_ID (a single id or a comma-separated list).
+ *
+ * Example:
+ *   TWITCH_CHANNELS=[
+ *     { id: "12345", login: "partner_one", replyStyle: "short and playful" },
+ *     { id: "67890", enabled: false },
+ *   ]
+ */
+
+import { z } from "zod";
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { getJsonSetting, getListSetting } from "./settings";
+
+/* ============================================================================
+   1) Channel Schema
+=========================================================================== */
+const channelEntrySchema = z.union([
+  z.string().min(1).transform((id) => ({ id })),
+  z.object({
+    id: z.string().min(1),
+    login: z.string().optional(),
+    enabled: z.boolean().optional(),
+    replyStyle: z.string().optional(),
+  }),
+]);
+
+export interface TwitchChannelConfig {
+  /** Broadcaster user id (used for subscriptions, rooms and sends). */
+  broadcasterId: string;
+  /** Optional login, used for logging until the first message reveals it. */
+  login?: string;
+  /** Disabled channels are neither subscribed to nor answered. */
+  enabled: boolean;
+  /** Optional per-channel style instruction appended to the reply prompt. */
+  replyStyle?: string;
+}
+
+/* ============================================================================
+   2) Loader
+=========================================================================== */
+export function loadChannelConfigs(runtime: IAgentRuntime): TwitchChannelConfig[] {
+  const rawEntries = getJsonSetting<unknown[]>(runtime, "TWITCH_CHANNELS", []);
+  const entries: unknown[] = Array.isArray(rawEntries) && rawEntries.length > 0
+    ? rawEntries
+    : getListSetting(runtime, "TWITCH_CHANNEL_USER_ID");
+
+  const channels = new Map<string, TwitchChannelConfig>();
+  for (const entry of entries) {
+    const parsed = channelEntrySchema.safeParse(entry);
+    if (!parsed.success) {
+      elizaLogger.warn("[Twitch] Ignoring invalid channel entry =>", entry);
+      continue;
+    }
+    const value = parsed.data as { id: string; login?: string; enabled?: boolean; replyStyle?: string };
+    channels.set(value.id, {
+      broadcasterId: value.id,
+      login: value.login,
+      enabled: value.enabled ?? true,
+      replyStyle: value.replyStyle,
+    });
+  }
+
+  if (channels.size === 0) {
+    throw new Error("[Twitch] No channels configured (set TWITCH_CHANNELS or TWITCH_CHANNEL_USER_ID)");
+  }
+  elizaLogger.debug("[Twitch] Channels =>", [...channels.values()]);
+  return [...channels.values()];
+}
+
+/**
+ * Room id shared by every memory of a channel's chat.
+ */
+export function channelRoomKey(broadcasterId: string): string {
+  return `twitch-${broadcasterId}`;
+}
@@ -0,0 +1,309 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/commands.ts
+ *
+ * Chat command framework
+ *
+ * This module handles:
+ *   - Routing "!command args" messages before they reach the LLM
+ *   - Badge-based permissions (broadcaster, moderator, vip, subscriber, everyone)
+ *   - Aliases and per-channel cooldowns (broadcaster and moderators skip cooldowns)
+ *   - Built-in commands: !ask, !persona, !mute, !unmute, !forget, !stats
+ *   - Custom text commands from the TWITCH_COMMANDS setting
+ *   - A shared registry other plugins can add commands to (registerTwitchCommand)
+ *
+ * Settings:
+ *   TWITCH_COMMAND_PREFIX  default "!"
+ *   TWITCH_COMMANDS        JSON5 array of custom commands, e.g.
+ *     [{ name: "discord", aliases: ["dc"], response: "Join us: https://…", cooldownSeconds: 30 },
+ *      { name: "hug", response: "{user} hugs {args}!", roles: ["subscriber"] }]
+ */
+
+import { z } from "zod";
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { getJsonSetting, getStringSetting } from "./settings";
+import { TwitchChannelConfig } from "./channels";
+import { TwitchBadge, TwitchChatMessage } from "./types";
+
+/* ============================================================================
+   1) Types & Roles
+=========================================================================== */
+export type TwitchRole = "broadcaster" | "moderator" | "vip" | "subscriber" | "everyone";
+
+export interface TwitchCommandContext {
+  runtime: IAgentRuntime;
+  msg: TwitchChatMessage;
+  channel: TwitchChannelConfig;
+  /** Command name as typed (may be an alias), lowercase, without prefix. */
+  invokedAs: string;
+  args: string[];
+  argText: string;
+  roles: Set<TwitchRole>;
+  reply: (text: string) => Promise<void>;
+}
+
+export interface TwitchCommand {
+  name: string;
+  aliases?: string[];
+  description?: string;
+  /** Roles allowed to run the command; defaults to everyone. The broadcaster is always allowed. */
+  roles?: TwitchRole[];
+  cooldownSeconds?: number;
+  handler: (ctx: TwitchCommandContext) => Promise<void>;
+}
+
+/**
+ * Maps the badges of a channel.chat.message event to roles.
+ */
+export function getUserRoles(badges: TwitchBadge[]): Set<TwitchRole> {
+  const roles = new Set<TwitchRole>(["everyone"]);
+  for (const badge of badges) {
+    switch (badge.set_id) {
+      case "broadcaster":
+        roles.add("broadcaster");
+        roles.add("moderator");
+        break;
+      case "moderator":
+      case "lead_moderator":
+        roles.add("moderator");
+        break;
+      case "vip":
+        roles.add("vip");
+        break;
+      case "subscriber":
+      case "founder":
+        roles.add("subscriber");
+        break;
+    }
+  }
+  return roles;
+}
+
+/**
+ * Parses "30s", "10m", "2h" or "1d" (a bare number means minutes).
+ */
+export function parseDuration(input: string | undefined, fallbackMs: number): number {
+  const match = input?.trim().match(/^(\d+)\s*([smhd]?)$/i);
+  if (!match) {
+    return fallbackMs;
+  }
+  const unit = (match[2] || "m").toLowerCase();
+  const factor = unit === "s" ? 1000 : unit === "h" ? 3600000 : unit === "d" ? 86400000 : 60000;
+  return Number(match[1]) * factor;
+}
+
+/* ============================================================================
+   2) Shared Registry
+   ----------------------------------------------------------------------------
+   Commands registered here are available to every TwitchClient instance.
+=========================================================================== */
+const sharedCommands = new Map<string, TwitchCommand>();
+
+export function registerTwitchCommand(command: TwitchCommand): void {
+  sharedCommands.set(command.name.toLowerCase(), command);
+  elizaLogger.debug(`[TwitchCommands] Registered shared command !${command.name}`);
+}
+
+export function unregisterTwitchCommand(name: string): void {
+  sharedCommands.delete(name.toLowerCase());
+}
+
+/* ============================================================================
+   3) CommandRouter Class
+=========================================================================== */
+export class CommandRouter {
+  private commands = new Map<string, TwitchCommand>();
+  private lastUsed = new Map<string, number>();
+  private prefix: string;
+
+  constructor(private runtime: IAgentRuntime) {
+    this.prefix = getStringSetting(runtime, "TWITCH_COMMAND_PREFIX", "!");
+  }
+
+  public register(command: TwitchCommand): void {
+    this.commands.set(command.name.toLowerCase(), command);
+  }
+
+  public list(): TwitchCommand[] {
+    const all = new Map([...sharedCommands, ...this.commands]);
+    return [...all.values()];
+  }
+
+  /**
+   * Runs the command in the message, if any. Returns true when the message was a
+   * known command (even if it was refused), so the caller skips the LLM.
+   */
+  public async handle(
+    msg: TwitchChatMessage,
+    channel: TwitchChannelConfig,
+    reply: (text: string) => Promise<void>
+  ): Promise<boolean> {
+    const text = msg.text.trim();
+    if (!text.startsWith(this.prefix)) {
+      return false;
+    }
+    const [rawName, ...args] = text.slice(this.prefix.length).split(/\s+/);
+    const invokedAs = (rawName || "").toLowerCase();
+    const command = this.find(invokedAs);
+    if (!command) {
+      return false;
+    }
+
+    const roles = getUserRoles(msg.badges);
+    const allowed = command.roles ?? ["everyone"];
+    if (!roles.has("broadcaster") && !allowed.some((role) => roles.has(role))) {
+      elizaLogger.info(`[TwitchCommands] ${msg.chatterName} may not run !${command.name} (needs ${allowed.join("/")})`);
+      return true;
+    }
+
+    const cooldownKey = `${channel.broadcasterId}:${command.name}`;
+    const cooldownMs = (command.cooldownSeconds ?? 0) * 1000;
+    const since = Date.now() - (this.lastUsed.get(cooldownKey) ?? 0);
+    if (cooldownMs > 0 && since < cooldownMs && !roles.has("moderator")) {
+      elizaLogger.debug(`[TwitchCommands] !${command.name} on cooldown in ${channel.broadcasterId}`);
+      return true;
+    }
+    this.lastUsed.set(cooldownKey, Date.now());
+
+    elizaLogger.info(`[TwitchCommands] ${msg.chatterName} => !${command.name} ${args.join(" ")}`);
+    try {
+      await command.handler({
+        runtime: this.runtime,
+        msg,
+        channel,
+        invokedAs,
+        args,
+        argText: args.join(" "),
+        roles,
+        reply,
+      });
+    } catch (err) {
+      elizaLogger.error(`[TwitchCommands] !${command.name} failed =>`, err);
+    }
+    return true;
+  }
+
+  private find(name: string): TwitchCommand | undefined {
+    for (const command of this.list()) {
+      if (command.name.toLowerCase() === name || command.aliases?.some((a) => a.toLowerCase() === name)) {
+        return command;
+      }
+    }
+    return undefined;
+  }
+}
+
+/* ============================================================================
+   4) Built-in & Custom Commands
+=========================================================================== */
+/**
+ * Client operations the built-in commands need.
+ */
+export interface BuiltinCommandHost {
+  ask: (ctx: TwitchCommandContext) => Promise<void>;
+  setReplyStyle: (broadcasterId: string, style: string | undefined) => void;
+  mute: (broadcasterId: string, durationMs: number) => void;
+  unmute: (broadcasterId: string) => void;
+  forget: (broadcasterId: string) => Promise<void>;
+  stats: (broadcasterId: string) => string;
+}
+
+export function createBuiltinCommands(host: BuiltinCommandHost): TwitchCommand[] {
+  return [
+    {
+      name: "ask",
+      description: "Ask the bot a question directly",
+      cooldownSeconds: 10,
+      handler: async (ctx) => {
+        if (ctx.argText) {
+          await host.ask(ctx);
+        }
+      },
+    },
+    {
+      name: "persona",
+      aliases: ["style"],
+      description: "Show or change the reply style for this channel (!persona reset clears it)",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        if (!ctx.argText) {
+          await ctx.reply(`Current reply style: ${ctx.channel.replyStyle || "default"}`);
+          return;
+        }
+        const style = ctx.argText.toLowerCase() === "reset" ? undefined : ctx.argText;
+        host.setReplyStyle(ctx.channel.broadcasterId, style);
+        await ctx.reply(style ? `Reply style set to: ${style}` : "Reply style reset.");
+      },
+    },
+    {
+      name: "mute",
+      description: "Stop replying in this channel for a while (e.g. !mute 10m)",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        const durationMs = parseDuration(ctx.args[0], 10 * 60000);
+        host.mute(ctx.channel.broadcasterId, durationMs);
+        await ctx.reply(`Muted for ${Math.round(durationMs / 60000)} min.`);
+      },
+    },
+    {
+      name: "unmute",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        host.unmute(ctx.channel.broadcasterId);
+        await ctx.reply("I'm back!");
+      },
+    },
+    {
+      name: "forget",
+      description: "Forget this channel's chat history",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        await host.forget(ctx.channel.broadcasterId);
+        await ctx.reply("Chat history cleared.");
+      },
+    },
+    {
+      name: "stats",
+      cooldownSeconds: 30,
+      handler: async (ctx) => {
+        await ctx.reply(host.stats(ctx.channel.broadcasterId));
+      },
+    },
+  ];
+}
+
+const customCommandSchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string()).optional(),
+  description: z.string().optional(),
+  response: z.string().min(1),
+  roles: z.array(z.enum(["broadcaster", "moderator", "vip", "subscriber", "everyone"])).optional(),
+  cooldownSeconds: z.number().nonnegative().optional(),
+});
+
+/**
+ * Builds text commands from TWITCH_COMMANDS. Responses may use {user}, {args} and {channel}.
+ */
+export function loadCustomCommands(runtime: IAgentRuntime): TwitchCommand[] {
+  const entries = getJsonSetting<unknown[]>(runtime, "TWITCH_COMMANDS", []);
+  const commands: TwitchCommand[] = [];
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const parsed = customCommandSchema.safeParse(entry);
+    if (!parsed.success) {
+      elizaLogger.warn("[TwitchCommands] Ignoring invalid custom command =>", entry);
+      continue;
+    }
+    const { response, ...def } = parsed.data;
+    commands.push({
+      ...def,
+      handler: async (ctx) => {
+        await ctx.reply(
+          response
+            .replace(/\{user\}/g, ctx.msg.chatterName)
+            .replace(/\{args\}/g, ctx.argText)
+            .replace(/\{channel\}/g, ctx.channel.login ?? ctx.channel.broadcasterId)
+        );
+      },
+    });
+  }
+  return commands;
+}
@@ -0,0 +1,341 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/connection.ts
+ *
+ * EventSub WebSocket connection manager
+ *
+ * This module handles:
+ *   - Opening the EventSub WebSocket and tracking the current session
+ *   - Following session_reconnect URLs without dropping events (the old socket
+ *     stays open until the new one receives its session_welcome)
+ *   - A keepalive watchdog driven by keepalive_timeout_seconds from session_welcome
+ *   - Reconnecting with exponential backoff after closes or missed keepalives; the
+ *     backoff only resets once a session stayed up for STABLE_SESSION_MS
+ *   - Forwarding notifications and revocations to the owning client
+ */
+
+import WebSocket from "ws";
+import { elizaLogger } from "@elizaos/core";
+
+/* ============================================================================
+   1) Constants & Handler Types
+=========================================================================== */
+export const EVENTSUB_WS_URL = "wss://eventsub.wss.twitch.tv/ws";
+
+const DEFAULT_KEEPALIVE_SECONDS = 10;
+const KEEPALIVE_GRACE_MS = 5000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+/** Twitch closes sessions without subscriptions after ~10s (code 4003), so this outlasts that. */
+const STABLE_SESSION_MS = 30000;
+const MAX_TRACKED_MESSAGE_IDS = 500;
+
+export type EventSubConnectionState = "open" | "connecting" | "reconnecting" | "closed" | "stopped";
+
+export interface EventSubConnectionHandlers {
+  /** Called for every brand new session; subscriptions must be created again. */
+  onSessionReady: (sessionId: string) => Promise<void>;
+  /** Called for every (deduplicated) notification message. */
+  onNotification: (data: any) => Promise<void>;
+  /** Called when Twitch revokes one of the session's subscriptions. */
+  onRevocation: (data: any) => Promise<void>;
+}
+
+/* ============================================================================
+   2) EventSubConnection Class
+   ----------------------------------------------------------------------------
+   Owns the WebSocket lifecycle. Subscriptions carry over on session_reconnect,
+   so onSessionReady is only invoked for fresh sessions.
+=========================================================================== */
+export class EventSubConnection {
+  private ws: WebSocket | null = null;
+  private pendingWs: WebSocket | null = null;
+  private sessionId: string | null = null;
+  private keepaliveMs = DEFAULT_KEEPALIVE_SECONDS * 1000;
+  private watchdog: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private stableTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private stopped = true;
+  private seenMessageIds = new Set<string>();
+  private lastMessageTime: number | null = null;
+
+  constructor(
+    private handlers: EventSubConnectionHandlers,
+    private url: string = EVENTSUB_WS_URL
+  ) {}
+
+  public get currentSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  public get isConnected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  public get state(): EventSubConnectionState {
+    if (this.stopped) {
+      return "stopped";
+    }
+    if (this.isConnected) {
+      return "open";
+    }
+    if (this.reconnectTimer) {
+      return "reconnecting";
+    }
+    return this.ws?.readyState === WebSocket.CONNECTING ? "connecting" : "closed";
+  }
+
+  /** Epoch milliseconds of the last frame (keepalives included) on the active socket. */
+  public get lastMessageAt(): number | null {
+    return this.lastMessageTime;
+  }
+
+  /**
+   * Opens the initial connection. Reconnects are handled internally afterwards.
+   */
+  public start(): void {
+    this.stopped = false;
+    this.open(this.url, false);
+  }
+
+  /**
+   * Closes every socket and cancels pending timers; no further reconnects happen.
+   */
+  public stop(): void {
+    this.stopped = true;
+    this.clearWatchdog();
+    this.clearStableTimer();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    for (const socket of [this.ws, this.pendingWs]) {
+      socket?.removeAllListeners("close");
+      socket?.close();
+    }
+    this.ws = null;
+    this.pendingWs = null;
+    this.sessionId = null;
+    elizaLogger.info("[EventSub] Connection stopped");
+  }
+
+  /**
+   * Drops the current session and opens a fresh one (subscriptions are re-created).
+   */
+  public reconnect(reason = "manual reconnect"): void {
+    elizaLogger.warn(`[EventSub] Forcing reconnect => ${reason}`);
+    this.dropActiveSocket();
+    this.reconnectAttempts = 0;
+    this.scheduleReconnect(reason);
+  }
+
+  private open(url: string, isReconnect: boolean): void {
+    elizaLogger.info(`[EventSub] Opening WebSocket => ${url}${isReconnect ? " (session_reconnect)" : ""}`);
+    const socket = new WebSocket(url);
+    if (isReconnect) {
+      this.pendingWs?.terminate();
+      this.pendingWs = socket;
+    } else {
+      this.ws = socket;
+    }
+
+    socket.on("open", () => {
+      elizaLogger.info("[EventSub] WebSocket connection opened");
+    });
+
+    socket.on("error", (err) => {
+      elizaLogger.error("[EventSub] WebSocket error =>", err);
+    });
+
+    socket.on("close", (code, reason) => {
+      this.handleClose(socket, code, reason.toString());
+    });
+
+    socket.on("message", (data: Buffer) => {
+      const raw = data.toString();
+      elizaLogger.debug("[EventSub] Received raw WS data =>", raw);
+      this.handleMessage(socket, raw).catch((err) => {
+        elizaLogger.error("[EventSub] Error while handling WS message =>", err);
+      });
+    });
+  }
+
+  /**
+   * Routes a frame based on metadata.message_type.
+   */
+  private async handleMessage(socket: WebSocket, raw: string): Promise<void> {
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch (err) {
+      elizaLogger.error("[EventSub] JSON parse error =>", err);
+      return;
+    }
+
+    if (socket === this.ws) {
+      this.lastMessageTime = Date.now();
+      this.resetWatchdog();
+    }
+
+    // During a session_reconnect both sockets may deliver the same message.
+    const messageId: string | undefined = data.metadata?.message_id;
+    if (messageId) {
+      if (this.seenMessageIds.has(messageId)) {
+        elizaLogger.debug(`[EventSub] Duplicate message ignored => id=${messageId}`);
+        return;
+      }
+      this.seenMessageIds.add(messageId);
+      if (this.seenMessageIds.size > MAX_TRACKED_MESSAGE_IDS) {
+        const firstKey = this.seenMessageIds.values().next().value;
+        if (typeof firstKey === "string") {
+          this.seenMessageIds.delete(firstKey);
+        }
+      }
+    }
+
+    const msgType = data.metadata?.message_type;
+    elizaLogger.debug("[EventSub] WS message_type =>", msgType);
+
+    switch (msgType) {
+      case "session_welcome":
+        await this.handleWelcome(socket, data.payload?.session);
+        break;
+      case "session_keepalive":
+        elizaLogger.debug("[EventSub] Received session_keepalive (heartbeat)");
+        break;
+      case "session_reconnect": {
+        const reconnectUrl = data.payload?.session?.reconnect_url;
+        elizaLogger.warn(`[EventSub] session_reconnect received => ${reconnectUrl}`);
+        if (reconnectUrl) {
+          this.open(reconnectUrl, true);
+        } else {
+          this.reconnect("session_reconnect without reconnect_url");
+        }
+        break;
+      }
+      case "notification":
+        await this.handlers.onNotification(data);
+        break;
+      case "revocation":
+        await this.handlers.onRevocation(data);
+        break;
+      default:
+        elizaLogger.info("[EventSub] Unhandled WS message_type =>", msgType);
+    }
+  }
+
+  /**
+   * Handles session_welcome for both fresh sessions and session_reconnect handovers.
+   */
+  private async handleWelcome(socket: WebSocket, session: any): Promise<void> {
+    const keepaliveSeconds = Number(session?.keepalive_timeout_seconds) || DEFAULT_KEEPALIVE_SECONDS;
+    this.keepaliveMs = keepaliveSeconds * 1000;
+    this.sessionId = session?.id ?? null;
+    this.startStableTimer();
+
+    if (socket === this.pendingWs) {
+      const previous = this.ws;
+      this.ws = socket;
+      this.pendingWs = null;
+      this.resetWatchdog();
+      previous?.removeAllListeners("close");
+      previous?.close(1000, "session_reconnect completed");
+      elizaLogger.info(`[EventSub] Reconnected => sessionId=${this.sessionId} (subscriptions carried over)`);
+      return;
+    }
+
+    this.resetWatchdog();
+    elizaLogger.info(`[EventSub] session_welcome => sessionId=${this.sessionId}, keepalive=${keepaliveSeconds}s`);
+    if (this.sessionId) {
+      await this.handlers.onSessionReady(this.sessionId);
+    }
+  }
+
+  private handleClose(socket: WebSocket, code: number, reason: string): void {
+    if (socket === this.pendingWs) {
+      elizaLogger.warn(`[EventSub] Reconnect socket closed before welcome => code=${code}, reason=${reason}`);
+      this.pendingWs = null;
+      return;
+    }
+    if (socket !== this.ws) {
+      return;
+    }
+
+    elizaLogger.warn(`[EventSub] WebSocket closed => code=${code}, reason=${reason}`);
+    this.ws = null;
+    this.sessionId = null;
+    this.clearWatchdog();
+    this.clearStableTimer();
+    if (!this.stopped) {
+      this.scheduleReconnect(`close code=${code}`);
+    }
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (this.stopped || this.reconnectTimer) {
+      return;
+    }
+    const backoff = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    const delay = backoff + Math.floor(Math.random() * RECONNECT_BASE_DELAY_MS);
+    this.reconnectAttempts++;
+    elizaLogger.warn(`[EventSub] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}) => ${reason}`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) {
+        this.open(this.url, false);
+      }
+    }, delay);
+  }
+
+  /**
+   * Terminates the active socket and any session_reconnect socket still waiting for
+   * its welcome, so neither can take over the session afterwards.
+   */
+  private dropActiveSocket(): void {
+    this.clearWatchdog();
+    this.clearStableTimer();
+    const sockets = [this.ws, this.pendingWs];
+    this.ws = null;
+    this.pendingWs = null;
+    this.sessionId = null;
+    for (const socket of sockets) {
+      socket?.removeAllListeners("close");
+      socket?.terminate();
+    }
+  }
+
+  /**
+   * Resets the reconnect backoff once the session has stayed up, so a session that is
+   * closed right after its welcome (e.g. no subscription succeeded) keeps backing off.
+   */
+  private startStableTimer(): void {
+    this.clearStableTimer();
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = null;
+      this.reconnectAttempts = 0;
+    }, STABLE_SESSION_MS);
+  }
+
+  private clearStableTimer(): void {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
+  private resetWatchdog(): void {
+    this.clearWatchdog();
+    this.watchdog = setTimeout(() => {
+      elizaLogger.warn(`[EventSub] No message within ${this.keepaliveMs}ms keepalive window => connection presumed dead`);
+      this.dropActiveSocket();
+      this.scheduleReconnect("missed keepalive");
+    }, this.keepaliveMs + KEEPALIVE_GRACE_MS);
+  }
+
+  private clearWatchdog(): void {
+    if (this.watchdog) {
+      clearTimeout(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/events.ts
+ *
+ * Channel event subscription registry
+ *
+ * Describes the EventSub subscriptions (beyond chat) the client can create per
+ * channel, and how each notification is turned into a chat-friendly description
+ * and template variables.
+ *
+ * Settings:
+ *   TWITCH_EVENT_SUBSCRIPTIONS  event types to subscribe to (comma-separated or JSON array),
+ *                               e.g. "channel.follow,channel.raid,channel.cheer"
+ *   TWITCH_EVENT_RESPONSE_MODE  "template" (default) | "llm" | "none"
+ *   TWITCH_EVENT_TEMPLATES      JSON5 object { "<type>": "<text with {user}, {amount}, ...>" }
+ *
+ * Poll and prediction events (channel.poll.*, channel.prediction.*) are subscribed to
+ * automatically with TWITCH_POLLS_ENABLED and announced per TWITCH_POLL_ANNOUNCE_MODE
+ * (./polls).
+ *
+ * Note: subscribe, gift, cheer and redemption events need the broadcaster's
+ * authorization (the scopes below granted to this client by the channel owner).
+ */
+
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { formatPollChoices, formatPredictionOutcomes } from "./polls";
+import { getJsonSetting, getListSetting, getStringSetting } from "./settings";
+
+/* ============================================================================
+   1) Types
+=========================================================================== */
+export interface ChannelEventDefinition {
+  type: string;
+  version: string;
+  /** Scope the authorizing user must have granted. */
+  scope?: string;
+  condition: (broadcasterId: string, botUserId: string) => Record<string, string>;
+  /** Extracts the broadcaster the event belongs to. */
+  broadcasterOf: (event: any) => string;
+  describe: (event: any) => DescribedChannelEvent;
+  /** True for notifications that are not worth storing or answering. */
+  ignore?: (event: any) => boolean;
+  /** Event fields holding text typed by a viewer; filtered like chat before describe(). */
+  userTextFields?: string[];
+  defaultTemplate: string;
+}
+
+export interface DescribedChannelEvent {
+  /** Sentence stored as the event memory and shown to the model. */
+  text: string;
+  userId?: string;
+  userLogin?: string;
+  userName?: string;
+  /** Variables available to response templates as {name}. */
+  vars: Record<string, string>;
+}
+
+export type EventResponseMode = "template" | "llm" | "none";
+
+/* ============================================================================
+   2) Registry
+=========================================================================== */
+const byBroadcaster = (event: any): string => event?.broadcaster_user_id ?? "";
+
+export const CHANNEL_EVENT_DEFINITIONS: ChannelEventDefinition[] = [
+  {
+    type: "channel.follow",
+    version: "2",
+    scope: "moderator:read:followers",
+    condition: (broadcasterId, botUserId) => ({ broadcaster_user_id: broadcasterId, moderator_user_id: botUserId }),
+    broadcasterOf: byBroadcaster,
+    describe: (e) => ({
+      text: `${e.user_name} just followed the channel.`,
+      userId: e.user_id,
+      userLogin: e.user_login,
+      userName: e.user_name,
+      vars: { user: e.user_name },
+    }),
+    defaultTemplate: "Welcome aboard, {user}! Thanks for the follow!",
+  },
+  {
+    type: "channel.subscribe",
+    version: "1",
+    scope: "channel:read:subscriptions",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    describe: (e) => ({
+      text: e.is_gift
+        ? `${e.user_name} received a gifted tier ${tierName(e.tier)} subscription.`
+        : `${e.user_name} subscribed at tier ${tierName(e.tier)}.`,
+      userId: e.user_id,
+      userLogin: e.user_login,
+      userName: e.user_name,
+      vars: { user: e.user_name, tier: tierName(e.tier) },
+    }),
+    defaultTemplate: "Thank you for the sub, {user}!",
+  },
+  {
+    type: "channel.subscription.gift",
+    version: "1",
+    scope: "channel:read:subscriptions",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    describe: (e) => {
+      const user = e.is_anonymous ? "An anonymous gifter" : e.user_name;
+      return {
+        text: `${user} gifted ${e.total} tier ${tierName(e.tier)} subscription(s) to the community.`,
+        userId: e.is_anonymous ? undefined : e.user_id,
+        userLogin: e.is_anonymous ? undefined : e.user_login,
+        userName: e.is_anonymous ? undefined : e.user_name,
+        vars: { user, amount: String(e.total ?? 1), tier: tierName(e.tier) },
+      };
+    },
+    defaultTemplate: "{user} just gifted {amount} subs! Thank you!",
+  },
+  {
+    type: "channel.cheer",
+    version: "1",
+    scope: "bits:read",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    userTextFields: ["message"],
+    describe: (e) => {
+      const user = e.is_anonymous ? "An anonymous cheerer" : e.user_name;
+      return {
+        text: `${user} cheered ${e.bits} bits: "${e.message ?? ""}"`,
+        userId: e.is_anonymous ? undefined : e.user_id,
+        userLogin: e.is_anonymous ? undefined : e.user_login,
+        userName: e.is_anonymous ? undefined : e.user_name,
+        vars: { user, amount: String(e.bits ?? 0), message: e.message ?? "" },
+      };
+    },
+    defaultTemplate: "Thanks for the {amount} bits, {user}!",
+  },
+  {
+    type: "channel.raid",
+    version: "1",
+    condition: (broadcasterId) => ({ to_broadcaster_user_id: broadcasterId }),
+    broadcasterOf: (e) => e?.to_broadcaster_user_id ?? "",
+    describe: (e) => ({
+      text: `${e.from_broadcaster_user_name} raided the channel with ${e.viewers} viewers.`,
+      userId: e.from_broadcaster_user_id,
+      userLogin: e.from_broadcaster_user_login,
+      userName: e.from_broadcaster_user_name,
+      // Display names can differ from the login (e.g. localized names), so links use the login
+      vars: {
+        user: e.from_broadcaster_user_name,
+        login: e.from_broadcaster_user_login ?? "",
+        amount: String(e.viewers ?? 0),
+      },
+    }),
+    defaultTemplate: "Welcome raiders! Thanks {user} for bringing {amount} friends! Go check out twitch.tv/{login}",
+  },
+  {
+    type: "channel.channel_points_custom_reward_redemption.add",
+    version: "1",
+    scope: "channel:read:redemptions",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    userTextFields: ["user_input"],
+    describe: (e) => ({
+      text: `${e.user_name} redeemed "${e.reward?.title}"${e.user_input ? `: "${e.user_input}"` : ""}.`,
+      userId: e.user_id,
+      userLogin: e.user_login,
+      userName: e.user_name,
+      vars: { user: e.user_name, reward: e.reward?.title ?? "", message: e.user_input ?? "" },
+    }),
+    defaultTemplate: "{user} redeemed {reward}!",
+  },
+  {
+    type: "channel.poll.begin",
+    version: "1",
+    scope: "channel:read:polls",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    describe: (e) => {
+      const choices = (e.choices ?? []).map((c: any) => c.title).join(" / ");
+      return {
+        text: `A poll started: "${e.title}" (${choices}).`,
+        vars: { title: e.title ?? "", choices },
+      };
+    },
+    defaultTemplate: "Poll time! {title} ({choices}). Get your votes in!",
+  },
+  {
+    type: "channel.poll.end",
+    version: "1",
+    scope: "channel:read:polls",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    // Archiving a finished poll sends another channel.poll.end
+    ignore: (e) => e?.status === "archived",
+    describe: (e) => {
+      const choices: any[] = e.choices ?? [];
+      const top = Math.max(0, ...choices.map((c) => c.votes ?? 0));
+      const winners = choices.filter((c) => (c.votes ?? 0) === top && top > 0).map((c) => c.title);
+      return {
+        text: `The poll "${e.title}" ended${e.status === "terminated" ? " early" : ""}. Results: ${formatPollChoices(choices)}.`,
+        vars: { title: e.title ?? "", winner: winners.join(" / ") || "nobody", results: formatPollChoices(choices) },
+      };
+    },
+    defaultTemplate: "The poll is closed! {title} => {winner}. ({results})",
+  },
+  {
+    type: "channel.prediction.begin",
+    version: "1",
+    scope: "channel:read:predictions",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    describe: (e) => {
+      const outcomes = (e.outcomes ?? []).map((o: any) => o.title).join(" / ");
+      return {
+        text: `A prediction started: "${e.title}" (${outcomes}).`,
+        vars: { title: e.title ?? "", outcomes },
+      };
+    },
+    defaultTemplate: "Predictions are open! {title} ({outcomes}). Place your points!",
+  },
+  {
+    type: "channel.prediction.lock",
+    version: "1",
+    scope: "channel:read:predictions",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    describe: (e) => ({
+      text: `Predictions for "${e.title}" are locked. ${formatPredictionOutcomes(e.outcomes ?? [])}.`,
+      vars: { title: e.title ?? "", results: formatPredictionOutcomes(e.outcomes ?? []) },
+    }),
+    defaultTemplate: "Predictions are locked! {title}. ({results})",
+  },
+  {
+    type: "channel.prediction.end",
+    version: "1",
+    scope: "channel:read:predictions",
+    condition: (broadcasterId) => ({ broadcaster_user_id: broadcasterId }),
+    broadcasterOf: byBroadcaster,
+    describe: (e) => {
+      const winner = (e.outcomes ?? []).find((o: any) => o.id === e.winning_outcome_id);
+      const text =
+        e.status === "canceled" || !winner
+          ? `The prediction "${e.title}" was cancelled and the points were refunded.`
+          : `The prediction "${e.title}" was resolved: "${winner.title}" won. ${formatPredictionOutcomes(e.outcomes ?? [])}.`;
+      return {
+        text,
+        vars: {
+          title: e.title ?? "",
+          winner: winner && e.status !== "canceled" ? `'${winner.title}' wins` : "cancelled, points refunded",
+          results: formatPredictionOutcomes(e.outcomes ?? []),
+        },
+      };
+    },
+    defaultTemplate: "Prediction over: {title} => {winner}!",
+  },
+];
+
+function tierName(tier: string | undefined): string {
+  return tier === "2000" ? "2" : tier === "3000" ? "3" : "1";
+}
+
+/* ============================================================================
+   3) Settings
+=========================================================================== */
+export interface ChannelEventSettings {
+  definitions: ChannelEventDefinition[];
+  responseMode: EventResponseMode;
+  templates: Record<string, string>;
+}
+
+export function loadChannelEventSettings(runtime: IAgentRuntime): ChannelEventSettings {
+  const wanted = getListSetting(runtime, "TWITCH_EVENT_SUBSCRIPTIONS");
+  const definitions: ChannelEventDefinition[] = [];
+  for (const type of wanted) {
+    const def = CHANNEL_EVENT_DEFINITIONS.find((d) => d.type === type);
+    if (def) {
+      definitions.push(def);
+    } else {
+      elizaLogger.warn(`[TwitchEvents] Unknown event subscription type "${type}" ignored`);
+    }
+  }
+
+  const mode = getStringSetting(runtime, "TWITCH_EVENT_RESPONSE_MODE", "template").toLowerCase();
+  return {
+    definitions,
+    responseMode: (["template", "llm", "none"].includes(mode) ? mode : "template") as EventResponseMode,
+    templates: getJsonSetting<Record<string, string>>(runtime, "TWITCH_EVENT_TEMPLATES", {}),
+  };
+}
+
+/**
+ * Fills {name} placeholders; unknown placeholders become empty strings.
+ */
+export function renderEventTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => vars[key] ?? "").trim();
+}
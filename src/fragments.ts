@@ -0,0 +1,99 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/fragments.ts
+ *
+ * Chat message fragment parsing
+ *
+ * channel.chat.message events carry a `fragments` array that splits the text
+ * into plain text, emotes, cheermotes and mentions. This module turns it into a
+ * structured message and a cleaned text for the model, where emotes and
+ * cheermotes are marked as such instead of reading like words.
+ */
+
+import { TwitchCheermote, TwitchEmote, TwitchMention, TwitchReplyParent } from "./types";
+
+/* ============================================================================
+   1) Types
+=========================================================================== */
+export interface ParsedChatFragments {
+  /** Original text as typed. */
+  text: string;
+  /** Text for the model: emotes as [emote:Name], cheermotes as [cheer: N bits]. */
+  cleanText: string;
+  emotes: TwitchEmote[];
+  mentions: TwitchMention[];
+  cheermotes: TwitchCheermote[];
+}
+
+/* ============================================================================
+   2) Parsing
+=========================================================================== */
+export function parseChatFragments(message: any): ParsedChatFragments {
+  const text: string = message?.text ?? "";
+  const fragments: any[] = Array.isArray(message?.fragments) ? message.fragments : [];
+  if (fragments.length === 0) {
+    return { text, cleanText: text, emotes: [], mentions: [], cheermotes: [] };
+  }
+
+  const emotes: TwitchEmote[] = [];
+  const mentions: TwitchMention[] = [];
+  const cheermotes: TwitchCheermote[] = [];
+  const clean: string[] = [];
+
+  for (const fragment of fragments) {
+    const fragmentText: string = fragment?.text ?? "";
+    switch (fragment?.type) {
+      case "emote":
+        emotes.push({
+          id: fragment.emote?.id ?? "",
+          name: fragmentText,
+          setId: fragment.emote?.emote_set_id,
+          ownerId: fragment.emote?.owner_id,
+        });
+        clean.push(`[emote:${fragmentText.trim()}]`);
+        break;
+      case "cheermote":
+        cheermotes.push({
+          prefix: fragment.cheermote?.prefix ?? "",
+          bits: Number(fragment.cheermote?.bits ?? 0),
+          tier: Number(fragment.cheermote?.tier ?? 0),
+        });
+        clean.push(`[cheer: ${fragment.cheermote?.bits ?? 0} bits]`);
+        break;
+      case "mention":
+        mentions.push({
+          userId: fragment.mention?.user_id ?? "",
+          userLogin: fragment.mention?.user_login ?? "",
+          userName: fragment.mention?.user_name ?? fragmentText.replace(/^@/, ""),
+        });
+        clean.push(fragmentText);
+        break;
+      default:
+        clean.push(fragmentText);
+    }
+  }
+
+  return {
+    text,
+    cleanText: clean.join("").replace(/\s+/g, " ").trim(),
+    emotes,
+    mentions,
+    cheermotes,
+  };
+}
+
+/**
+ * Reads the `reply` object of a channel.chat.message event.
+ */
+export function parseReplyParent(reply: any): TwitchReplyParent | undefined {
+  if (!reply?.parent_message_id) {
+    return undefined;
+  }
+  return {
+    parentMessageId: reply.parent_message_id,
+    parentMessageBody: reply.parent_message_body ?? "",
+    parentUserId: reply.parent_user_id ?? "",
+    parentUserLogin: reply.parent_user_login ?? "",
+    parentUserName: reply.parent_user_name ?? "",
+    threadMessageId: reply.thread_message_id ?? reply.parent_message_id,
+  };
+}
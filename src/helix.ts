@@ -0,0 +1,370 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/helix.ts
+ *
+ * Helix API client
+ *
+ * Every Twitch API call of the client goes through this module. It handles:
+ *   - Authorization and Client-Id headers from a token source (user or app token)
+ *   - Refreshing the token once after a 401 and retrying the request
+ *   - Waiting for Ratelimit-Reset after a 429 (and before a request, when
+ *     Ratelimit-Remaining reached 0), with a bounded number of retries
+ *   - Turning non-2xx responses into HelixError (status, Twitch's message, reset time)
+ *   - Cursor pagination (paginate / getAll)
+ *   - Typed models for the endpoints the client uses
+ *
+ * Base URLs are configurable so the whole client can run against a local mock
+ * (e.g. `twitch mock-api start` and `twitch event websocket start-server` from the
+ * Twitch CLI).
+ *
+ * Settings:
+ *   TWITCH_HELIX_URL            default https://api.twitch.tv/helix
+ *   TWITCH_AUTH_URL             default https://id.twitch.tv
+ *   TWITCH_EVENTSUB_API_URL     subscriptions API, default <TWITCH_HELIX_URL>/eventsub
+ *   TWITCH_EVENTSUB_WS_URL      default wss://eventsub.wss.twitch.tv/ws
+ */
+
+import fetch, { Headers } from "node-fetch";
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { EVENTSUB_WS_URL } from "./connection";
+import { getStringSetting } from "./settings";
+import { sleep } from "./util";
+
+/* ============================================================================
+   1) Endpoints
+=========================================================================== */
+export interface TwitchEndpoints {
+  helixUrl: string;
+  authUrl: string;
+  eventSubApiUrl: string;
+  eventSubWsUrl: string;
+}
+
+export function loadTwitchEndpoints(runtime: IAgentRuntime): TwitchEndpoints {
+  const trim = (url: string) => url.replace(/\/+$/, "");
+  const helixUrl = trim(getStringSetting(runtime, "TWITCH_HELIX_URL", "https://api.twitch.tv/helix"));
+  return {
+    helixUrl,
+    authUrl: trim(getStringSetting(runtime, "TWITCH_AUTH_URL", "https://id.twitch.tv")),
+    eventSubApiUrl: trim(getStringSetting(runtime, "TWITCH_EVENTSUB_API_URL", `${helixUrl}/eventsub`)),
+    eventSubWsUrl: getStringSetting(runtime, "TWITCH_EVENTSUB_WS_URL", EVENTSUB_WS_URL),
+  };
+}
+
+/* ============================================================================
+   2) Models
+   ----------------------------------------------------------------------------
+   Only the fields the client reads; Twitch returns more.
+=========================================================================== */
+export interface HelixPage<T> {
+  data: T[];
+  pagination?: { cursor?: string };
+  total?: number;
+}
+
+export interface HelixStream {
+  user_id: string;
+  user_login: string;
+  game_name: string;
+  title: string;
+  tags?: string[];
+  viewer_count: number;
+  started_at: string;
+  type: string;
+}
+
+export interface HelixChannel {
+  broadcaster_id: string;
+  broadcaster_login: string;
+  game_name: string;
+  title: string;
+  tags?: string[];
+}
+
+export interface HelixChatMessageResult {
+  message_id?: string;
+  is_sent?: boolean;
+  drop_reason?: { code: string; message: string } | null;
+}
+
+export interface HelixAutoModStatus {
+  msg_id: string;
+  is_permitted: boolean;
+}
+
+export interface HelixPollChoice {
+  id: string;
+  title: string;
+  votes: number;
+  channel_points_votes: number;
+  bits_votes: number;
+}
+
+export interface HelixPoll {
+  id: string;
+  broadcaster_id: string;
+  title: string;
+  choices: HelixPollChoice[];
+  status: "ACTIVE" | "COMPLETED" | "TERMINATED" | "ARCHIVED" | "MODERATED" | "INVALID";
+  duration: number;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface HelixPredictionOutcome {
+  id: string;
+  title: string;
+  users: number;
+  channel_points: number;
+  color: string;
+}
+
+export interface HelixPrediction {
+  id: string;
+  broadcaster_id: string;
+  title: string;
+  winning_outcome_id: string | null;
+  outcomes: HelixPredictionOutcome[];
+  prediction_window: number;
+  status: "ACTIVE" | "LOCKED" | "RESOLVED" | "CANCELED";
+  created_at: string;
+  ended_at: string | null;
+  locked_at: string | null;
+}
+
+/**
+ * Transport part of an EventSub subscription.
+ */
+export type EventSubTransport =
+  | { method: "websocket"; session_id: string }
+  | { method: "webhook"; callback: string; secret: string };
+
+export interface HelixEventSubSubscription {
+  id: string;
+  type: string;
+  version: string;
+  status: string;
+  condition: Record<string, string>;
+  transport: { method: string; session_id?: string; callback?: string };
+}
+
+/* ============================================================================
+   3) Errors & Auth
+=========================================================================== */
+export class HelixError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly endpoint: string,
+    public readonly status: number,
+    public readonly twitchMessage: string,
+    /** Epoch milliseconds from Ratelimit-Reset, if present. */
+    public readonly rateLimitResetAt?: number
+  ) {
+    super(`[Helix] ${method} ${endpoint} => HTTP ${status}${twitchMessage ? `: ${twitchMessage}` : ""}`);
+    this.name = "HelixError";
+  }
+}
+
+/**
+ * Token source of a client (./tokenManager: user token or app token).
+ */
+export interface HelixAuth {
+  readonly clientId: string;
+  getAccessToken(): Promise<string>;
+  /** Gets a new token after a 401; false when that is not possible. */
+  refresh(): Promise<boolean>;
+}
+
+export type HelixQuery = Record<string, string | number | boolean | string[] | undefined>;
+
+export interface HelixRequestOptions {
+  query?: HelixQuery;
+  body?: unknown;
+  /** Retries after a 429, each waiting for Ratelimit-Reset; default 2. */
+  rateLimitRetries?: number;
+}
+
+export interface HelixResponse<T> {
+  status: number;
+  /** Parsed JSON body; undefined for empty (204) responses. */
+  data: T;
+}
+
+export interface HelixRateLimit {
+  limit?: number;
+  remaining?: number;
+  /** Epoch milliseconds. */
+  resetAt?: number;
+}
+
+const DEFAULT_RATE_LIMIT_RETRIES = 2;
+const MAX_RATE_LIMIT_WAIT_MS = 60000;
+
+/* ============================================================================
+   4) HelixClient Class
+   ----------------------------------------------------------------------------
+   One client per token: Twitch keeps a separate rate-limit bucket per token.
+=========================================================================== */
+export class HelixClient {
+  private bucket: HelixRateLimit = {};
+
+  /**
+   * The token source is resolved per request, so the client can be created before
+   * the token manager is initialized.
+   */
+  constructor(
+    private auth: () => HelixAuth,
+    private baseUrl: string
+  ) {}
+
+  public get rateLimit(): HelixRateLimit {
+    return { ...this.bucket };
+  }
+
+  public async get<T>(path: string, query?: HelixQuery): Promise<T> {
+    return (await this.request<T>("GET", path, { query })).data;
+  }
+
+  public async post<T = void>(path: string, body?: unknown, query?: HelixQuery): Promise<T> {
+    return (await this.request<T>("POST", path, { query, body })).data;
+  }
+
+  public async put<T = void>(path: string, body?: unknown, query?: HelixQuery): Promise<T> {
+    return (await this.request<T>("PUT", path, { query, body })).data;
+  }
+
+  public async patch<T = void>(path: string, body?: unknown, query?: HelixQuery): Promise<T> {
+    return (await this.request<T>("PATCH", path, { query, body })).data;
+  }
+
+  public async delete(path: string, query?: HelixQuery): Promise<void> {
+    await this.request<void>("DELETE", path, { query });
+  }
+
+  /**
+   * Iterates over every item of a paginated endpoint, following pagination.cursor.
+   */
+  public async *paginate<T>(path: string, query: HelixQuery = {}): AsyncGenerator<T> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.get<HelixPage<T>>(path, { ...query, after: cursor });
+      for (const item of page?.data ?? []) {
+        yield item;
+      }
+      cursor = page?.data?.length ? page.pagination?.cursor : undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Collects the items of a paginated endpoint, up to maxItems.
+   */
+  public async getAll<T>(path: string, query: HelixQuery = {}, maxItems = Infinity): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.paginate<T>(path, query)) {
+      items.push(item);
+      if (items.length >= maxItems) {
+        break;
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Sends a request. Paths are relative to the Helix base URL; absolute URLs are used
+   * as they are (EventSub subscriptions API). Throws HelixError for non-2xx responses.
+   */
+  public async request<T>(method: string, path: string, options: HelixRequestOptions = {}): Promise<HelixResponse<T>> {
+    const url = this.buildUrl(path, options.query);
+    const endpoint = url.split("?")[0];
+    let rateLimitRetries = options.rateLimitRetries ?? DEFAULT_RATE_LIMIT_RETRIES;
+    let refreshed = false;
+
+    for (;;) {
+      await this.waitForBucket();
+      const auth = this.auth();
+      const headers = new Headers({
+        Authorization: `Bearer ${await auth.getAccessToken()}`,
+        "Client-Id": auth.clientId,
+      });
+      if (options.body !== undefined) {
+        headers.set("Content-Type", "application/json");
+      }
+      const res = await fetch(url, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+      this.updateBucket(res.headers);
+
+      if (res.status === 401 && !refreshed) {
+        refreshed = true;
+        elizaLogger.warn(`[Helix] 401 from ${endpoint} => refreshing token and retrying`);
+        if (await auth.refresh()) {
+          continue;
+        }
+      }
+      if (res.status === 429 && rateLimitRetries > 0) {
+        rateLimitRetries--;
+        const waitMs = Math.min(MAX_RATE_LIMIT_WAIT_MS, Math.max(1000, (this.bucket.resetAt ?? 0) - Date.now()));
+        elizaLogger.warn(`[Helix] 429 from ${endpoint} => retrying in ${waitMs}ms`);
+        await sleep(waitMs);
+        continue;
+      }
+
+      const text = await res.text();
+      if (!res.ok) {
+        const message = parseJson<{ message?: string }>(text)?.message ?? text;
+        throw new HelixError(method, endpoint, res.status, message, this.bucket.resetAt);
+      }
+      return { status: res.status, data: parseJson<T>(text) as T };
+    }
+  }
+
+  private buildUrl(path: string, query: HelixQuery = {}): string {
+    const url = new URL(/^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(query)) {
+      for (const v of Array.isArray(value) ? value : [value]) {
+        if (v !== undefined) {
+          url.searchParams.append(key, String(v));
+        }
+      }
+    }
+    return url.toString();
+  }
+
+  private updateBucket(headers: Headers): void {
+    const num = (name: string) => {
+      const value = Number(headers.get(name) ?? NaN);
+      return Number.isFinite(value) ? value : undefined;
+    };
+    const reset = num("Ratelimit-Reset");
+    this.bucket = {
+      limit: num("Ratelimit-Limit") ?? this.bucket.limit,
+      remaining: num("Ratelimit-Remaining") ?? this.bucket.remaining,
+      resetAt: reset !== undefined ? reset * 1000 : this.bucket.resetAt,
+    };
+  }
+
+  /**
+   * Waits for the bucket to refill when the last response reported no requests left.
+   */
+  private async waitForBucket(): Promise<void> {
+    const { remaining, resetAt } = this.bucket;
+    if (remaining === undefined || remaining > 0 || !resetAt || resetAt <= Date.now()) {
+      return;
+    }
+    const waitMs = Math.min(MAX_RATE_LIMIT_WAIT_MS, resetAt - Date.now());
+    elizaLogger.warn(`[Helix] Rate limit bucket empty => waiting ${waitMs}ms`);
+    await sleep(waitMs);
+  }
+}
+
+function parseJson<T>(text: string): T | undefined {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return undefined;
+  }
+}
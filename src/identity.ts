@@ -0,0 +1,187 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/identity.ts
+ *
+ * Chatter identity
+ *
+ * Registers Twitch chatters with Eliza's account, participant and room records so
+ * recent messages, relationships and facts refer to real names instead of UUIDs.
+ * This module handles:
+ *   - One Eliza user id per Twitch user id, shared by every channel the bot is in
+ *   - Accounts with login (username), display name (name) and Twitch metadata
+ *     (user id, colour, badges per channel) in the account details
+ *   - Current display names for the actors of a composed state (withCurrentNames)
+ *   - Connecting the chatter (and the agent) to the channel room
+ *
+ * Known profiles are kept in memory and in the runtime cache, so an unchanged
+ * chatter costs no database calls after the first message.
+ *
+ * The database adapter has no way to update an account, so the stored account keeps
+ * the names it was created with. The client applies the current display name when it
+ * composes a state instead, which is where the model sees it.
+ */
+
+import { Account, Actor, elizaLogger, IAgentRuntime, stringToUuid, UUID } from "@elizaos/core";
+
+/* ============================================================================
+   1) Types & Helpers
+=========================================================================== */
+export interface ChatterIdentity {
+  twitchUserId: string;
+  login: string;
+  displayName: string;
+  /** Badge set ids in the channel the chatter was seen in. */
+  badges?: string[];
+  color?: string;
+}
+
+interface ChatterProfile {
+  login: string;
+  displayName: string;
+  color?: string;
+  /** Badge set ids per broadcaster id. */
+  badges: Record<string, string[]>;
+  /** Room ids the chatter was connected to. */
+  rooms: string[];
+}
+
+/**
+ * Eliza user id of a Twitch user; the same in every channel.
+ */
+export function chatterUserId(twitchUserId: string): UUID {
+  return stringToUuid(twitchUserId);
+}
+
+/* ============================================================================
+   2) ChatterDirectory Class
+=========================================================================== */
+export class ChatterDirectory {
+  private profiles = new Map<string, ChatterProfile>();
+  /** Profiles by Eliza user id, for withCurrentNames. */
+  private byUserId = new Map<string, ChatterProfile>();
+  private agentRooms = new Set<string>();
+
+  constructor(private runtime: IAgentRuntime) {}
+
+  private cacheKey(twitchUserId: string): string {
+    return `twitch/chatters/${this.runtime.agentId}/${twitchUserId}`;
+  }
+
+  /**
+   * Makes sure the chatter has an account, is a participant of the room and that the
+   * stored profile is current. Returns the chatter's Eliza user id.
+   */
+  public async ensureChatter(identity: ChatterIdentity, broadcasterId: string, roomId: UUID): Promise<UUID> {
+    const userId = chatterUserId(identity.twitchUserId);
+    await this.ensureAgentInRoom(roomId);
+
+    const known =
+      this.profiles.get(identity.twitchUserId) ??
+      (await this.runtime.cacheManager.get<ChatterProfile>(this.cacheKey(identity.twitchUserId)).catch(() => undefined));
+    const profile: ChatterProfile = {
+      login: identity.login,
+      displayName: identity.displayName,
+      color: identity.color ?? known?.color,
+      badges: { ...known?.badges, ...(identity.badges ? { [broadcasterId]: identity.badges } : {}) },
+      rooms: known?.rooms ?? [],
+    };
+
+    const changed =
+      !known ||
+      known.login !== profile.login ||
+      known.displayName !== profile.displayName ||
+      known.color !== profile.color ||
+      JSON.stringify(known.badges[broadcasterId] ?? []) !== JSON.stringify(profile.badges[broadcasterId] ?? []);
+    const newRoom = !profile.rooms.includes(roomId);
+    if (!changed && !newRoom) {
+      this.byUserId.set(userId, profile);
+      return userId;
+    }
+
+    if (changed) {
+      await this.ensureAccount(userId, identity.twitchUserId, profile, known);
+    }
+    if (newRoom) {
+      await this.runtime.ensureConnection(userId, roomId, profile.login, profile.displayName, "twitch");
+      profile.rooms = [...profile.rooms, roomId];
+    }
+
+    this.profiles.set(identity.twitchUserId, profile);
+    this.byUserId.set(userId, profile);
+    await this.runtime.cacheManager.set(this.cacheKey(identity.twitchUserId), profile).catch((err) => {
+      elizaLogger.warn(`[TwitchIdentity] Could not cache profile of ${profile.login} =>`, err);
+    });
+    return userId;
+  }
+
+  /**
+   * Badge set ids per broadcaster id the chatter was last seen with.
+   */
+  public async getBadges(twitchUserId: string): Promise<Record<string, string[]>> {
+    const profile =
+      this.profiles.get(twitchUserId) ??
+      (await this.runtime.cacheManager.get<ChatterProfile>(this.cacheKey(twitchUserId)).catch(() => undefined));
+    return profile?.badges ?? {};
+  }
+
+  /**
+   * The actors with the display name and login their chatters were last seen with;
+   * returns the same array when nothing changed.
+   */
+  public withCurrentNames(actors: Actor[]): Actor[] {
+    let changed = false;
+    const current = actors.map((actor) => {
+      const profile = this.byUserId.get(actor.id);
+      if (!profile || (actor.name === profile.displayName && actor.username === profile.login)) {
+        return actor;
+      }
+      changed = true;
+      return { ...actor, name: profile.displayName, username: profile.login };
+    });
+    return changed ? current : actors;
+  }
+
+  private async ensureAgentInRoom(roomId: UUID): Promise<void> {
+    if (this.agentRooms.has(roomId)) {
+      return;
+    }
+    await this.runtime.ensureRoomExists(roomId);
+    await this.runtime.ensureParticipantInRoom(this.runtime.agentId, roomId);
+    this.agentRooms.add(roomId);
+  }
+
+  /**
+   * Creates the account of a new chatter. Existing accounts cannot be updated (see the
+   * module comment); their changes only go to the profile.
+   */
+  private async ensureAccount(
+    userId: UUID,
+    twitchUserId: string,
+    profile: ChatterProfile,
+    known: ChatterProfile | undefined
+  ): Promise<void> {
+    const account: Account = {
+      id: userId,
+      name: profile.displayName,
+      username: profile.login,
+      details: {
+        source: "twitch",
+        twitchUserId,
+        twitchLogin: profile.login,
+        twitchColor: profile.color,
+        twitchBadges: profile.badges,
+      },
+    };
+
+    const adapter = this.runtime.databaseAdapter;
+    const existing = await adapter.getAccountById(userId);
+    if (!existing) {
+      await adapter.createAccount(account);
+      elizaLogger.info(`[TwitchIdentity] Registered chatter ${profile.displayName} (${profile.login}, ${twitchUserId})`);
+      return;
+    }
+
+    if (known && known.displayName !== profile.displayName) {
+      elizaLogger.info(`[TwitchIdentity] Display name changed => ${known.displayName} -> ${profile.displayName}`);
+    }
+  }
+}
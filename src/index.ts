@@ -4,23 +4,62 @@
  * Twitch plugin for ElizaOS
  *
  * This plugin handles:
- *   - Refreshing the Twitch OAuth token (using secrets from the character file)
+ *   - Managing the Twitch OAuth token lifecycle (validate, scheduled refresh, 401 retry,
+ *     pluggable token store; see ./tokenManager)
  *   - Validating Twitch credentials using Zod
+ *   - Calling Twitch through one typed Helix client (token refresh on 401, rate limits,
+ *     pagination, configurable base URLs for local mocks; ./helix)
  *   - Selecting the LLM model dynamically (using runtime settings)
  *   - Opening a WebSocket connection to Twitch EventSub and subscribing to channel.chat.message
- *   - Receiving notifications (filtering out messages from the bot)
- *   - Creating a user message memory and composing the conversation state once
- *   - Generating a final response by instructing the model to produce valid JSON output
- *   - Marking the user message as processed so it is removed from the context
+ *     for every configured channel (see ./channels)
+ *     (reconnects, keepalive watchdog and resubscribe are handled in ./connection), or
+ *     alternatively receiving EventSub through a signed webhook endpoint (./webhook)
+ *   - Subscribing to optional channel events (follows, subs, gifts, cheers, raids, redemptions;
+ *     ./events), storing them as memories and thanking viewers via template or LLM
+ *   - Dispatching notifications by subscription type
+ *   - Polling stream info (title, category, tags, uptime, viewers, live state) and exposing it
+ *     to composeState through a provider (./streamContext, ./providers)
+ *   - Tracking stream.online / stream.offline: live-only or reduced offline replies, and a
+ *     recap of each stream stored as a long-term memory (./streamLifecycle)
+ *   - Posting scheduled, idle-chat and announcement messages (./scheduler) through the same
+ *     send path as replies
+ *   - Receiving chat notifications (filtering out messages from the bot) and parsing their
+ *     fragments (emotes, mentions, cheermotes) and reply-parent fields (./fragments)
+ *   - Filtering inbound chat (ignored users, blocklists, prompt-injection quoting/refusal) and
+ *     outbound replies (blocked terms, optional AutoMod check; ./safety)
+ *   - Routing !commands before the LLM, with badge-based permissions (./commands)
+ *   - Registering optional moderation actions (timeout, ban, delete, clear, shield mode)
+ *     with a mod !confirm flow for non-autonomous actions (./moderation, ./actions)
+ *   - Optional poll and prediction actions and mod commands in the bot's own channel, with
+ *     Twitch's limits checked up front and results announced from channel.poll.* /
+ *     channel.prediction.* events (./polls, ./actions)
+ *   - Deciding whether to reply (mentions, triggers, cooldowns, probability; ./replyDecision)
+ *   - Registering chatters with Eliza accounts, participants and rooms (login, display name,
+ *     badges, colour; one identity across channels; ./identity)
+ *   - Answering whispers in a private room per partner, with their own access rules, persona
+ *     instruction and whisper rate limits (./whispers)
+ *   - Creating a user message memory for every chat line
+ *   - Generating replies through a bounded pipeline (concurrency, queue length, staleness,
+ *     optional digest mode; ./pipeline)
+ *   - Composing the conversation state once per reply
+ *   - Rendering twitchMessageHandlerTemplate (./templates) with the composed state and
+ *     generating a final response as valid JSON output
+ *   - Sanitizing the model output for chat (reasoning blocks, broken JSON, markdown, leading
+ *     command characters, length; ./sanitizer), retrying on empty or garbage output
+ *   - Deduplicating chat by Twitch message_id across restarts (runtime cache) and storing a
+ *     "processed" marker on answered messages (./processedMessages); the answered message
+ *     is removed from the context
  *   - Processing post-actions and evaluation
- *   - Sending the final reply to Twitch via the Helix Chat API (with required sender_id)
+ *   - Sending the final reply to Twitch via the Helix Chat API (with required sender_id),
+ *     through a rate-limited, chunking send queue (./sendQueue), as a threaded reply
+ *   - An offline simulator (replay file, stdin or a fake EventSub server, with a transcript
+ *     instead of Helix) and recording live sessions in the same replay format (./simulator)
+ *   - Counting received, filtered, skipped and replied messages, LLM latency and timeouts, and
+ *     send failures by drop_reason (./metrics), and an optional local endpoint with health,
+ *     Prometheus metrics and admin operations: pause / resume replies, reconnect, resubscribe
+ *     (./admin)
  */
 
-import WebSocket from "ws";
-import fetch, { Headers } from "node-fetch";
-import JSON5 from "json5";
-import fs from "fs/promises";
-import path from "path";
 import { z } from "zod";
 import {
   elizaLogger,
@@ -32,119 +71,154 @@ import {
   ModelClass,
   Memory,
   Content,
+  UUID,
   Client,
   ClientInstance,
+  Provider,
+  TemplateType,
+  State,
+  formatActors,
+  formatMessages,
 } from "@elizaos/core";
+import { EventSubConnection } from "./connection";
+import {
+  EventSubTransport,
+  HelixChatMessageResult,
+  HelixClient,
+  HelixError,
+  HelixEventSubSubscription,
+  HelixPage,
+  HelixResponse,
+  TwitchEndpoints,
+  loadTwitchEndpoints,
+} from "./helix";
+import {
+  EventSubWebhookServer,
+  WEBHOOK_SCOPES,
+  WebhookSettings,
+  assertWebhookSettings,
+  loadWebhookSettings,
+  removeWebhookSubscriptions,
+} from "./webhook";
+import { AnnouncementColor, ChatSendOptions, ChatSendResult, TwitchSendQueue } from "./sendQueue";
+import {
+  FakeEventSubServer,
+  ReplaySource,
+  ReplayWriter,
+  SimulatorSettings,
+  TranscriptHelixClient,
+  loadSimulatorSettings,
+} from "./simulator";
+import { getBooleanSetting, getStringSetting } from "./settings";
+import { TwitchChannelConfig, channelRoomKey, loadChannelConfigs } from "./channels";
+import { TwitchAppToken, TwitchTokenManager, redactSecret } from "./tokenManager";
+import {
+  getTwitchTemplate,
+  twitchDigestTemplate,
+  twitchEventTemplate,
+  twitchMessageHandlerTemplate,
+  twitchProactiveTemplate,
+  twitchStreamSummaryTemplate,
+  twitchWhisperTemplate,
+} from "./templates";
+import { TwitchChatMessage } from "./types";
+import { parseChatFragments, parseReplyParent } from "./fragments";
+import { PipelineJob, ReplyPipeline, loadPipelineOptions } from "./pipeline";
+import { SanitizerOptions, loadSanitizerOptions, sanitizeChatReply } from "./sanitizer";
+import { AUTOMOD_SCOPES, TwitchSafetyFilter, loadSafetySettings } from "./safety";
+import { StreamContextService, describeStream, formatUptime, loadStreamContextOptions } from "./streamContext";
+import { createStreamContextProvider } from "./providers/streamContext";
+import { ChatterDirectory } from "./identity";
+import {
+  TwitchWhispers,
+  WHISPER_SCOPES,
+  WhisperSettings,
+  loadWhisperSettings,
+  parseWhisper,
+  whisperRoomKey,
+} from "./whispers";
+import {
+  ProcessedMessageStore,
+  chatMemoryId,
+  eventMemoryId,
+  isMemoryProcessed,
+  replyMemoryId,
+} from "./processedMessages";
+import { ANNOUNCEMENT_SCOPES, SchedulerSettings, TwitchScheduler, loadSchedulerSettings } from "./scheduler";
+import {
+  OFFLINE_REPLY_STYLE,
+  STREAM_LIFECYCLE_TYPES,
+  StreamLifecycleSettings,
+  applyLiveMode,
+  collectSessionChat,
+  loadStreamLifecycleSettings,
+  storeStreamSummary,
+} from "./streamLifecycle";
+import { ReplyDecision, ReplyDecisionEngine } from "./replyDecision";
+import { CommandRouter, createBuiltinCommands, loadCustomCommands, parseDuration } from "./commands";
+import { MODERATION_SCOPES, TwitchModeration } from "./moderation";
+import { createModerationActions } from "./actions/moderation";
+import { POLL_EVENT_TYPES, POLL_SCOPES, PollSettings, TwitchPolls, loadPollSettings } from "./polls";
+import { createPollActions } from "./actions/polls";
+import { TwitchMetrics, metricReason } from "./metrics";
+import {
+  AdminOperation,
+  AdminResult,
+  AdminSettings,
+  HealthStatus,
+  TwitchAdminServer,
+  TwitchHealth,
+  loadAdminSettings,
+} from "./admin";
+import {
+  CHANNEL_EVENT_DEFINITIONS,
+  ChannelEventDefinition,
+  ChannelEventSettings,
+  DescribedChannelEvent,
+  loadChannelEventSettings,
+  renderEventTemplate,
+} from "./events";
 
 /* ============================================================================
    1) Twitch Configuration Validation
    ----------------------------------------------------------------------------
    We validate essential Twitch credentials using Zod.
 =========================================================================== */
+const RECENT_CHAT_LINES = 15;
+
+interface ReplyJob extends PipelineJob {
+  channel: TwitchChannelConfig;
+  msg: TwitchChatMessage;
+  decision: ReplyDecision;
+  userMsg: Memory;
+}
+
 const twitchEnvSchema = z.object({
   TWITCH_BOT_USER_ID: z.string().min(1),
   TWITCH_BOT_USERNAME: z.string().min(1),
   TWITCH_OAUTH_TOKEN: z.string().min(1),
   TWITCH_CLIENT_ID: z.string().min(1),
-  TWITCH_CHANNEL_USER_ID: z.string().min(1),
+  // Optional when TWITCH_CHANNELS is set; see ./channels for the channel list.
+  TWITCH_CHANNEL_USER_ID: z.string(),
 });
 type TwitchConfig = z.infer<typeof twitchEnvSchema>;
 
 async function validateTwitchConfig(runtime: IAgentRuntime): Promise<TwitchConfig> {
+  // The simulator needs no credentials, only the bot's identity and the channels
+  const offline = getBooleanSetting(runtime, "TWITCH_SIMULATOR", false) ? "simulator" : "";
   const cfg = {
     TWITCH_BOT_USER_ID: (runtime.getSetting("TWITCH_BOT_USER_ID") || "") as string,
     TWITCH_BOT_USERNAME: (runtime.getSetting("TWITCH_BOT_USERNAME") || "") as string,
-    TWITCH_OAUTH_TOKEN: (runtime.getSetting("TWITCH_OAUTH_TOKEN") || "") as string,
-    TWITCH_CLIENT_ID: (runtime.getSetting("TWITCH_CLIENT_ID") || "") as string,
+    TWITCH_OAUTH_TOKEN: (runtime.getSetting("TWITCH_OAUTH_TOKEN") || offline) as string,
+    TWITCH_CLIENT_ID: (runtime.getSetting("TWITCH_CLIENT_ID") || offline) as string,
     TWITCH_CHANNEL_USER_ID: (runtime.getSetting("TWITCH_CHANNEL_USER_ID") || "") as string,
   };
-  elizaLogger.debug("[Twitch] validateTwitchConfig =>", cfg);
+  elizaLogger.debug("[Twitch] validateTwitchConfig =>", { ...cfg, TWITCH_OAUTH_TOKEN: redactSecret(cfg.TWITCH_OAUTH_TOKEN) });
   return twitchEnvSchema.parse(cfg);
 }
 
 /* ============================================================================
-   2) Twitch OAuth Token Refresh
-   ----------------------------------------------------------------------------
-   Refreshes the OAuth token using credentials stored in the character file.
-=========================================================================== */
-interface ExtendedCharacterSettings {
-  secrets?: {
-    TWITCH_CLIENT_ID?: string;
-    TWITCH_CLIENT_SECRET?: string;
-    TWITCH_REFRESH_TOKEN?: string;
-    TWITCH_OAUTH_TOKEN?: string;
-    TWITCH_CHANNEL_USER_ID?: string;
-    TWITCH_BOT_USER_ID?: string;
-  };
-}
-interface TwitchRefreshResponse {
-  access_token?: string;
-  refresh_token?: string;
-  expires_in?: number;
-}
-
-async function refreshTwitchToken(runtime: IAgentRuntime): Promise<boolean> {
-  try {
-    const extCharacter = runtime.character as ExtendedCharacterSettings & { filePath?: string };
-    const characterFilePath = extCharacter.filePath
-      ? extCharacter.filePath
-      : path.join(process.cwd(), "..", "characters", `${runtime.character.name}.character.json`);
-
-    elizaLogger.debug("[Twitch] refreshTwitchToken: Loading character file from", characterFilePath);
-    const raw = await fs.readFile(characterFilePath, "utf8");
-    const config = JSON5.parse(raw);
-    const settings: ExtendedCharacterSettings = config.settings || {};
-
-    if (!settings.secrets) {
-      elizaLogger.warn("[Twitch] refreshTwitchToken: No 'settings.secrets' found. Skipping token refresh.");
-      return false;
-    }
-
-    const secrets = settings.secrets;
-    const clientId = secrets.TWITCH_CLIENT_ID || "";
-    const clientSecret = secrets.TWITCH_CLIENT_SECRET || "";
-    const refreshTk = secrets.TWITCH_REFRESH_TOKEN || "";
-
-    if (!clientId || !clientSecret || !refreshTk) {
-      elizaLogger.warn("[Twitch] refreshTwitchToken: Missing clientId/clientSecret/refreshToken. Skipping refresh.");
-      return false;
-    }
-
-    elizaLogger.info(`[Twitch] Refreshing token with clientId=${clientId}`);
-
-    const bodyParams = new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      grant_type: "refresh_token",
-      refresh_token: refreshTk,
-    });
-
-    const res = await fetch("https://id.twitch.tv/oauth2/token", {
-      method: "POST",
-      headers: new Headers({ "Content-Type": "application/x-www-form-urlencoded" }),
-      body: bodyParams,
-    });
-
-    const json = (await res.json().catch(() => ({}))) as TwitchRefreshResponse;
-    if (!res.ok || !json.access_token || !json.refresh_token) {
-      elizaLogger.error("[Twitch] Token refresh failed. Response:", json);
-      return false;
-    }
-
-    elizaLogger.info(`[Twitch] Token refreshed successfully. New access_token=${json.access_token}`);
-    settings.secrets.TWITCH_OAUTH_TOKEN = json.access_token;
-    settings.secrets.TWITCH_REFRESH_TOKEN = json.refresh_token;
-
-    await fs.writeFile(characterFilePath, JSON.stringify(config, null, 2), "utf8");
-    return true;
-  } catch (err) {
-    elizaLogger.error("[Twitch] refreshTwitchToken error:", err);
-    return false;
-  }
-}
-
-/* ============================================================================
-   3) Dynamic Model Selection
+   2) Dynamic Model Selection
    ----------------------------------------------------------------------------
    Returns the selected model from runtime settings, defaulting to "deepseek-r1:14b".
 =========================================================================== */
@@ -157,14 +231,15 @@ function getSelectedModel(runtime: IAgentRuntime): string {
 }
 
 /* ============================================================================
-   4) Generate Response with Logs and 120s Timeout
+   3) Generate Response with Logs and 120s Timeout
    ----------------------------------------------------------------------------
    Wraps generateMessageResponse with detailed logging and a timeout.
 =========================================================================== */
 async function generateResponseWithLogs(
   runtime: IAgentRuntime,
   prompt: string,
-  memory: Memory
+  memory: Memory,
+  metrics?: TwitchMetrics
 ): Promise<Content> {
   elizaLogger.debug("[Twitch] LLM prompt (truncated):", prompt.slice(0, 600) + (prompt.length > 600 ? "..." : ""));
   elizaLogger.debug("[Twitch] Memory info =>", {
@@ -191,6 +266,7 @@ async function generateResponseWithLogs(
     model: string;
   }) => Promise<Content>;
 
+  const startedAt = Date.now();
   const responsePromise = genMsgResponse({
     runtime,
     context: prompt,
@@ -198,42 +274,165 @@ async function generateResponseWithLogs(
     model: selectedModel,
   });
 
-  const timeoutPromise = new Promise<Content>((_, reject) =>
-    setTimeout(() => reject(new Error(`LLM response timed out after ${TIMEOUT_MS}ms`)), TIMEOUT_MS)
-  );
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<Content>((_, reject) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      reject(new Error(`LLM response timed out after ${TIMEOUT_MS}ms`));
+    }, TIMEOUT_MS);
+  });
 
   let result: Content;
   try {
     result = await Promise.race([responsePromise, timeoutPromise]);
   } catch (err) {
     elizaLogger.error("[Twitch] generateResponseWithLogs => Timeout or error =>", err);
+    metrics?.observeLlm(Date.now() - startedAt, timedOut ? "timeout" : "error");
     return { text: "", source: "twitch" };
+  } finally {
+    clearTimeout(timer);
   }
 
   if (!result) {
     elizaLogger.error("[Twitch] LLM returned null or undefined");
+    metrics?.observeLlm(Date.now() - startedAt, "empty");
     return { text: "", source: "twitch" };
   }
+  metrics?.observeLlm(Date.now() - startedAt, result.text ? "ok" : "empty");
 
   elizaLogger.info("[Twitch] LLM output text =>", result.text);
   elizaLogger.debug("[Twitch] Full LLM response =>", result);
   return result;
 }
 
+/**
+ * Generates a reply and sanitizes its text for chat (./sanitizer). Empty or garbage
+ * output is retried; if every attempt fails the returned text is empty.
+ */
+async function generateChatReply(
+  runtime: IAgentRuntime,
+  prompt: string,
+  memory: Memory,
+  options: SanitizerOptions,
+  metrics?: TwitchMetrics
+): Promise<Content> {
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    const result = await generateResponseWithLogs(runtime, prompt, memory, metrics);
+    const text = sanitizeChatReply(result.text, options.maxLength);
+    if (text) {
+      if (text !== result.text) {
+        elizaLogger.debug("[Twitch] Sanitized LLM output =>", text);
+      }
+      return { ...result, text };
+    }
+    elizaLogger.warn(`[Twitch] LLM output empty or unusable (attempt ${attempt + 1}/${options.retries + 1})`, {
+      raw: (result.text ?? "").slice(0, 200),
+    });
+  }
+  return { text: "", source: "twitch" };
+}
+
 /* ============================================================================
-   5) Twitch Client Class
+   4) Twitch Client Class
    ----------------------------------------------------------------------------
    Manages the Twitch connection via WebSocket, processes notifications, composes prompts,
    calls the LLM, marks messages as processed, and sends final replies via Twitch Helix Chat API.
 =========================================================================== */
 class TwitchClient {
   private runtime: IAgentRuntime;
-  private ws: WebSocket | null = null;
-  private sessionId: string | null = null;
-  private lastProcessedMessageIds = new Set<string>();
+  private connection: EventSubConnection | null = null;
+  private webhookSettings: WebhookSettings;
+  private webhook: EventSubWebhookServer | null = null;
+  private endpoints: TwitchEndpoints;
+  /** Helix with the bot's user token. */
+  private helix: HelixClient;
+  /** Helix with the app token (webhook subscriptions only). */
+  private appHelix: HelixClient | null = null;
+  private simulator: SimulatorSettings;
+  /** Simulator transcript, or the live session recording (TWITCH_RECORD_FILE). */
+  private recorder: ReplayWriter | null = null;
+  private replay: ReplaySource | null = null;
+  private fakeEventSub: FakeEventSubServer | null = null;
+  private activeSubscriptions = new Map<string, string>();
+  private channels = new Map<string, TwitchChannelConfig>();
+  private eventSettings: ChannelEventSettings;
+  private tokens: TwitchTokenManager | null = null;
+  private replyDecision: ReplyDecisionEngine | null = null;
+  private safety: TwitchSafetyFilter | null = null;
+  private commands: CommandRouter;
+  private mutedUntil = new Map<string, number>();
+  private channelStats = new Map<string, { received: number; replied: number }>();
+  private startedAt = Date.now();
+  private threadedReplies: boolean;
+  private pipeline: ReplyPipeline<ReplyJob>;
+  private sanitizer: SanitizerOptions;
+  private streams: StreamContextService;
+  private streamProvider: Provider;
+  private lifecycle: StreamLifecycleSettings;
+  /** Start time of the current stream per channel, from stream.online or the stream poll. */
+  private streamStartedAt = new Map<string, number>();
+  private schedulerSettings: SchedulerSettings;
+  private scheduler: TwitchScheduler | null = null;
+  /** Time of the last viewer chat message per channel (for idle chat). */
+  private lastChatAt = new Map<string, number>();
+  private sendQueue: TwitchSendQueue;
+  private processed: ProcessedMessageStore;
+  private chatters: ChatterDirectory;
+  private whisperSettings: WhisperSettings;
+  private whispers: TwitchWhispers | null = null;
+  private pollSettings: PollSettings;
+  private polls: TwitchPolls | null = null;
+  private metrics = new TwitchMetrics();
+  private adminSettings: AdminSettings;
+  private admin: TwitchAdminServer | null = null;
+  /** Set through the admin endpoint: no replies anywhere until resumed. */
+  private paused = false;
 
   constructor(runtime: IAgentRuntime) {
     this.runtime = runtime;
+    this.endpoints = loadTwitchEndpoints(runtime);
+    this.simulator = loadSimulatorSettings(runtime);
+    if (this.simulator.enabled) {
+      this.recorder = new ReplayWriter(this.simulator.transcriptFile);
+      this.helix = new TranscriptHelixClient(this.recorder);
+    } else {
+      const recordFile = getStringSetting(runtime, "TWITCH_RECORD_FILE", "");
+      this.recorder = recordFile ? new ReplayWriter(recordFile) : null;
+      this.helix = new HelixClient(() => this.auth, this.endpoints.helixUrl);
+    }
+    this.sendQueue = new TwitchSendQueue(
+      (broadcasterId, text, options) =>
+        options.announcementColor
+          ? this.postAnnouncement(broadcasterId, text, options.announcementColor)
+          : this.postChatMessage(broadcasterId, text, options.replyParentMessageId),
+      { isModerator: getBooleanSetting(runtime, "TWITCH_BOT_IS_MODERATOR", false) }
+    );
+    this.threadedReplies = getBooleanSetting(runtime, "TWITCH_THREADED_REPLIES", true);
+    this.processed = new ProcessedMessageStore(runtime);
+    this.chatters = new ChatterDirectory(runtime);
+    this.whisperSettings = loadWhisperSettings(runtime);
+    this.webhookSettings = loadWebhookSettings(runtime);
+    this.sanitizer = loadSanitizerOptions(runtime);
+    this.streams = new StreamContextService(
+      this.helix,
+      loadStreamContextOptions(runtime)
+    );
+    this.streamProvider = createStreamContextProvider(this.streams);
+    this.lifecycle = loadStreamLifecycleSettings(runtime);
+    this.schedulerSettings = loadSchedulerSettings(runtime);
+    this.pipeline = new ReplyPipeline<ReplyJob>(loadPipelineOptions(runtime), {
+      process: (job) => this.onUserMessage(job.channel, job.msg, job.decision, job.userMsg),
+      processDigest: (jobs) => this.onDigest(jobs),
+      onDrop: (job, reason) => this.onReplyDropped(job, reason),
+    });
+    this.eventSettings = loadChannelEventSettings(runtime);
+    this.pollSettings = loadPollSettings(runtime);
+    this.adminSettings = loadAdminSettings(runtime);
+    this.commands = new CommandRouter(runtime);
+    for (const command of [...this.createBuiltinCommands(), ...loadCustomCommands(runtime)]) {
+      this.commands.register(command);
+    }
     elizaLogger.debug("[TwitchClient] Constructor: loaded runtime");
   }
 
@@ -242,48 +441,228 @@ class TwitchClient {
   }
 
   /**
-   * Starts the Twitch client: refreshes token, validates config and token, opens WebSocket,
-   * and subscribes to channel.chat.message events.
+   * Starts the Twitch client: validates config, initializes the token manager, opens the
+   * EventSub connection, and subscribes to channel.chat.message on every new session
+   * (or once, through the webhook endpoint, with TWITCH_EVENTSUB_TRANSPORT=webhook).
    */
   public async start(): Promise<TwitchClient> {
     elizaLogger.info("[TwitchClient] Starting client...");
 
-    await refreshTwitchToken(this.runtime);
     const cfg = await validateTwitchConfig(this.runtime);
-    await this.validateToken(cfg.TWITCH_OAUTH_TOKEN);
-
-    this.ws = new WebSocket("wss://eventsub.wss.twitch.tv/ws");
+    try {
+      await this.startServices(cfg);
+    } catch (err) {
+      // Stop what already runs (pollers, scheduler, token validation, endpoints) before rethrowing
+      await this.stop();
+      throw err;
+    }
+    return this;
+  }
 
-    this.ws.on("open", () => {
-      elizaLogger.info("[TwitchClient] WebSocket connection opened");
+  /**
+   * Creates the services and starts them, the transport last.
+   */
+  private async startServices(cfg: TwitchConfig): Promise<void> {
+    const moderationEnabled = getBooleanSetting(this.runtime, "TWITCH_MODERATION_ENABLED", false);
+    const safetySettings = loadSafetySettings(this.runtime);
+    if (!this.simulator.enabled) {
+      this.tokens = new TwitchTokenManager(this.runtime, cfg.TWITCH_CLIENT_ID, [
+        ...(moderationEnabled ? MODERATION_SCOPES : []),
+        ...(safetySettings.automodCheck ? AUTOMOD_SCOPES : []),
+        ...(this.schedulerSettings.timers.some((t) => t.announce) ? ANNOUNCEMENT_SCOPES : []),
+        ...(this.whisperSettings.enabled ? WHISPER_SCOPES : []),
+        ...(this.pollSettings.enabled ? POLL_SCOPES : []),
+        ...(this.webhookSettings.enabled ? WEBHOOK_SCOPES : []),
+      ]);
+      await this.tokens.init();
+    }
+    this.safety = new TwitchSafetyFilter(
+      safetySettings,
+      this.helix,
+      cfg.TWITCH_BOT_USER_ID,
+      (direction, verdict) =>
+        this.metrics.inc("twitch_messages_filtered_total", {
+          direction,
+          action: verdict.action,
+          reason: metricReason("reason" in verdict ? verdict.reason : undefined),
+        })
+    );
+    if (moderationEnabled) {
+      this.setupModeration(cfg.TWITCH_BOT_USER_ID);
+    }
+    if (this.pollSettings.enabled) {
+      this.setupPolls(cfg.TWITCH_BOT_USER_ID);
+    }
+    if (this.whisperSettings.enabled) {
+      this.whispers = new TwitchWhispers(
+        this.runtime,
+        this.helix,
+        cfg.TWITCH_BOT_USER_ID,
+        this.whisperSettings
+      );
+    }
+    this.replyDecision = new ReplyDecisionEngine(this.runtime, {
+      userId: cfg.TWITCH_BOT_USER_ID,
+      login: cfg.TWITCH_BOT_USERNAME,
     });
+    for (const channel of loadChannelConfigs(this.runtime)) {
+      this.channels.set(channel.broadcasterId, channel);
+    }
+    elizaLogger.info(
+      `[TwitchClient] Channels => ${[...this.channels.values()]
+        .map((c) => `${c.login ?? c.broadcasterId}${c.enabled ? "" : " (disabled)"}`)
+        .join(", ")}`
+    );
+    if (this.adminSettings.enabled) {
+      await this.startAdmin();
+    }
+    if ((this.streams.enabled || this.lifecycle.summaries) && !this.runtime.providers.includes(this.streamProvider)) {
+      this.runtime.providers.push(this.streamProvider);
+    }
+    if (!this.simulator.enabled) {
+      this.streams.start([...this.channels.values()].filter((c) => c.enabled).map((c) => c.broadcasterId));
+    }
+    if (this.schedulerSettings.timers.length > 0 || this.schedulerSettings.idleChatMs > 0) {
+      this.scheduler = new TwitchScheduler(
+        {
+          channels: () => [...this.channels.values()].filter((c) => c.enabled).map((c) => c.broadcasterId),
+          isLive: (broadcasterId) => this.streams.get(broadcasterId)?.live,
+          isMuted: (broadcasterId) => this.isMuted(broadcasterId),
+          lastChatAt: (broadcasterId) => this.lastChatAt.get(broadcasterId),
+          generate: (broadcasterId, kind, topic) => this.generateProactiveMessage(broadcasterId, kind, topic),
+          send: (broadcasterId, text, announcementColor) =>
+            this.sendTwitchMessage(broadcasterId, text, { announcementColor }),
+        },
+        this.schedulerSettings
+      );
+      this.scheduler.start();
+    }
+
+    if (this.simulator.enabled) {
+      await this.startSimulator();
+      return;
+    }
+    if (this.webhookSettings.enabled) {
+      await this.startWebhook(cfg.TWITCH_CLIENT_ID);
+      return;
+    }
+
+    this.connection = new EventSubConnection(
+      {
+        onSessionReady: (sessionId) => this.onSessionReady(sessionId),
+        onNotification: (data) => this.handleWebSocketMessage(data),
+        onRevocation: (data) => this.handleRevocation(data),
+      },
+      this.endpoints.eventSubWsUrl
+    );
+    this.connection.start();
+  }
 
-    this.ws.on("error", (err) => {
-      elizaLogger.error("[TwitchClient] WebSocket error =>", err);
+  /**
+   * Starts the admin endpoint. It is optional, so a port that is already in use (e.g. two
+   * characters on the default port) is logged and the client runs without it.
+   */
+  private async startAdmin(): Promise<void> {
+    const admin = new TwitchAdminServer(this.adminSettings, {
+      health: () => this.health(),
+      metrics: () => this.renderMetrics(),
+      run: (operation) => this.runAdminOperation(operation),
     });
+    try {
+      await admin.start();
+      this.admin = admin;
+    } catch (err) {
+      const { host, port } = this.adminSettings;
+      elizaLogger.error(`[TwitchClient] Admin endpoint not started on ${host}:${port}, continuing without it =>`, err);
+    }
+  }
+
+  /**
+   * Starts the offline simulator: replayed frames go straight to the dispatcher, or through
+   * a local fake EventSub server and the regular connection code (transport "ws").
+   */
+  private async startSimulator(): Promise<void> {
+    elizaLogger.info(`[TwitchClient] Simulator mode => transcript ${this.simulator.transcriptFile}`);
+    if (this.simulator.transport === "ws") {
+      this.fakeEventSub = new FakeEventSubServer(this.simulator.wsPort);
+      await this.fakeEventSub.start();
+      this.connection = new EventSubConnection(
+        {
+          onSessionReady: (sessionId) => this.onSessionReady(sessionId),
+          onNotification: (data) => this.handleWebSocketMessage(data),
+          onRevocation: (data) => this.handleRevocation(data),
+        },
+        this.fakeEventSub.url
+      );
+      this.connection.start();
+    }
 
-    this.ws.on("close", (code, reason) => {
-      elizaLogger.warn(`[TwitchClient] WebSocket closed => code=${code}, reason=${reason.toString()}`);
-      this.ws = null;
+    const fakeEventSub = this.fakeEventSub;
+    this.replay = new ReplaySource(
+      this.simulator,
+      [...this.channels.values()].filter((c) => c.enabled),
+      (frame) => (fakeEventSub ? fakeEventSub.push(frame) : this.handleWebSocketMessage(frame))
+    );
+    this.replay.start().catch((err) => {
+      elizaLogger.error("[TwitchClient] Replay failed =>", err);
     });
+  }
 
-    this.ws.on("message", async (data: Buffer) => {
-      const raw = data.toString();
-      elizaLogger.debug("[TwitchClient] Received raw WS data =>", raw);
-      await this.handleWebSocketMessage(raw);
+  /**
+   * Starts the webhook endpoint and (re)creates the webhook subscriptions. Webhook
+   * subscriptions outlive the process, so the ones left for the callback are removed first.
+   */
+  private async startWebhook(clientId: string): Promise<void> {
+    assertWebhookSettings(this.webhookSettings);
+    const clientSecret = getStringSetting(this.runtime, "TWITCH_CLIENT_SECRET", "");
+    if (!clientSecret) {
+      throw new Error("[TwitchClient] TWITCH_CLIENT_SECRET is required for the webhook transport");
+    }
+    const appToken = new TwitchAppToken(clientId, clientSecret, this.endpoints.authUrl);
+    this.appHelix = new HelixClient(() => appToken, this.endpoints.helixUrl);
+    this.webhook = new EventSubWebhookServer(this.webhookSettings, {
+      onNotification: (data) => this.handleWebSocketMessage(data),
+      onRevocation: (data) => this.handleRevocation(data),
     });
+    await this.webhook.start();
 
-    return this;
+    try {
+      await removeWebhookSubscriptions(this.appHelix, this.subscriptionsUrl, this.webhookSettings.callbackUrl);
+      this.activeSubscriptions.clear();
+      await this.subscribeToChat(this.webhook.transport);
+    } catch (err) {
+      this.webhook.stop();
+      this.webhook = null;
+      throw err;
+    }
   }
 
   /**
-   * Stops the Twitch client by closing the WebSocket.
+   * Stops the Twitch client by closing the EventSub connection.
    */
   public async stop(): Promise<void> {
     elizaLogger.info("[TwitchClient] Stopping client...");
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    this.admin?.stop();
+    this.admin = null;
+    this.pipeline.stop();
+    this.scheduler?.stop();
+    this.streams.stop();
+    this.sendQueue.stop();
+    this.tokens?.stop();
+    this.replay?.stop();
+    this.replay = null;
+    this.fakeEventSub?.stop();
+    this.fakeEventSub = null;
+    await this.recorder?.flush();
+    if (this.webhook) {
+      this.webhook.stop();
+      this.webhook = null;
+      this.activeSubscriptions.clear();
+      elizaLogger.info("[TwitchClient] Client stopped – webhook endpoint closed");
+    } else if (this.connection) {
+      this.connection.stop();
+      this.connection = null;
+      this.activeSubscriptions.clear();
       elizaLogger.info("[TwitchClient] Client stopped – WebSocket closed");
     } else {
       elizaLogger.info("[TwitchClient] No active WebSocket connection to stop");
@@ -291,213 +670,1003 @@ class TwitchClient {
   }
 
   /**
-   * Validates the Twitch OAuth token using the /oauth2/validate endpoint.
+   * Creates the moderation service, registers its actions on the runtime (once)
+   * and the !confirm / !deny commands for moderators.
+   */
+  private setupModeration(moderatorId: string): void {
+    const moderation = new TwitchModeration(
+      this.runtime,
+      this.helix,
+      moderatorId,
+      (broadcasterId, text) => this.sendTwitchMessage(broadcasterId, text)
+    );
+
+    for (const action of createModerationActions(moderation)) {
+      if (!this.runtime.actions.some((a) => a.name === action.name)) {
+        this.runtime.registerAction(action);
+      }
+    }
+    this.commands.register({
+      name: "confirm",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        const id = ctx.args[0] ? Number(ctx.args[0]) : undefined;
+        await ctx.reply(await moderation.confirm(ctx.channel.broadcasterId, id));
+      },
+    });
+    this.commands.register({
+      name: "deny",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        const id = ctx.args[0] ? Number(ctx.args[0]) : undefined;
+        await ctx.reply(moderation.deny(ctx.channel.broadcasterId, id));
+      },
+    });
+    elizaLogger.info("[TwitchClient] Moderation actions enabled");
+  }
+
+  /**
+   * Creates the poll service, registers its actions on the runtime (once) and the
+   * poll / prediction commands for moderators:
+   *   !poll <title> | <choice> | <choice> [| <duration>]   (no arguments: results)
+   *   !endpoll [archive]
+   *   !prediction <title> | <outcome> | <outcome> [| <window>]   (no arguments: results)
+   *   !lock, !resolve <outcome or number>, !refund
    */
-  private async validateToken(token: string): Promise<void> {
-    elizaLogger.debug("[TwitchClient] Validating token via /oauth2/validate");
-    const res = await fetch("https://id.twitch.tv/oauth2/validate", {
-      method: "GET",
-      headers: { Authorization: `OAuth ${token}` },
+  private setupPolls(botUserId: string): void {
+    const polls = new TwitchPolls(this.helix, botUserId, this.pollSettings);
+    this.polls = polls;
+
+    const actions = createPollActions(polls, (broadcasterId, text) => this.sendTwitchMessage(broadcasterId, text));
+    for (const action of actions) {
+      if (!this.runtime.actions.some((a) => a.name === action.name)) {
+        this.runtime.registerAction(action);
+      }
+    }
+
+    // "title | a | b | 2m": the last part is a duration when it parses as one
+    const splitArgs = (argText: string) => {
+      const parts = argText.split("|").map((p) => p.trim());
+      const seconds = parts.length > 3 ? parseDuration(parts[parts.length - 1], NaN) / 1000 : NaN;
+      const entries = Number.isNaN(seconds) ? parts.slice(1) : parts.slice(1, -1);
+      return { title: parts[0], entries, seconds: Number.isNaN(seconds) ? undefined : seconds };
+    };
+    this.commands.register({
+      name: "poll",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        const broadcasterId = ctx.channel.broadcasterId;
+        if (!ctx.argText) {
+          await ctx.reply((await polls.pollResults(broadcasterId)).text);
+          return;
+        }
+        const { title, entries, seconds } = splitArgs(ctx.argText);
+        await ctx.reply((await polls.createPoll({ broadcasterId, title, choices: entries, durationSeconds: seconds })).text);
+      },
+    });
+    this.commands.register({
+      name: "endpoll",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        await ctx.reply((await polls.endPoll(ctx.channel.broadcasterId, ctx.args[0]?.toLowerCase() === "archive")).text);
+      },
+    });
+    this.commands.register({
+      name: "prediction",
+      aliases: ["predict"],
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        const broadcasterId = ctx.channel.broadcasterId;
+        if (!ctx.argText) {
+          await ctx.reply((await polls.predictionResults(broadcasterId)).text);
+          return;
+        }
+        const { title, entries, seconds } = splitArgs(ctx.argText);
+        await ctx.reply(
+          (await polls.createPrediction({ broadcasterId, title, outcomes: entries, windowSeconds: seconds })).text
+        );
+      },
+    });
+    this.commands.register({
+      name: "lock",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        await ctx.reply((await polls.lockPrediction(ctx.channel.broadcasterId)).text);
+      },
+    });
+    this.commands.register({
+      name: "resolve",
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        if (!ctx.argText) {
+          await ctx.reply("Usage: !resolve <winning outcome or its number>");
+          return;
+        }
+        await ctx.reply((await polls.resolvePrediction(ctx.channel.broadcasterId, ctx.argText)).text);
+      },
+    });
+    this.commands.register({
+      name: "refund",
+      aliases: ["cancelprediction"],
+      roles: ["moderator"],
+      handler: async (ctx) => {
+        await ctx.reply((await polls.cancelPrediction(ctx.channel.broadcasterId)).text);
+      },
     });
-    if (!res.ok) {
-      const data = await res.json().catch(() => ({}));
-      elizaLogger.error("[TwitchClient] Token validation failed =>", res.status, data);
-      throw new Error("Twitch token invalid");
+    elizaLogger.info("[TwitchClient] Poll and prediction actions enabled");
+  }
+
+  /**
+   * Returns the token manager; only valid after start().
+   */
+  private get auth(): TwitchTokenManager {
+    if (!this.tokens) {
+      throw new Error("[TwitchClient] Client not started");
     }
-    elizaLogger.info("[TwitchClient] OAuth token validated");
+    return this.tokens;
   }
 
   /**
-   * Handles incoming WebSocket messages by parsing JSON and routing based on message_type.
+   * Called by the connection for every fresh EventSub session. Subscriptions are bound
+   * to a session, so they are re-created here after each non-handover reconnect.
    */
-  private async handleWebSocketMessage(raw: string): Promise<void> {
-    let data: any;
+  private async onSessionReady(sessionId: string): Promise<void> {
+    elizaLogger.info(`[TwitchClient] New EventSub session => sessionId=${sessionId}`);
+    this.activeSubscriptions.clear();
     try {
-      data = JSON.parse(raw);
+      await this.subscribeToChat({ method: "websocket", session_id: sessionId });
     } catch (err) {
-      elizaLogger.error("[TwitchClient] JSON parse error =>", err);
-      return;
+      // Twitch closes sessions without subscriptions (code 4003), which triggers a retry.
+      elizaLogger.error("[TwitchClient] Subscribing on new session failed =>", err);
     }
-    const msgType = data.metadata?.message_type;
-    elizaLogger.debug("[TwitchClient] WS message_type =>", msgType);
-
-    if (msgType === "session_welcome") {
-      this.sessionId = data.payload?.session?.id;
-      elizaLogger.info(`[TwitchClient] session_welcome => sessionId=${this.sessionId}`);
-      await this.subscribeToChat();
-    } else if (msgType === "session_keepalive") {
-      elizaLogger.debug("[TwitchClient] Received session_keepalive (heartbeat)");
-    } else if (msgType === "notification") {
-      elizaLogger.info("[TwitchClient] Received notification => handleNotification");
+  }
+
+  /**
+   * Dispatches notification frames forwarded by the EventSub connection (or the webhook
+   * endpoint, in the same frame shape) by subscription type.
+   */
+  private async handleWebSocketMessage(data: any): Promise<void> {
+    const type: string = data.metadata?.subscription_type ?? data.payload?.subscription?.type ?? "";
+    elizaLogger.info(`[TwitchClient] Received notification => ${type}`);
+    this.recorder?.event(data);
+
+    if (type === "channel.chat.message") {
       await this.handleNotification(data).catch((err) => {
         elizaLogger.error("[TwitchClient] Error in handleNotification =>", err);
       });
-    } else {
-      elizaLogger.info("[TwitchClient] Unhandled WS message_type =>", msgType);
+      return;
+    }
+
+    if (type === "user.whisper.message") {
+      await this.handleWhisper(data.payload?.event).catch((err) => {
+        elizaLogger.error("[TwitchClient] Error in handleWhisper =>", err);
+      });
+      return;
+    }
+
+    if (STREAM_LIFECYCLE_TYPES.includes(type)) {
+      await this.handleStreamLifecycle(type, data.payload?.event, data.metadata?.message_id).catch((err) => {
+        elizaLogger.error(`[TwitchClient] Error in handleStreamLifecycle (${type}) =>`, err);
+      });
+      return;
+    }
+
+    const definition = CHANNEL_EVENT_DEFINITIONS.find((d) => d.type === type);
+    if (definition) {
+      await this.handleChannelEvent(definition, data.payload?.event, data.metadata?.message_id).catch((err) => {
+        elizaLogger.error(`[TwitchClient] Error in handleChannelEvent (${type}) =>`, err);
+      });
+      return;
     }
+
+    elizaLogger.warn("[TwitchClient] Unhandled notification type =>", type);
   }
 
   /**
-   * Subscribes to Twitch channel.chat.message events.
+   * Handles revocation frames: the subscription is gone and Twitch will not resend it.
    */
-  private async subscribeToChat(): Promise<void> {
-    if (!this.sessionId) {
-      throw new Error("[TwitchClient] subscribeToChat => no sessionId");
+  private async handleRevocation(data: any): Promise<void> {
+    const sub = data.payload?.subscription;
+    this.activeSubscriptions.delete(sub?.id);
+    elizaLogger.error(
+      `[TwitchClient] Subscription revoked => type=${sub?.type}, id=${sub?.id}, status=${sub?.status}`
+    );
+    if (sub?.status === "authorization_revoked") {
+      elizaLogger.error("[TwitchClient] The bot's authorization was revoked; a new OAuth token is required");
+    } else if (sub?.status === "user_removed") {
+      elizaLogger.error("[TwitchClient] The broadcaster or bot account no longer exists");
+    } else if (sub?.status === "version_removed") {
+      elizaLogger.error("[TwitchClient] The subscription version is no longer supported by Twitch");
     }
-    const cfg = await validateTwitchConfig(this.runtime);
+    if (this.activeSubscriptions.size === 0) {
+      elizaLogger.warn("[TwitchClient] No active subscriptions left; the bot will not receive chat");
+    }
+  }
 
-    const body = {
-      type: "channel.chat.message",
-      version: "1",
-      condition: {
-        broadcaster_user_id: cfg.TWITCH_CHANNEL_USER_ID || "",
-        user_id: cfg.TWITCH_BOT_USER_ID || "",
-      },
-      transport: {
-        method: "websocket",
-        session_id: this.sessionId,
-      },
-    };
+  /**
+   * Subscribes to channel.chat.message, stream.online / stream.offline and the configured
+   * channel events, for every enabled channel on the shared session (or webhook). Fails only when no chat subscription succeeded.
+   */
+  private async subscribeToChat(transport: EventSubTransport): Promise<void> {
+    const cfg = await validateTwitchConfig(this.runtime);
+    const enabled = [...this.channels.values()].filter((c) => c.enabled);
+    let subscribed = 0;
+    for (const channel of enabled) {
+      try {
+        await this.createSubscription(transport, "channel.chat.message", "1", {
+          broadcaster_user_id: channel.broadcasterId,
+          user_id: cfg.TWITCH_BOT_USER_ID || "",
+        });
+        subscribed++;
+      } catch (err) {
+        elizaLogger.error(`[TwitchClient] Could not subscribe to channel ${channel.broadcasterId} =>`, err);
+      }
 
-    elizaLogger.info(
-      `[TwitchClient] Subscribing to channel.chat.message (broadcaster=${cfg.TWITCH_CHANNEL_USER_ID}, bot=${cfg.TWITCH_BOT_USER_ID})`
-    );
-    elizaLogger.debug("[TwitchClient] Subscription body =>", body);
-
-    const resp = await fetch("https://api.twitch.tv/helix/eventsub/subscriptions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${cfg.TWITCH_OAUTH_TOKEN}`,
-        "Client-Id": cfg.TWITCH_CLIENT_ID,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-    });
+      for (const type of STREAM_LIFECYCLE_TYPES) {
+        await this.createSubscription(transport, type, "1", { broadcaster_user_id: channel.broadcasterId }).catch((err) => {
+          elizaLogger.error(`[TwitchClient] Could not subscribe to ${type} in ${channel.broadcasterId} =>`, err);
+        });
+      }
 
-    if (!resp.ok) {
-      const txt = await resp.text();
-      elizaLogger.error("[TwitchClient] subscribeToChat error =>", txt);
-      throw new Error("[TwitchClient] Failed to subscribe to chat messages");
+      for (const def of this.channelEventDefinitions(channel.broadcasterId)) {
+        await this.createSubscription(
+          transport,
+          def.type,
+          def.version,
+          def.condition(channel.broadcasterId, cfg.TWITCH_BOT_USER_ID)
+        ).catch((err) => {
+          elizaLogger.error(
+            `[TwitchClient] Could not subscribe to ${def.type} in ${channel.broadcasterId}${def.scope ? ` (needs ${def.scope})` : ""} =>`,
+            err
+          );
+        });
+      }
+    }
+    if (subscribed === 0) {
+      throw new Error("[TwitchClient] Failed to subscribe to chat messages in any channel");
+    }
+    if (this.whispers) {
+      await this.createSubscription(transport, "user.whisper.message", "1", { user_id: cfg.TWITCH_BOT_USER_ID }).catch(
+        (err) => {
+          elizaLogger.error("[TwitchClient] Could not subscribe to whispers (needs user:read:whispers) =>", err);
+        }
+      );
     }
-
-    elizaLogger.info("[TwitchClient] Subscribed to channel.chat.message");
   }
 
   /**
-   * Processes a notification from Twitch:
-   *   - Logs details, deduplicates by message_id,
-   *   - Skips messages from the bot,
-   *   - And forwards the user text to onUserMessage.
+   * Configured channel events, plus the poll / prediction results in the bot's own
+   * channel when polls are enabled (Twitch only grants those to the broadcaster).
    */
-  private async handleNotification(data: any): Promise<void> {
-    const evt = data.payload?.event;
-    const text = evt?.message?.text || "";
-    const senderId = evt?.chatter_user_id || "unknown-user";
-    const senderName = evt?.chatter_user_name || "UnknownUser";
-    const messageId = evt?.message_id || "";
+  private channelEventDefinitions(broadcasterId: string): ChannelEventDefinition[] {
+    const definitions = [...this.eventSettings.definitions];
+    if (this.polls?.canManage(broadcasterId)) {
+      for (const def of CHANNEL_EVENT_DEFINITIONS.filter((d) => POLL_EVENT_TYPES.includes(d.type))) {
+        if (!definitions.includes(def)) {
+          definitions.push(def);
+        }
+      }
+    }
+    return definitions;
+  }
 
-    elizaLogger.info("[TwitchClient] Notification =>", {
-      messageId,
-      senderId,
-      senderName,
-      text,
+  /**
+   * Creates one EventSub subscription on the given WebSocket session or webhook.
+   */
+  private async createSubscription(
+    transport: EventSubTransport,
+    type: string,
+    version: string,
+    condition: Record<string, string>
+  ): Promise<void> {
+    const body = { type, version, condition, transport };
+
+    elizaLogger.info(`[TwitchClient] Subscribing to ${type} =>`, condition);
+    elizaLogger.debug("[TwitchClient] Subscription body =>", {
+      ...body,
+      transport: transport.method === "webhook" ? { ...transport, secret: redactSecret(transport.secret) } : transport,
     });
 
-    const cfg = await validateTwitchConfig(this.runtime);
-    if (senderId === cfg.TWITCH_BOT_USER_ID) {
-      elizaLogger.warn("[TwitchClient] ignoring message from the bot => loop prevention");
-      return;
+    // Webhook subscriptions need the app token; WebSocket subscriptions the user token
+    const helix = transport.method === "webhook" && this.appHelix ? this.appHelix : this.helix;
+    let page: HelixPage<HelixEventSubSubscription>;
+    try {
+      page = await helix.post<HelixPage<HelixEventSubSubscription>>(this.subscriptionsUrl, body);
+    } catch (err) {
+      elizaLogger.error("[TwitchClient] createSubscription error =>", err instanceof HelixError ? err.message : err);
+      throw new Error(`[TwitchClient] Failed to subscribe to ${type}`);
     }
 
-    // Deduplicate by messageId
-    if (messageId && this.lastProcessedMessageIds.has(messageId)) {
-      elizaLogger.warn(`[TwitchClient] ignoring repeated message => id=${messageId}`);
-      return;
-    }
-    if (messageId) {
-      this.lastProcessedMessageIds.add(messageId);
-      if (this.lastProcessedMessageIds.size > 100) {
-        const firstKey = this.lastProcessedMessageIds.values().next().value;
-        if (typeof firstKey === "string") {
-          this.lastProcessedMessageIds.delete(firstKey);
-        }
-      }
+    for (const sub of page?.data ?? []) {
+      this.activeSubscriptions.set(sub.id, sub.type);
     }
 
-    elizaLogger.info(`[TwitchClient] Processing => ${senderName}: "${text}"`);
-    await this.onUserMessage(senderId, text);
+    elizaLogger.info(`[TwitchClient] Subscribed to ${type}`);
+  }
+
+  private get subscriptionsUrl(): string {
+    return `${this.endpoints.eventSubApiUrl}/subscriptions`;
   }
 
   /**
-   * Handles an incoming user message:
-   * 1. Creates a memory for the user's message.
-   * 2. Composes the state once from that message.
-   * 3. Builds a final prompt that forces the LLM to output valid JSON.
-   * 4. Generates a response from the LLM.
-   * 5. Creates a memory for the agent's reply.
-   * 6. Marks the user message as processed.
-   * 7. Updates the conversation state to filter out the processed message.
-   * 8. Processes actions, evaluates, and sends the final reply via Twitch API.
+   * Handles an incoming whisper: applies dedup, the whisper access rules and then the
+   * safety filter (so senders who may not whisper the bot get no refusal either), stores
+   * it in the partner's private room and answers through the shared reply flow.
    */
-  private async onUserMessage(senderId: string, text: string): Promise<void> {
+  private async handleWhisper(event: any): Promise<void> {
+    if (!this.whispers) {
+      return;
+    }
+    const msg = parseWhisper(event);
     const cfg = await validateTwitchConfig(this.runtime);
-    const roomId = stringToUuid(`twitch-${cfg.TWITCH_CHANNEL_USER_ID}`);
+    if (!msg.chatterId || msg.chatterId === cfg.TWITCH_BOT_USER_ID) {
+      return;
+    }
+    if (msg.messageId && !(await this.processed.claim(msg.messageId))) {
+      elizaLogger.warn(`[TwitchClient] ignoring repeated whisper => id=${msg.messageId}`);
+      return;
+    }
+    elizaLogger.info(`[TwitchClient] Whisper from ${msg.chatterLogin}: "${msg.text}"`);
+    const denied = this.whispers.deniedReason(msg.chatterLogin, await this.chatters.getBadges(msg.chatterId));
+    if (denied) {
+      elizaLogger.info(`[TwitchClient] Whisper from ${msg.chatterLogin} ignored (not allowed by whisper settings: ${denied})`);
+      await this.markHandled(msg);
+      return;
+    }
+
+    const verdict = this.safety!.checkInbound(msg);
+    if (verdict.action === "block") {
+      await this.markHandled(msg);
+      return;
+    }
+    if (verdict.action === "refuse") {
+      if (verdict.refusal && !this.paused) {
+        await this.sendWhisper(msg.chatterId, verdict.refusal);
+      }
+      await this.markHandled(msg);
+      return;
+    }
+    if (verdict.action === "quote") {
+      msg.cleanText = verdict.text;
+    }
 
-    elizaLogger.info(`[TwitchClient] Creating memory => user=${senderId}, text="${text}"`);
-    // Create user message; add an extra property "processed" (initially undefined)
-    const userMsg: Memory & { processed?: boolean } = {
-      id: stringToUuid(`twitch-msg-${Date.now()}-${senderId}`),
+    const paused = this.paused;
+    const roomId = stringToUuid(whisperRoomKey(msg.chatterId));
+    const userId = await this.chatters.ensureChatter(
+      { twitchUserId: msg.chatterId, login: msg.chatterLogin, displayName: msg.chatterName },
+      "",
+      roomId
+    );
+    const userMsg: Memory = {
+      id: msg.messageId ? chatMemoryId(msg.messageId) : stringToUuid(`twitch-whisper-${Date.now()}-${msg.chatterId}`),
       agentId: this.runtime.agentId,
-      userId: stringToUuid(senderId),
+      userId,
       roomId,
-      content: { text, source: "twitch" },
-      createdAt: Date.now(),
+      content: {
+        text: msg.cleanText,
+        source: "twitch",
+        chatterName: msg.chatterName,
+        twitchWhisper: true,
+        twitchMessageId: msg.messageId,
+        twitchChatterId: msg.chatterId,
+        ...(paused ? { twitchProcessed: true } : {}),
+      },
+      createdAt: msg.sentAt,
       embedding: getEmbeddingZeroVector(),
     };
     await this.runtime.messageManager.addEmbeddingToMemory(userMsg);
     await this.runtime.messageManager.createMemory(userMsg);
+    if (paused) {
+      elizaLogger.info(`[TwitchClient] Whisper from ${msg.chatterLogin} stored but not answered (paused)`);
+      await this.markHandled(msg);
+      return;
+    }
 
-    // Compose the state from the user message
-    const state = await this.runtime.composeState(userMsg);
-
-    // Build the final prompt with instructions to output valid JSON
-    const finalPrompt = `User asked: "${text}"
-Generate a short, final Twitch reply in valid JSON format.
-The output must be a JSON object with a single key "text" whose value is your final answer.
-Do not include any additional text or commentary.
-Final Answer:`;
-    elizaLogger.debug("[TwitchClient] Final prompt (truncated) =>", finalPrompt.slice(0, 400) + (finalPrompt.length > 400 ? "..." : ""));
+    let replyContent: Content | null = null;
+    try {
+      replyContent = await this.respondTo(
+        msg,
+        userMsg,
+        { verdict: "respond", reason: "whisper" },
+        {
+          twitchChatter: msg.chatterName,
+          twitchWhisperPersona: this.whisperSettings.persona,
+        },
+        getTwitchTemplate(this.runtime, "twitchWhisperTemplate", twitchWhisperTemplate)
+      );
+    } finally {
+      if (!replyContent) {
+        await this.markHandled(msg, userMsg);
+      }
+    }
+    if (replyContent) {
+      await this.sendWhisper(msg.chatterId, replyContent.text);
+    }
+  }
 
-    // Generate LLM response with a 120-second timeout
-    const replyContent = await generateResponseWithLogs(this.runtime, finalPrompt, userMsg);
-    if (!replyContent.text) {
-      elizaLogger.warn("[TwitchClient] LLM returned empty text => skipping send");
+  /**
+   * Sends a whisper through the outbound safety filter and the whisper rate limits.
+   */
+  private async sendWhisper(toUserId: string, text: string): Promise<void> {
+    if (!this.whispers || !(await this.safety!.checkOutbound(`whisper:${toUserId}`, text))) {
       return;
     }
-    elizaLogger.info("[TwitchClient] LLM reply =>", replyContent.text);
+    await this.whispers.send(toUserId, text);
+  }
 
-    // Create memory for the agent's reply
-    const agentMsg: Memory = {
-      id: stringToUuid(`twitch-reply-${Date.now()}`),
-      agentId: this.runtime.agentId,
-      userId: this.runtime.agentId,
-      roomId,
-      content: replyContent,
-      createdAt: Date.now(),
-      embedding: getEmbeddingZeroVector(),
-    };
-    await this.runtime.messageManager.createMemory(agentMsg);
+  /**
+   * Handles stream.online / stream.offline: updates the live state and, when the stream
+   * ends, stores a recap of its chat as a long-term memory. Redelivered notifications are
+   * dropped, so a stream gets one recap.
+   */
+  private async handleStreamLifecycle(type: string, event: any, messageId?: string): Promise<void> {
+    const broadcasterId: string = event?.broadcaster_user_id ?? "";
+    const channel = this.channels.get(broadcasterId);
+    if (!channel || !channel.enabled) {
+      return;
+    }
+    if (messageId && !(await this.processed.claim(messageId, eventMemoryId(messageId)))) {
+      elizaLogger.warn(`[TwitchClient] ignoring repeated ${type} => id=${messageId}`);
+      return;
+    }
 
-    // Mark the user message as processed
-    userMsg.processed = true;
+    let offlineMemory: Memory | null = null;
+    try {
+      offlineMemory = await this.applyStreamLifecycle(type, channel, event, messageId);
+    } finally {
+      if (messageId) {
+        await this.processed.markProcessed(messageId, offlineMemory ?? undefined);
+      }
+    }
+  }
+
+  /**
+   * Updates the live state; returns the stored stream.offline memory when a recap was made.
+   */
+  private async applyStreamLifecycle(
+    type: string,
+    channel: TwitchChannelConfig,
+    event: any,
+    messageId?: string
+  ): Promise<Memory | null> {
+    const { broadcasterId } = channel;
+
+    if (type === "stream.online") {
+      const startedAt = Date.parse(event?.started_at ?? "") || Date.now();
+      elizaLogger.info(`[TwitchClient] #${channel.login ?? broadcasterId} went live`);
+      this.streamStartedAt.set(broadcasterId, startedAt);
+      this.streams.setLive(broadcasterId, true, startedAt);
+      return null;
+    }
+
+    const startedAt = this.streamStartedAt.get(broadcasterId) ?? this.streams.get(broadcasterId)?.startedAt;
+    const info = this.streams.get(broadcasterId);
+    elizaLogger.info(`[TwitchClient] #${channel.login ?? broadcasterId} went offline`);
+    this.streamStartedAt.delete(broadcasterId);
+    this.streams.setLive(broadcasterId, false);
+    if (!this.lifecycle.summaries) {
+      return null;
+    }
+    if (startedAt === undefined) {
+      // Without the start (e.g. the bot came up mid-stream with stream context off) the
+      // recap would cover an arbitrary slice of chat
+      elizaLogger.info(`[TwitchClient] Start of the stream in #${channel.login ?? broadcasterId} unknown; no recap`);
+      return null;
+    }
+    return this.summarizeStream(channel, startedAt, info ? describeStream({ ...info, live: false }) : "", messageId);
+  }
+
+  /**
+   * Asks the model for a recap of the chat between startedAt and now and stores it.
+   * Returns the stream.offline memory, or null when there was nothing to recap.
+   */
+  private async summarizeStream(
+    channel: TwitchChannelConfig,
+    startedAt: number,
+    streamInfo: string,
+    messageId?: string
+  ): Promise<Memory | null> {
+    const { broadcasterId } = channel;
+    const roomId = stringToUuid(channelRoomKey(broadcasterId));
+    const endedAt = Date.now();
+    const chat = await collectSessionChat(this.runtime, roomId, startedAt, endedAt, this.lifecycle.summaryMaxMessages);
+    if (chat.length === 0) {
+      elizaLogger.info(`[TwitchClient] No chat during the stream in #${channel.login ?? broadcasterId}; no recap`);
+      return null;
+    }
+
+    const offlineMemory: Memory = {
+      id: messageId
+        ? eventMemoryId(messageId)
+        : stringToUuid(`twitch-event-stream.offline-${broadcasterId}-${endedAt}`),
+      agentId: this.runtime.agentId,
+      userId: this.runtime.agentId,
+      roomId,
+      content: {
+        text: `The stream ended after ${formatUptime(endedAt - startedAt)}.`,
+        source: "twitch",
+        chatterName: "Twitch",
+        twitchEvent: "stream.offline",
+        twitchBroadcasterId: broadcasterId,
+      },
+      createdAt: endedAt,
+      embedding: getEmbeddingZeroVector(),
+    };
+    await this.runtime.messageManager.createMemory(offlineMemory);
 
-    // Update the state and filter out the processed user message from recentMessages.
+    const state = await this.composeState(offlineMemory, {
+      twitchChannel: channel.login ?? broadcasterId,
+      twitchStreamInfo: streamInfo,
+      twitchSessionChat: chat.join("\n"),
+    });
+    const prompt = composeContext({
+      state,
+      template: getTwitchTemplate(this.runtime, "twitchStreamSummaryTemplate", twitchStreamSummaryTemplate),
+    });
+    const recap = sanitizeChatReply((await generateResponseWithLogs(this.runtime, prompt, offlineMemory, this.metrics)).text, 2000);
+    if (!recap) {
+      elizaLogger.warn(`[TwitchClient] LLM returned no usable stream recap for #${channel.login ?? broadcasterId}`);
+      return offlineMemory;
+    }
+    await storeStreamSummary(this.runtime, roomId, broadcasterId, startedAt, recap);
+    return offlineMemory;
+  }
+
+  /**
+   * Handles a non-chat channel event: stores it as a memory in the channel room and,
+   * depending on TWITCH_EVENT_RESPONSE_MODE (TWITCH_POLL_ANNOUNCE_MODE for poll and prediction
+   * events), posts a templated or generated reaction. Events are deduplicated by the
+   * EventSub message_id, like chat messages.
+   */
+  private async handleChannelEvent(definition: ChannelEventDefinition, event: any, messageId?: string): Promise<void> {
+    const broadcasterId = definition.broadcasterOf(event);
+    const channel = this.channels.get(broadcasterId);
+    if (!channel || !channel.enabled) {
+      elizaLogger.warn(`[TwitchClient] ignoring ${definition.type} for unknown or disabled channel => ${broadcasterId}`);
+      return;
+    }
+
+    if (definition.ignore?.(event)) {
+      elizaLogger.debug(`[TwitchClient] Ignoring ${definition.type} in ${broadcasterId}`);
+      return;
+    }
+
+    const memoryId = messageId
+      ? eventMemoryId(messageId)
+      : stringToUuid(`twitch-event-${definition.type}-${broadcasterId}-${Date.now()}`);
+    if (messageId && !(await this.processed.claim(messageId, memoryId))) {
+      elizaLogger.warn(`[TwitchClient] ignoring repeated ${definition.type} => id=${messageId}`);
+      return;
+    }
+
+    const described = definition.describe(this.filterEventText(definition, event));
+    elizaLogger.info(`[TwitchClient] Channel event in #${channel.login ?? broadcasterId} => ${described.text}`);
+
+    const roomId = stringToUuid(channelRoomKey(broadcasterId));
+    const eventMemory: Memory = {
+      id: memoryId,
+      agentId: this.runtime.agentId,
+      userId: described.userId
+        ? await this.chatters.ensureChatter(
+            {
+              twitchUserId: described.userId,
+              login: described.userLogin ?? described.userName ?? described.userId,
+              displayName: described.userName ?? described.userLogin ?? described.userId,
+            },
+            broadcasterId,
+            roomId
+          )
+        : this.runtime.agentId,
+      roomId,
+      content: {
+        text: described.text,
+        source: "twitch",
+        chatterName: described.userName ?? "Twitch",
+        twitchEvent: definition.type,
+        twitchBroadcasterId: broadcasterId,
+      },
+      createdAt: Date.now(),
+      embedding: getEmbeddingZeroVector(),
+    };
+    await this.runtime.messageManager.createMemory(eventMemory);
+    try {
+      await this.reactToChannelEvent(definition, channel, eventMemory, described);
+    } finally {
+      if (messageId) {
+        await this.processed.markProcessed(messageId, eventMemory);
+      }
+    }
+  }
+
+  /**
+   * Posts the reaction to a stored channel event, per the response mode of its type.
+   */
+  private async reactToChannelEvent(
+    definition: ChannelEventDefinition,
+    channel: TwitchChannelConfig,
+    eventMemory: Memory,
+    described: DescribedChannelEvent
+  ): Promise<void> {
+    const { broadcasterId } = channel;
+    const roomId = eventMemory.roomId;
+
+    // Poll and prediction events are announced per TWITCH_POLL_ANNOUNCE_MODE
+    const isPollEvent = /^channel\.(poll|prediction)\./.test(definition.type);
+    const mode = isPollEvent ? this.pollSettings.announceMode : this.eventSettings.responseMode;
+    if (mode === "none" || this.isMuted(broadcasterId)) {
+      return;
+    }
+
+    let replyText = "";
+    if (mode === "template") {
+      const template = this.eventSettings.templates[definition.type] ?? definition.defaultTemplate;
+      replyText = renderEventTemplate(template, described.vars);
+    } else {
+      const state = await this.composeState(eventMemory, {
+        twitchChannel: channel.login ?? broadcasterId,
+        twitchEvent: described.text,
+        twitchRecentChat: await this.formatRecentChat(roomId),
+      });
+      const prompt = composeContext({
+        state,
+        template: getTwitchTemplate(this.runtime, "twitchEventTemplate", twitchEventTemplate),
+      });
+      replyText = (await generateChatReply(this.runtime, prompt, eventMemory, this.sanitizer, this.metrics)).text ?? "";
+    }
+    if (!replyText) {
+      return;
+    }
+
+    await this.runtime.messageManager.createMemory({
+      id: stringToUuid(`twitch-event-reply-${eventMemory.id}`),
+      agentId: this.runtime.agentId,
+      userId: this.runtime.agentId,
+      roomId,
+      content: { text: replyText, source: "twitch", inReplyTo: eventMemory.id },
+      createdAt: Date.now(),
+      embedding: getEmbeddingZeroVector(),
+    });
+    await this.sendTwitchMessage(broadcasterId, replyText);
+  }
+
+  /**
+   * Runs the viewer-typed fields of an event (cheer message, reward input) through the
+   * safety filter; a blocked text is left out, the event itself is kept.
+   */
+  private filterEventText(definition: ChannelEventDefinition, event: any): any {
+    const filtered = { ...event };
+    for (const field of definition.userTextFields ?? []) {
+      if (typeof event?.[field] === "string" && event[field]) {
+        filtered[field] = this.safety!.filterForPrompt(event[field], `${definition.type} from ${event.user_login}`) ?? "";
+      }
+    }
+    return filtered;
+  }
+
+  /**
+   * Processes a notification from Twitch:
+   *   - Logs details, deduplicates by message_id,
+   *   - Skips messages from the bot and from unknown or disabled channels,
+   *   - Runs !commands, stores the chat line as a memory,
+   *   - And queues a reply job (answered by onUserMessage) when the decision says so.
+   */
+  private async handleNotification(data: any): Promise<void> {
+    const evt = data.payload?.event;
+    const fragments = parseChatFragments(evt?.message);
+    const msg: TwitchChatMessage = {
+      messageId: evt?.message_id || "",
+      broadcasterId: evt?.broadcaster_user_id || "",
+      broadcasterLogin: evt?.broadcaster_user_login || "",
+      chatterId: evt?.chatter_user_id || "unknown-user",
+      chatterLogin: evt?.chatter_user_login || "",
+      chatterName: evt?.chatter_user_name || "UnknownUser",
+      badges: Array.isArray(evt?.badges) ? evt.badges : [],
+      color: evt?.color || undefined,
+      ...fragments,
+      reply: parseReplyParent(evt?.reply),
+      sentAt: Date.parse(data.metadata?.message_timestamp ?? "") || Date.now(),
+    };
+    const { messageId, broadcasterId } = msg;
+
+    elizaLogger.info("[TwitchClient] Notification =>", {
+      messageId,
+      broadcasterId,
+      senderId: msg.chatterId,
+      senderName: msg.chatterName,
+      text: msg.text,
+      emotes: msg.emotes.length,
+      replyTo: msg.reply?.parentMessageId,
+    });
+
+    const cfg = await validateTwitchConfig(this.runtime);
+    if (msg.chatterId === cfg.TWITCH_BOT_USER_ID) {
+      elizaLogger.warn("[TwitchClient] ignoring message from the bot => loop prevention");
+      return;
+    }
+
+    const channel = this.channels.get(broadcasterId);
+    if (!channel || !channel.enabled) {
+      elizaLogger.warn(`[TwitchClient] ignoring message from unknown or disabled channel => ${broadcasterId}`);
+      return;
+    }
+    if (!channel.login && msg.broadcasterLogin) {
+      channel.login = msg.broadcasterLogin;
+    }
+
+    // Deduplicate by messageId (also across restarts)
+    if (messageId && !(await this.processed.claim(messageId))) {
+      elizaLogger.warn(`[TwitchClient] ignoring repeated message => id=${messageId}`);
+      return;
+    }
+
+    this.getChannelStats(broadcasterId).received++;
+    this.metrics.inc("twitch_messages_received_total", { channel: channel.login ?? broadcasterId });
+    this.lastChatAt.set(broadcasterId, msg.sentAt);
+
+    const verdict = this.safety!.checkInbound(msg);
+    if (verdict.action === "block") {
+      await this.markHandled(msg);
+      return;
+    }
+    if (verdict.action === "refuse") {
+      // A refusal is a reply too: not sent while paused or muted
+      if (verdict.refusal && !this.isMuted(broadcasterId)) {
+        await this.sendTwitchMessage(broadcasterId, verdict.refusal, this.replyOptions(messageId));
+      }
+      await this.markHandled(msg);
+      return;
+    }
+    if (verdict.action === "quote") {
+      msg.cleanText = verdict.text;
+    }
+
+    const isCommand = await this.commands.handle(msg, channel, (reply) =>
+      this.sendTwitchMessage(channel.broadcasterId, reply)
+    );
+    if (isCommand) {
+      await this.markHandled(msg);
+      return;
+    }
+
+    const decision = this.decideReply(msg);
+    elizaLogger.info(
+      `[TwitchClient] Processing => #${channel.login ?? broadcasterId} ${msg.chatterName}: "${msg.text}" (${decision.verdict}: ${decision.reason})`
+    );
+    const ignored = decision.verdict === "ignore";
+    const userMsg = await this.storeUserMessage(channel, msg, ignored);
+    if (!ignored) {
+      this.queueReply(channel, msg, decision, userMsg);
+    } else {
+      this.metrics.inc("twitch_messages_skipped_total", { reason: metricReason(decision.reason) });
+      await this.markHandled(msg);
+    }
+  }
+
+  /**
+   * Runs the reply decision (or the given one, for !ask) behind the pause, mute and
+   * live-mode gates. The cooldowns reserved by the decision engine are given back when
+   * a gate turns the verdict down.
+   */
+  private decideReply(
+    msg: TwitchChatMessage,
+    evaluate: () => ReplyDecision = () => this.replyDecision!.evaluate(msg)
+  ): ReplyDecision {
+    if (this.paused) {
+      return { verdict: "ignore", reason: "paused" };
+    }
+    if (this.isMuted(msg.broadcasterId)) {
+      return { verdict: "ignore", reason: "muted" };
+    }
+    const evaluated = evaluate();
+    const decision = applyLiveMode(this.lifecycle.liveMode, this.streams.get(msg.broadcasterId)?.live, evaluated);
+    if (decision !== evaluated) {
+      this.replyDecision!.releaseReply(msg, evaluated);
+    }
+    return decision;
+  }
+
+  /**
+   * Hands a reply job to the bounded pipeline.
+   */
+  private queueReply(channel: TwitchChannelConfig, msg: TwitchChatMessage, decision: ReplyDecision, userMsg: Memory): void {
+    this.pipeline.push({
+      channelId: channel.broadcasterId,
+      receivedAt: msg.sentAt,
+      // The digest reply has no LLM shouldRespond check, so these are answered on their own
+      digestible: decision.verdict !== "ask-llm",
+      channel,
+      msg,
+      decision,
+      userMsg,
+    });
+  }
+
+  /**
+   * Called by the pipeline for jobs it drops unanswered (queue full or too old); the
+   * message stays stored as chat context.
+   */
+  private onReplyDropped(job: ReplyJob, reason: "overflow" | "stale"): void {
+    elizaLogger.info(
+      `[TwitchClient] Not answering ${job.msg.chatterName} in #${job.channel.login ?? job.channel.broadcasterId} => ${reason}`
+    );
+    this.metrics.inc("twitch_messages_skipped_total", { reason });
+    this.replyDecision?.releaseReply(job.msg, job.decision);
+    void this.markHandled(job.msg, job.userMsg);
+  }
+
+  /**
+   * Creates the memory for a chat line. Every line is stored (also the ones we won't
+   * answer), so it shows up as chat context; lines that will not be answered are stored
+   * with the "processed" marker already set.
+   */
+  private async storeUserMessage(
+    channel: TwitchChannelConfig,
+    msg: TwitchChatMessage,
+    processed = false
+  ): Promise<Memory> {
+    const { chatterId: senderId, cleanText: text } = msg;
+    const roomId = stringToUuid(channelRoomKey(channel.broadcasterId));
+
+    const userId = await this.chatters.ensureChatter(
+      {
+        twitchUserId: senderId,
+        login: msg.chatterLogin,
+        displayName: msg.chatterName,
+        badges: msg.badges.map((b) => b.set_id),
+        color: msg.color,
+      },
+      channel.broadcasterId,
+      roomId
+    );
+
+    elizaLogger.info(`[TwitchClient] Creating memory => user=${msg.chatterLogin} (${senderId}), text="${text}"`);
+    const userMsg: Memory = {
+      id: msg.messageId ? chatMemoryId(msg.messageId) : stringToUuid(`twitch-msg-${Date.now()}-${senderId}`),
+      agentId: this.runtime.agentId,
+      userId,
+      roomId,
+      content: {
+        text,
+        source: "twitch",
+        chatterName: msg.chatterName,
+        twitchRawText: msg.text,
+        twitchEmotes: msg.emotes.map((e) => e.name),
+        twitchMessageId: msg.messageId,
+        twitchChatterId: msg.chatterId,
+        twitchBroadcasterId: msg.broadcasterId,
+        twitchBadges: msg.badges.map((b) => b.set_id),
+        ...(processed ? { twitchProcessed: true } : {}),
+      },
+      createdAt: msg.sentAt,
+      embedding: getEmbeddingZeroVector(),
+    };
+    await this.runtime.messageManager.addEmbeddingToMemory(userMsg);
+    await this.runtime.messageManager.createMemory(userMsg);
+    return userMsg;
+  }
+
+  /**
+   * Replies to a stored chat message (run by the reply pipeline) and sends the reply to
+   * the originating channel.
+   */
+  private async onUserMessage(
+    channel: TwitchChannelConfig,
+    msg: TwitchChatMessage,
+    decision: ReplyDecision,
+    userMsg: Memory
+  ): Promise<void> {
+    let replyContent: Content | null = null;
+    try {
+      replyContent = await this.respondTo(
+        msg,
+        userMsg,
+        decision,
+        {
+          ...(await this.channelStateKeys(channel)),
+          twitchChatter: msg.chatterName,
+          twitchBadges: msg.badges.map((b) => b.set_id).join(", ") || "none",
+          twitchReplyContext: this.replyContext(msg),
+        },
+        getTwitchTemplate(this.runtime, "twitchMessageHandlerTemplate", twitchMessageHandlerTemplate)
+      );
+    } finally {
+      if (!replyContent) {
+        this.replyDecision!.releaseReply(msg, decision);
+        await this.markHandled(msg, userMsg);
+      }
+    }
+    if (!replyContent) {
+      return;
+    }
+
+    elizaLogger.info("[TwitchClient] *** SENDING MESSAGE *** =>", replyContent.text);
+    this.replyDecision!.recordReply(channel.broadcasterId, msg.chatterId);
+    this.getChannelStats(channel.broadcasterId).replied++;
+    this.metrics.inc("twitch_messages_replied_total", { channel: channel.login ?? channel.broadcasterId });
+    await this.sendTwitchMessage(channel.broadcasterId, replyContent.text, this.replyOptions(msg.messageId));
+  }
+
+  /**
+   * Describes the message a threaded reply answers. The parent's text did not pass
+   * checkInbound with this message, so it goes through the safety filter first.
+   */
+  private replyContext(msg: TwitchChatMessage): string {
+    if (!msg.reply) {
+      return "";
+    }
+    const parent = this.safety!.filterForPrompt(
+      msg.reply.parentMessageBody,
+      `reply parent from ${msg.reply.parentUserLogin} (${msg.reply.parentUserId})`
+    );
+    return parent === null
+      ? `${msg.chatterName} is replying to a message from ${msg.reply.parentUserName}.`
+      : `${msg.chatterName} is replying to ${msg.reply.parentUserName}'s message: "${parent}"`;
+  }
+
+  /**
+   * Shared reply flow for chat messages and whispers:
+   * 1. Composes the state once from the stored message, adding the given template keys,
+   *    and runs the LLM shouldRespond check when the decision asks for it.
+   * 2. Renders the template, which asks the LLM for valid JSON.
+   * 3. Generates a response from the LLM.
+   * 4. Creates a memory for the agent's reply.
+   * 5. Marks the user message as processed.
+   * 6. Updates the conversation state to filter out the processed messages, so actions
+   *    and evaluators only see chat that has not been handled yet.
+   * 7. Processes actions and evaluates.
+   * Returns the reply content, or null when there is nothing to send.
+   */
+  private async respondTo(
+    msg: TwitchChatMessage,
+    userMsg: Memory,
+    decision: ReplyDecision,
+    stateKeys: Record<string, string>,
+    template: TemplateType
+  ): Promise<Content | null> {
+    // Compose the state from the user message, with the Twitch-specific template keys
+    const state = await this.composeState(userMsg, stateKeys);
+
+    if (decision.verdict === "ask-llm" && !(await this.replyDecision!.confirmWithLlm(state))) {
+      elizaLogger.info(`[TwitchClient] LLM decided not to reply to ${msg.chatterName}`);
+      return null;
+    }
+
+    // Render the template (asks for a valid JSON reply)
+    const finalPrompt = composeContext({ state, template });
+    elizaLogger.debug("[TwitchClient] Final prompt (truncated) =>", finalPrompt.slice(0, 400) + (finalPrompt.length > 400 ? "..." : ""));
+
+    // Generate LLM response with a 120-second timeout, sanitized for chat
+    const replyContent = await generateChatReply(this.runtime, finalPrompt, userMsg, this.sanitizer, this.metrics);
+    if (!replyContent.text) {
+      elizaLogger.warn("[TwitchClient] LLM returned empty text => skipping send");
+      return null;
+    }
+    elizaLogger.info("[TwitchClient] LLM reply =>", replyContent.text);
+
+    // Create memory for the agent's reply
+    const agentMsg: Memory = {
+      id: msg.messageId ? replyMemoryId(msg.messageId) : stringToUuid(`twitch-reply-${Date.now()}`),
+      agentId: this.runtime.agentId,
+      userId: this.runtime.agentId,
+      roomId: userMsg.roomId,
+      content: replyContent,
+      createdAt: Date.now(),
+      embedding: getEmbeddingZeroVector(),
+    };
+    await this.runtime.messageManager.createMemory(agentMsg);
+
+    // Mark the user message as processed (in the dedup store and on the memory)
+    await this.markHandled(msg, userMsg);
+
+    // Update the state and filter out the processed user messages from recentMessages.
     const updatedState = await this.runtime.updateRecentMessageState(state);
-    const filteredRecent = updatedState.recentMessages
-      .split("\n")
-      .filter(line => !line.includes(String(userMsg.id)))
-      .join("\n");
-    const filteredState = { ...updatedState, recentMessages: filteredRecent };
+    const filteredState = {
+      ...updatedState,
+      recentMessages: formatMessages({
+        messages: updatedState.recentMessagesData.filter((m) => m.id !== userMsg.id && !this.isProcessed(m)),
+        actors: updatedState.actorsData ?? [],
+      }),
+    };
 
     // Process actions and run evaluation using the filtered state
     await this.runtime.processActions(userMsg, [agentMsg], filteredState, async (msgs) => {
@@ -505,46 +1674,527 @@ Final Answer:`;
       return [userMsg];
     });
     await this.runtime.evaluate(userMsg, filteredState);
+    return replyContent;
+  }
 
-    elizaLogger.info("[TwitchClient] *** SENDING MESSAGE *** =>", replyContent.text);
-    await this.sendTwitchMessage(replyContent.text);
+  /**
+   * runtime.composeState, with the actors' current display names (the stored accounts
+   * keep the names they were created with, see ./identity).
+   */
+  private async composeState(memory: Memory, additionalKeys: Record<string, unknown> = {}): Promise<State> {
+    const state = await this.runtime.composeState(memory, additionalKeys);
+    const actors = this.chatters.withCurrentNames(state.actorsData ?? []);
+    if (actors === state.actorsData) {
+      return state;
+    }
+    // formatMessages lists the messages it gets newest first in reverse (and composeState
+    // may have reordered recentMessagesData in place)
+    const newestFirst = [...(state.recentMessagesData ?? [])].sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+    return {
+      ...state,
+      actorsData: actors,
+      actors: formatActors({ actors }),
+      senderName: actors.find((actor) => actor.id === memory.userId)?.name ?? state.senderName,
+      recentMessages: formatMessages({ messages: newestFirst, actors }),
+    };
   }
 
   /**
-   * Sends the final reply message to Twitch using the Helix Chat API.
-   * Now includes the required 'sender_id' parameter.
+   * Records the final outcome of a message (answered, ignored, filtered, a !command or
+   * dropped) in the dedup store and, when it was stored, on its memory, so a replayed
+   * notification is not handled again after a restart.
    */
-  private async sendTwitchMessage(text: string): Promise<void> {
-    const cfg = await validateTwitchConfig(this.runtime);
-    const url = `https://api.twitch.tv/helix/chat/messages?broadcaster_id=${cfg.TWITCH_CHANNEL_USER_ID}&moderator_id=${cfg.TWITCH_BOT_USER_ID}`;
-    elizaLogger.info("[TwitchClient] Attempting to POST =>", url, {
-      textPreview: text.slice(0, 80) + (text.length > 80 ? "..." : ""),
+  private async markHandled(msg: TwitchChatMessage, userMsg?: Memory): Promise<void> {
+    if (msg.messageId) {
+      await this.processed.markProcessed(msg.messageId, userMsg);
+    }
+  }
+
+  /**
+   * True for chat and whisper memories whose message was handled, by this run or (per the
+   * marker on the memory) an earlier one.
+   */
+  private isProcessed(memory: Memory): boolean {
+    const messageId = memory.content.twitchMessageId;
+    return (
+      isMemoryProcessed(memory) || (typeof messageId === "string" && this.processed.status(messageId) === "processed")
+    );
+  }
+
+  /**
+   * Digest mode: answers a burst of waiting messages from one channel with a single reply.
+   * The reserved cooldowns are given back when no reply was generated.
+   */
+  private async onDigest(jobs: ReplyJob[]): Promise<void> {
+    let replied = false;
+    try {
+      replied = await this.replyToDigest(jobs);
+    } finally {
+      if (!replied) {
+        for (const job of jobs) {
+          this.replyDecision!.releaseReply(job.msg, job.decision);
+          await this.markHandled(job.msg, job.userMsg);
+        }
+      }
+    }
+  }
+
+  /**
+   * Generates and stores the digest reply, runs actions and evaluators on it with the last
+   * message of the batch (as respondTo does for one message) and sends it; false when the
+   * model returned nothing.
+   */
+  private async replyToDigest(jobs: ReplyJob[]): Promise<boolean> {
+    const { channel } = jobs[0];
+    const last = jobs[jobs.length - 1];
+    const digest = jobs.map((job) => `${job.msg.chatterName}: ${job.msg.cleanText}`).join("\n");
+
+    const state = await this.composeState(last.userMsg, {
+      ...(await this.channelStateKeys(channel)),
+      twitchChatter: last.msg.chatterName,
+      twitchDigest: digest,
+    });
+    const prompt = composeContext({
+      state,
+      template: getTwitchTemplate(this.runtime, "twitchDigestTemplate", twitchDigestTemplate),
     });
 
-    const res = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${cfg.TWITCH_OAUTH_TOKEN}`,
-        "Client-Id": cfg.TWITCH_CLIENT_ID,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        message: text,
-        sender_id: cfg.TWITCH_BOT_USER_ID // Required by Twitch
+    const replyContent = await generateChatReply(this.runtime, prompt, last.userMsg, this.sanitizer, this.metrics);
+    if (!replyContent.text) {
+      elizaLogger.warn("[TwitchClient] LLM returned empty digest reply => skipping send");
+      return false;
+    }
+
+    const agentMsg: Memory = {
+      id: stringToUuid(`twitch-digest-reply-${last.userMsg.id}`),
+      agentId: this.runtime.agentId,
+      userId: this.runtime.agentId,
+      roomId: last.userMsg.roomId,
+      content: { ...replyContent, inReplyTo: last.userMsg.id },
+      createdAt: Date.now(),
+      embedding: getEmbeddingZeroVector(),
+    };
+    await this.runtime.messageManager.createMemory(agentMsg);
+
+    for (const job of jobs) {
+      this.replyDecision!.recordReply(channel.broadcasterId, job.msg.chatterId);
+      await this.markHandled(job.msg, job.userMsg);
+    }
+
+    const updatedState = await this.runtime.updateRecentMessageState(state);
+    const batchIds = new Set(jobs.map((job) => job.userMsg.id));
+    const filteredState = {
+      ...updatedState,
+      recentMessages: formatMessages({
+        messages: updatedState.recentMessagesData.filter((m) => !batchIds.has(m.id) && !this.isProcessed(m)),
+        actors: updatedState.actorsData ?? [],
       }),
+    };
+    await this.runtime.processActions(last.userMsg, [agentMsg], filteredState, async () => [last.userMsg]);
+    await this.runtime.evaluate(last.userMsg, filteredState);
+
+    this.getChannelStats(channel.broadcasterId).replied++;
+    this.metrics.inc("twitch_messages_replied_total", { channel: channel.login ?? channel.broadcasterId });
+    await this.sendTwitchMessage(channel.broadcasterId, replyContent.text);
+    return true;
+  }
+
+  /**
+   * Writes a scheduled or idle-chat message with the model and stores it as the agent's
+   * message in the channel room. Returns null when no usable text came back.
+   */
+  private async generateProactiveMessage(
+    broadcasterId: string,
+    kind: "scheduled" | "idle",
+    topic: string
+  ): Promise<string | null> {
+    const channel = this.channels.get(broadcasterId);
+    if (!channel) {
+      return null;
+    }
+    const roomId = stringToUuid(channelRoomKey(broadcasterId));
+    const quietMinutes = Math.round((Date.now() - (this.lastChatAt.get(broadcasterId) ?? this.startedAt)) / 60000);
+    const task =
+      kind === "idle"
+        ? `Chat has been quiet for ${quietMinutes} minutes. Get a conversation going${topic ? ` about: ${topic}` : ""}.`
+        : `This is a recurring message about: ${topic}. Say something fresh, not a repeat of earlier messages.`;
+
+    // Not stored: only used to compose the state for this channel
+    const trigger: Memory = {
+      id: stringToUuid(`twitch-proactive-${kind}-${broadcasterId}-${Date.now()}`),
+      agentId: this.runtime.agentId,
+      userId: this.runtime.agentId,
+      roomId,
+      content: { text: task, source: "twitch", twitchBroadcasterId: broadcasterId },
+      createdAt: Date.now(),
+    };
+    const state = await this.composeState(trigger, {
+      ...(await this.channelStateKeys(channel)),
+      twitchProactiveTask: task,
+    });
+    const prompt = composeContext({
+      state,
+      template: getTwitchTemplate(this.runtime, "twitchProactiveTemplate", twitchProactiveTemplate),
+    });
+
+    const replyContent = await generateChatReply(this.runtime, prompt, trigger, this.sanitizer, this.metrics);
+    if (!replyContent.text) {
+      return null;
+    }
+    await this.runtime.messageManager.createMemory({
+      id: stringToUuid(`twitch-proactive-reply-${trigger.id}`),
+      agentId: this.runtime.agentId,
+      userId: this.runtime.agentId,
+      roomId,
+      content: { text: replyContent.text, source: "twitch", twitchBroadcasterId: broadcasterId },
+      createdAt: Date.now(),
+      embedding: getEmbeddingZeroVector(),
+    });
+    return replyContent.text;
+  }
+
+  /**
+   * Template keys shared by every prompt about a channel.
+   */
+  private async channelStateKeys(channel: TwitchChannelConfig): Promise<Record<string, string>> {
+    const offline = this.lifecycle.liveMode === "offline-reduced" && this.streams.get(channel.broadcasterId)?.live === false;
+    const replyStyle = [
+      channel.replyStyle ? `Reply style for this channel: ${channel.replyStyle}` : "",
+      offline ? OFFLINE_REPLY_STYLE : "",
+    ];
+    return {
+      twitchChannel: channel.login ?? channel.broadcasterId,
+      twitchReplyStyle: replyStyle.filter(Boolean).join("\n"),
+      twitchRecentChat: await this.formatRecentChat(stringToUuid(channelRoomKey(channel.broadcasterId))),
+    };
+  }
+
+  /**
+   * Built-in !commands, bound to this client's state.
+   */
+  private createBuiltinCommands() {
+    return createBuiltinCommands({
+      ask: async (ctx) => {
+        const msg = { ...ctx.msg, text: ctx.argText, cleanText: this.safety!.prepareForPrompt(ctx.argText) };
+        const decision = this.decideReply(msg, () => ({ verdict: "respond", reason: "!ask" }));
+        const userMsg = await this.storeUserMessage(ctx.channel, msg);
+        if (decision.verdict === "ignore") {
+          elizaLogger.info(`[TwitchClient] Not answering !ask from ${msg.chatterName} => ${decision.reason}`);
+          this.metrics.inc("twitch_messages_skipped_total", { reason: metricReason(decision.reason) });
+          return;
+        }
+        this.queueReply(ctx.channel, msg, decision, userMsg);
+      },
+      setReplyStyle: (broadcasterId, style) => {
+        const channel = this.channels.get(broadcasterId);
+        if (channel) {
+          channel.replyStyle = style;
+        }
+      },
+      mute: (broadcasterId, durationMs) => {
+        this.mutedUntil.set(broadcasterId, Date.now() + durationMs);
+      },
+      unmute: (broadcasterId) => {
+        this.mutedUntil.delete(broadcasterId);
+      },
+      forget: async (broadcasterId) => {
+        await this.runtime.messageManager.removeAllMemories(stringToUuid(channelRoomKey(broadcasterId)));
+        elizaLogger.info(`[TwitchClient] Chat memories cleared for channel ${broadcasterId}`);
+      },
+      stats: (broadcasterId) => {
+        const stats = this.getChannelStats(broadcasterId);
+        const uptimeMin = Math.round((Date.now() - this.startedAt) / 60000);
+        return `Up ${uptimeMin} min · ${stats.received} messages seen · ${stats.replied} replies`;
+      },
     });
+  }
 
-    if (!res.ok) {
-      const errTxt = await res.text();
-      elizaLogger.error("[TwitchClient] sendTwitchMessage => error", errTxt);
+  private isMuted(broadcasterId: string): boolean {
+    if (this.paused) {
+      return true;
+    }
+    const until = this.mutedUntil.get(broadcasterId);
+    if (until && until <= Date.now()) {
+      this.mutedUntil.delete(broadcasterId);
+      return false;
+    }
+    return until !== undefined;
+  }
+
+  private getChannelStats(broadcasterId: string): { received: number; replied: number } {
+    let stats = this.channelStats.get(broadcasterId);
+    if (!stats) {
+      stats = { received: 0, replied: 0 };
+      this.channelStats.set(broadcasterId, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Health snapshot for the admin endpoint: "down" without a working transport,
+   * "degraded" without subscriptions or with an expired token.
+   */
+  private health(): TwitchHealth {
+    const now = Date.now();
+    let up: boolean;
+    let state: TwitchHealth["eventSub"]["state"];
+    if (this.webhook) {
+      up = this.webhook.isListening;
+      state = up ? "listening" : "closed";
+    } else if (this.connection) {
+      up = this.connection.isConnected;
+      state = this.connection.state;
+    } else {
+      // Simulator replaying straight into the dispatcher
+      up = this.replay !== null;
+      state = up ? "open" : "stopped";
+    }
+    const expectsSubscriptions = !this.simulator.enabled || this.connection !== null;
+    const expiresAt = this.tokens?.expiresAt;
+
+    let status: HealthStatus = "ok";
+    if (!up) {
+      status = "down";
+    } else if ((expectsSubscriptions && this.activeSubscriptions.size === 0) || (expiresAt && expiresAt <= now)) {
+      status = "degraded";
+    }
+
+    const types: Record<string, number> = {};
+    for (const type of this.activeSubscriptions.values()) {
+      types[type] = (types[type] ?? 0) + 1;
+    }
+    const lastMessageAt = this.connection?.lastMessageAt;
+    return {
+      status,
+      agent: this.runtime.character.name,
+      uptimeSeconds: Math.round((now - this.startedAt) / 1000),
+      paused: this.paused,
+      transport: this.simulator.enabled ? "simulator" : this.webhook ? "webhook" : "websocket",
+      eventSub: {
+        state,
+        sessionId: this.connection?.currentSessionId ?? null,
+        lastMessageAt: lastMessageAt ? new Date(lastMessageAt).toISOString() : null,
+      },
+      subscriptions: { count: this.activeSubscriptions.size, types },
+      token: {
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        expiresInSeconds: expiresAt ? Math.round((expiresAt - now) / 1000) : null,
+        scopes: this.tokens?.scopes ?? [],
+      },
+      replyQueue: { queued: this.pipeline.size, running: this.pipeline.running },
+      channels: [...this.channels.values()].map((c) => ({
+        broadcasterId: c.broadcasterId,
+        login: c.login,
+        enabled: c.enabled,
+        muted: (this.mutedUntil.get(c.broadcasterId) ?? 0) > now,
+        live: this.streams.get(c.broadcasterId)?.live,
+      })),
+    };
+  }
+
+  /**
+   * Counters plus the gauges of the current health snapshot, in the Prometheus text format.
+   */
+  private renderMetrics(): string {
+    const health = this.health();
+    const gauges: Record<string, { help: string; value: number }> = {
+      twitch_up: { help: "1 when the health status is ok", value: health.status === "ok" ? 1 : 0 },
+      twitch_eventsub_connected: {
+        help: "1 while the EventSub socket is open (or the webhook endpoint listening)",
+        value: health.eventSub.state === "open" || health.eventSub.state === "listening" ? 1 : 0,
+      },
+      twitch_eventsub_subscriptions: { help: "Active EventSub subscriptions", value: health.subscriptions.count },
+      twitch_replies_paused: { help: "1 while replies are paused through the admin endpoint", value: this.paused ? 1 : 0 },
+      twitch_reply_queue_size: { help: "Reply jobs waiting in the pipeline", value: health.replyQueue.queued },
+      twitch_reply_jobs_running: { help: "Reply jobs being generated", value: health.replyQueue.running },
+      twitch_uptime_seconds: { help: "Seconds since the client was created", value: health.uptimeSeconds },
+    };
+    if (health.token.expiresInSeconds !== null) {
+      gauges.twitch_token_expires_in_seconds = {
+        help: "Seconds until the user access token expires",
+        value: health.token.expiresInSeconds,
+      };
+    }
+    return this.metrics.render(gauges);
+  }
+
+  /**
+   * Runs an operation requested through the admin endpoint.
+   */
+  private async runAdminOperation(operation: AdminOperation): Promise<AdminResult> {
+    switch (operation) {
+      case "pause":
+        this.paused = true;
+        elizaLogger.warn("[TwitchClient] Replies paused via admin endpoint");
+        return { ok: true, message: "Replies paused; chat is still received and stored." };
+      case "resume":
+        this.paused = false;
+        elizaLogger.info("[TwitchClient] Replies resumed via admin endpoint");
+        return { ok: true, message: "Replies resumed." };
+      case "reconnect":
+        if (!this.connection) {
+          return { ok: false, message: "No EventSub WebSocket to reconnect (use resubscribe for webhooks)." };
+        }
+        this.connection.reconnect("admin request");
+        return { ok: true, message: "Reconnecting; subscriptions are re-created on the new session." };
+      case "resubscribe":
+        try {
+          return await this.resubscribe();
+        } catch (err) {
+          elizaLogger.error("[TwitchClient] Resubscribe failed =>", err);
+          return { ok: false, message: err instanceof Error ? err.message : String(err) };
+        }
+    }
+  }
+
+  /**
+   * Deletes the current subscriptions and creates them again on the same session (or
+   * webhook), e.g. after the broadcaster granted a missing scope.
+   */
+  private async resubscribe(): Promise<AdminResult> {
+    if (this.webhook && this.appHelix) {
+      await removeWebhookSubscriptions(this.appHelix, this.subscriptionsUrl, this.webhookSettings.callbackUrl);
+      this.activeSubscriptions.clear();
+      await this.subscribeToChat(this.webhook.transport);
+    } else if (this.connection?.currentSessionId) {
+      const sessionId = this.connection.currentSessionId;
+      for (const id of [...this.activeSubscriptions.keys()]) {
+        await this.helix.delete(this.subscriptionsUrl, { id }).catch((err) => {
+          elizaLogger.warn(`[TwitchClient] Could not delete subscription ${id} =>`, err);
+        });
+      }
+      this.activeSubscriptions.clear();
+      await this.subscribeToChat({ method: "websocket", session_id: sessionId });
     } else {
-      elizaLogger.info(`[TwitchClient] Sent message => "${text}"`);
+      return { ok: false, message: "No EventSub session or webhook to subscribe on." };
     }
+    return { ok: true, message: `Resubscribed; ${this.activeSubscriptions.size} subscription(s) active.` };
+  }
+
+  /**
+   * Formats the latest chat lines of a room as "name: text", oldest first.
+   */
+  private async formatRecentChat(roomId: UUID): Promise<string> {
+    const memories = await this.runtime.messageManager.getMemories({
+      roomId,
+      count: RECENT_CHAT_LINES,
+      unique: false,
+    });
+    return memories
+      .slice()
+      .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0))
+      .map((m) => {
+        const name = m.userId === this.runtime.agentId
+          ? this.runtime.character.name
+          : (m.content.chatterName as string | undefined) ?? "viewer";
+        return `${name}: ${m.content.text}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Queues the final reply for the given channel. The queue enforces chat rate
+   * limits, splits replies longer than 500 characters and retries on 429. When a parent
+   * message id is given, the reply is sent as a native threaded reply; with an announcement
+   * colour, as a chat announcement. Replies rejected by the outbound safety filter are
+   * dropped (and logged there).
+   */
+  private async sendTwitchMessage(broadcasterId: string, text: string, options: ChatSendOptions = {}): Promise<void> {
+    if (this.safety && !(await this.safety.checkOutbound(broadcasterId, text))) {
+      return;
+    }
+    const results = await this.sendQueue.enqueue(broadcasterId, text, options);
+    for (const result of results.filter((r) => !r?.isSent)) {
+      // null: the queue gave up after repeated 429s or was stopped
+      const dropReason = result ? result.dropReason?.code ?? `http_${result.status}` : "not_sent";
+      this.metrics.inc("twitch_send_failures_total", { drop_reason: dropReason });
+    }
+    const sent = results.filter((r) => r?.isSent).length;
+    elizaLogger.info(`[TwitchClient] Reply delivered => ${sent}/${results.length} chunk(s) sent`);
+  }
+
+  /**
+   * Send options that thread a reply under the given chat message (when enabled).
+   */
+  private replyOptions(messageId: string): ChatSendOptions {
+    return this.threadedReplies && messageId ? { replyParentMessageId: messageId } : {};
+  }
+
+  /**
+   * Posts a chat announcement (needs moderator:manage:announcements and mod status).
+   * Called by the send queue; Helix answers 204 without a body on success.
+   */
+  private async postAnnouncement(broadcasterId: string, text: string, color: AnnouncementColor): Promise<ChatSendResult> {
+    const cfg = await validateTwitchConfig(this.runtime);
+    try {
+      const res = await this.helix.request<void>("POST", "/chat/announcements", {
+        query: { broadcaster_id: broadcasterId, moderator_id: cfg.TWITCH_BOT_USER_ID },
+        body: { message: text, color },
+        rateLimitRetries: 0,
+      });
+      elizaLogger.info(`[TwitchClient] Sent announcement (${color}) => "${text}"`);
+      this.recorder?.sent({ broadcasterId, text, announcementColor: color });
+      return { status: res.status, isSent: true, rateLimitResetAt: this.helix.rateLimit.resetAt };
+    } catch (err) {
+      if (!(err instanceof HelixError)) {
+        throw err;
+      }
+      elizaLogger.error("[TwitchClient] postAnnouncement => error", err.status, err.twitchMessage);
+      return { status: err.status, isSent: false, rateLimitResetAt: err.rateLimitResetAt };
+    }
+  }
+
+  /**
+   * Posts a single chat message via the Helix Chat API (includes the required 'sender_id').
+   * Called by the send queue; never throws for HTTP errors so the queue can decide on retries.
+   */
+  private async postChatMessage(
+    broadcasterId: string,
+    text: string,
+    replyParentMessageId?: string
+  ): Promise<ChatSendResult> {
+    const cfg = await validateTwitchConfig(this.runtime);
+    elizaLogger.info(`[TwitchClient] Attempting to POST /chat/messages => ${broadcasterId}`, {
+      textPreview: text.slice(0, 80) + (text.length > 80 ? "..." : ""),
+    });
+
+    let res: HelixResponse<HelixPage<HelixChatMessageResult>>;
+    try {
+      // 429s are retried by the send queue, which also knows the chat rate limits
+      res = await this.helix.request<HelixPage<HelixChatMessageResult>>("POST", "/chat/messages", {
+        body: {
+          broadcaster_id: broadcasterId,
+          message: text,
+          sender_id: cfg.TWITCH_BOT_USER_ID, // Required by Twitch
+          reply_parent_message_id: replyParentMessageId,
+        },
+        rateLimitRetries: 0,
+      });
+    } catch (err) {
+      if (!(err instanceof HelixError)) {
+        throw err;
+      }
+      elizaLogger.error("[TwitchClient] postChatMessage => error", err.status, err.twitchMessage);
+      return { status: err.status, isSent: false, rateLimitResetAt: err.rateLimitResetAt };
+    }
+
+    const entry = res.data?.data?.[0];
+    const isSent = entry?.is_sent === true;
+    if (isSent) {
+      elizaLogger.info(`[TwitchClient] Sent message => "${text}" (id=${entry?.message_id})`);
+      this.recorder?.sent({ broadcasterId, text, replyParentMessageId });
+    }
+    return {
+      status: res.status,
+      isSent,
+      dropReason: entry?.drop_reason ?? undefined,
+      rateLimitResetAt: this.helix.rateLimit.resetAt,
+    };
   }
 }
 
 /* ============================================================================
-   6) Plugin Interface for ElizaOS
+   5) Plugin Interface for ElizaOS
    ----------------------------------------------------------------------------
    Exports the Twitch client plugin as an object conforming to the ElizaOS Client interface.
 =========================================================================== */
@@ -571,4 +2221,9 @@ export const TwitchClientInterface: Client = {
   }
 };
 
+export { registerTwitchCommand, unregisterTwitchCommand } from "./commands";
+export type { TwitchCommand, TwitchCommandContext, TwitchRole } from "./commands";
+export { ReplayWriter, chatFrame, parseReplayLine, readReplayFile } from "./simulator";
+export type { EventSubFrame, ReplayEntry } from "./simulator";
+
 export default TwitchClientInterface;
@@ -0,0 +1,141 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/metrics.ts
+ *
+ * Client metrics
+ *
+ * In-memory counters for one client, rendered in the Prometheus text format by the
+ * admin endpoint (./admin). This module handles:
+ *   - Chat messages received, filtered (safety filter), skipped (reply decision) and replied
+ *   - LLM latency (histogram), timeouts and errors of generateResponseWithLogs
+ *   - Chat send failures by Twitch drop_reason code (or HTTP status)
+ *   - Gauges supplied by the client at scrape time (connection, subscriptions, token, queue)
+ *
+ * Label values are reduced to short identifiers (metricReason) so free-text reasons such
+ * as blocked terms do not create new series.
+ */
+
+/* ============================================================================
+   1) Types & Definitions
+=========================================================================== */
+export type LlmOutcome = "ok" | "empty" | "timeout" | "error";
+
+type Labels = Record<string, string>;
+
+interface CounterFamily {
+  help: string;
+  /** Label set (JSON) => value. */
+  values: Map<string, number>;
+}
+
+export type CounterName =
+  | "twitch_messages_received_total"
+  | "twitch_messages_filtered_total"
+  | "twitch_messages_skipped_total"
+  | "twitch_messages_replied_total"
+  | "twitch_llm_requests_total"
+  | "twitch_llm_timeouts_total"
+  | "twitch_send_failures_total";
+
+const COUNTERS: Record<CounterName, string> = {
+  twitch_messages_received_total: "Chat messages received (after deduplication)",
+  twitch_messages_filtered_total: "Messages and replies dropped or refused by the safety filter",
+  twitch_messages_skipped_total: "Chat messages stored but not answered, by reply decision",
+  twitch_messages_replied_total: "Replies generated for chat messages",
+  twitch_llm_requests_total: "LLM generations by outcome",
+  twitch_llm_timeouts_total: "LLM generations that hit the response timeout",
+  twitch_send_failures_total: "Chat messages Twitch did not deliver, by drop_reason",
+};
+
+/** Upper bounds in seconds; generations run up to the 120s timeout. */
+const LLM_LATENCY_BUCKETS = [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+/**
+ * Turns a free-text reason ('blocked term "x"', 'user cooldown (3s left)') into a
+ * label value ("blocked_term", "user_cooldown").
+ */
+export function metricReason(reason: string | undefined): string {
+  const value = (reason ?? "")
+    .replace(/\s*["'(/:].*$/, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_");
+  return value || "unknown";
+}
+
+/* ============================================================================
+   2) TwitchMetrics Class
+=========================================================================== */
+export class TwitchMetrics {
+  private counters = new Map<CounterName, CounterFamily>();
+  private latency = { buckets: LLM_LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+
+  constructor() {
+    for (const [name, help] of Object.entries(COUNTERS)) {
+      this.counters.set(name as CounterName, { help, values: new Map() });
+    }
+  }
+
+  public inc(name: CounterName, labels: Labels = {}, value = 1): void {
+    const family = this.counters.get(name)!;
+    const key = JSON.stringify(labels);
+    family.values.set(key, (family.values.get(key) ?? 0) + value);
+  }
+
+  /**
+   * Records one LLM generation; timed-out generations count toward the timeout counter
+   * and are left out of the latency histogram.
+   */
+  public observeLlm(durationMs: number, outcome: LlmOutcome): void {
+    this.inc("twitch_llm_requests_total", { outcome });
+    if (outcome === "timeout") {
+      this.inc("twitch_llm_timeouts_total");
+      return;
+    }
+    const seconds = durationMs / 1000;
+    LLM_LATENCY_BUCKETS.forEach((bound, i) => {
+      if (seconds <= bound) {
+        this.latency.buckets[i]++;
+      }
+    });
+    this.latency.sum += seconds;
+    this.latency.count++;
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format (version 0.0.4).
+   */
+  public render(gauges: Record<string, { help: string; value: number }> = {}): string {
+    const lines: string[] = [];
+    for (const [name, family] of this.counters) {
+      lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} counter`);
+      for (const [key, value] of family.values) {
+        lines.push(`${name}${formatLabels(JSON.parse(key) as Labels)} ${value}`);
+      }
+    }
+
+    const histogram = "twitch_llm_latency_seconds";
+    lines.push(`# HELP ${histogram} LLM generation latency`, `# TYPE ${histogram} histogram`);
+    LLM_LATENCY_BUCKETS.forEach((bound, i) => {
+      lines.push(`${histogram}_bucket{le="${bound}"} ${this.latency.buckets[i]}`);
+    });
+    lines.push(
+      `${histogram}_bucket{le="+Inf"} ${this.latency.count}`,
+      `${histogram}_sum ${this.latency.sum}`,
+      `${histogram}_count ${this.latency.count}`
+    );
+
+    for (const [name, gauge] of Object.entries(gauges)) {
+      lines.push(`# HELP ${name} ${gauge.help}`, `# TYPE ${name} gauge`, `${name} ${gauge.value}`);
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const escape = (v: string) => v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+  return `{${entries.map(([k, v]) => `${k}="${escape(v)}"`).join(",")}}`;
+}
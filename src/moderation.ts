@@ -0,0 +1,195 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/moderation.ts
+ *
+ * Helix moderation calls and the mod confirmation queue
+ *
+ * This module handles:
+ *   - Timeouts and bans (POST /moderation/bans)
+ *   - Deleting a single message or clearing chat (DELETE /moderation/chat)
+ *   - Shield mode (PUT /moderation/shield_mode)
+ *   - Pending requests for actions the model may not run on its own; a moderator
+ *     approves them with !confirm <id> (or rejects them with !deny <id>)
+ *
+ * Settings:
+ *   TWITCH_MODERATION_ENABLED     "true" to register the moderation actions
+ *   TWITCH_MODERATION_AUTONOMOUS  action kinds the model may run without confirmation
+ *                                 (timeout, ban, delete, clear, shield), default "delete"
+ */
+
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { HelixClient } from "./helix";
+import { getListSetting } from "./settings";
+
+/* ============================================================================
+   1) Types & Constants
+=========================================================================== */
+export type ModerationKind = "timeout" | "ban" | "delete" | "clear" | "shield";
+
+export const MODERATION_SCOPES = [
+  "moderator:manage:banned_users",
+  "moderator:manage:chat_messages",
+  "moderator:manage:shield_mode",
+];
+
+export interface ModerationRequest {
+  kind: ModerationKind;
+  broadcasterId: string;
+  userId?: string;
+  userName?: string;
+  messageId?: string;
+  durationSeconds?: number;
+  reason?: string;
+  active?: boolean;
+}
+
+interface PendingModeration {
+  id: number;
+  request: ModerationRequest;
+  createdAt: number;
+}
+
+const PENDING_TTL_MS = 5 * 60 * 1000;
+const MAX_TIMEOUT_SECONDS = 1209600;
+
+/**
+ * Human-readable summary of a request, used in chat and logs.
+ */
+export function describeModeration(request: ModerationRequest): string {
+  const who = request.userName ? `@${request.userName}` : request.userId ?? "?";
+  switch (request.kind) {
+    case "timeout":
+      return `timeout ${who} for ${request.durationSeconds ?? 600}s`;
+    case "ban":
+      return `ban ${who}`;
+    case "delete":
+      return `delete a message from ${who}`;
+    case "clear":
+      return "clear the chat";
+    case "shield":
+      return `turn shield mode ${request.active === false ? "off" : "on"}`;
+  }
+}
+
+/* ============================================================================
+   2) TwitchModeration Class
+=========================================================================== */
+export class TwitchModeration {
+  private pending = new Map<number, PendingModeration>();
+  private nextId = 1;
+  private autonomous: Set<ModerationKind>;
+
+  constructor(
+    runtime: IAgentRuntime,
+    private helix: HelixClient,
+    private moderatorId: string,
+    private notify: (broadcasterId: string, text: string) => Promise<void>
+  ) {
+    const configured = runtime.getSetting("TWITCH_MODERATION_AUTONOMOUS") === undefined
+      ? ["delete"]
+      : getListSetting(runtime, "TWITCH_MODERATION_AUTONOMOUS");
+    this.autonomous = new Set(configured.map((k) => k.toLowerCase()) as ModerationKind[]);
+  }
+
+  /**
+   * Entry point for model-initiated actions: runs allowlisted kinds directly and
+   * queues the rest for a moderator's !confirm.
+   */
+  public async requestFromAgent(request: ModerationRequest): Promise<boolean> {
+    if (this.autonomous.has(request.kind)) {
+      return this.execute(request);
+    }
+    this.prunePending();
+    const id = this.nextId++;
+    this.pending.set(id, { id, request, createdAt: Date.now() });
+    elizaLogger.info(`[TwitchModeration] Pending #${id} => ${describeModeration(request)}`);
+    await this.notify(
+      request.broadcasterId,
+      `Mods: I'd like to ${describeModeration(request)}. Type !confirm ${id} to approve or !deny ${id} to cancel.`
+    );
+    return true;
+  }
+
+  /**
+   * Approves a pending request (the most recent one for the channel when id is omitted).
+   */
+  public async confirm(broadcasterId: string, id?: number): Promise<string> {
+    const entry = this.takePending(broadcasterId, id);
+    if (!entry) {
+      return "Nothing to confirm.";
+    }
+    const ok = await this.execute(entry.request);
+    return ok ? `Done: ${describeModeration(entry.request)}.` : `Could not ${describeModeration(entry.request)}.`;
+  }
+
+  public deny(broadcasterId: string, id?: number): string {
+    const entry = this.takePending(broadcasterId, id);
+    return entry ? `Cancelled: ${describeModeration(entry.request)}.` : "Nothing to cancel.";
+  }
+
+  /**
+   * Runs a moderation request against Helix.
+   */
+  public async execute(request: ModerationRequest): Promise<boolean> {
+    const query = { broadcaster_id: request.broadcasterId, moderator_id: this.moderatorId };
+    try {
+      switch (request.kind) {
+        case "timeout":
+        case "ban":
+          if (!request.userId) {
+            return false;
+          }
+          await this.helix.post(
+            "/moderation/bans",
+            {
+              data: {
+                user_id: request.userId,
+                duration:
+                  request.kind === "timeout"
+                    ? Math.min(MAX_TIMEOUT_SECONDS, Math.max(1, request.durationSeconds ?? 600))
+                    : undefined,
+                reason: request.reason ?? "",
+              },
+            },
+            query
+          );
+          break;
+        case "delete":
+          if (!request.messageId) {
+            return false;
+          }
+          await this.helix.delete("/moderation/chat", { ...query, message_id: request.messageId });
+          break;
+        case "clear":
+          await this.helix.delete("/moderation/chat", query);
+          break;
+        case "shield":
+          await this.helix.put("/moderation/shield_mode", { is_active: request.active !== false }, query);
+          break;
+      }
+    } catch (err) {
+      elizaLogger.error(`[TwitchModeration] ${describeModeration(request)} failed =>`, err);
+      return false;
+    }
+    elizaLogger.info(`[TwitchModeration] ${describeModeration(request)} => OK (reason="${request.reason ?? ""}")`);
+    return true;
+  }
+
+  private takePending(broadcasterId: string, id?: number): PendingModeration | undefined {
+    this.prunePending();
+    const candidates = [...this.pending.values()].filter((p) => p.request.broadcasterId === broadcasterId);
+    const entry = id === undefined ? candidates[candidates.length - 1] : candidates.find((p) => p.id === id);
+    if (entry) {
+      this.pending.delete(entry.id);
+    }
+    return entry;
+  }
+
+  private prunePending(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.pending) {
+      if (now - entry.createdAt > PENDING_TTL_MS) {
+        this.pending.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/pipeline.ts
+ *
+ * Bounded reply pipeline
+ *
+ * Replies are generated through this pipeline instead of directly from the
+ * WebSocket handler, so a raid or hype train cannot start dozens of LLM calls
+ * at once. It handles:
+ *   - A configurable concurrency limit (1 keeps replies strictly in order)
+ *   - A maximum queue length; when full, the oldest job is dropped
+ *   - Staleness expiry: jobs older than N seconds are dropped, not answered
+ *   - Optional digest mode: when several jobs of the same channel are waiting,
+ *     they are merged and handed over as one batch (jobs marked not digestible
+ *     are always handed over on their own)
+ *
+ * Settings:
+ *   TWITCH_MAX_CONCURRENCY       default 1
+ *   TWITCH_MAX_QUEUE             default 20
+ *   TWITCH_STALE_SECONDS         default 60
+ *   TWITCH_DIGEST_MODE           "true" to merge bursts into one reply
+ *   TWITCH_DIGEST_MAX_MESSAGES   default 8
+ */
+
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { getBooleanSetting, getNumberSetting } from "./settings";
+
+/* ============================================================================
+   1) Types
+=========================================================================== */
+export interface PipelineJob {
+  channelId: string;
+  /** Epoch milliseconds when the message was sent on Twitch. */
+  receivedAt: number;
+  /** False keeps the job out of digests; default true. */
+  digestible?: boolean;
+}
+
+export interface PipelineOptions {
+  concurrency: number;
+  maxQueueLength: number;
+  staleAfterMs: number;
+  digest: boolean;
+  digestMaxMessages: number;
+}
+
+export interface PipelineHandlers<J extends PipelineJob> {
+  process: (job: J) => Promise<void>;
+  processDigest?: (jobs: J[]) => Promise<void>;
+  onDrop?: (job: J, reason: "overflow" | "stale") => void;
+}
+
+export function loadPipelineOptions(runtime: IAgentRuntime): PipelineOptions {
+  return {
+    concurrency: Math.max(1, Math.floor(getNumberSetting(runtime, "TWITCH_MAX_CONCURRENCY", 1))),
+    maxQueueLength: Math.max(1, Math.floor(getNumberSetting(runtime, "TWITCH_MAX_QUEUE", 20))),
+    staleAfterMs: getNumberSetting(runtime, "TWITCH_STALE_SECONDS", 60) * 1000,
+    digest: getBooleanSetting(runtime, "TWITCH_DIGEST_MODE", false),
+    digestMaxMessages: Math.max(2, Math.floor(getNumberSetting(runtime, "TWITCH_DIGEST_MAX_MESSAGES", 8))),
+  };
+}
+
+/* ============================================================================
+   2) ReplyPipeline Class
+=========================================================================== */
+export class ReplyPipeline<J extends PipelineJob> {
+  private queue: J[] = [];
+  private active = 0;
+  private stopped = false;
+
+  constructor(
+    private options: PipelineOptions,
+    private handlers: PipelineHandlers<J>
+  ) {}
+
+  public get size(): number {
+    return this.queue.length;
+  }
+
+  public get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Queues a job, dropping the oldest one when the queue is full.
+   */
+  public push(job: J): void {
+    if (this.stopped) {
+      return;
+    }
+    this.queue.push(job);
+    while (this.queue.length > this.options.maxQueueLength) {
+      const dropped = this.queue.shift()!;
+      elizaLogger.warn(`[Pipeline] Queue full (${this.options.maxQueueLength}) => dropping oldest job`);
+      this.handlers.onDrop?.(dropped, "overflow");
+    }
+    this.pump();
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    this.queue = [];
+  }
+
+  private pump(): void {
+    while (!this.stopped && this.active < this.options.concurrency) {
+      const batch = this.takeNext();
+      if (!batch) {
+        return;
+      }
+      this.active++;
+      const work =
+        batch.length > 1 && this.handlers.processDigest
+          ? this.handlers.processDigest(batch)
+          : this.handlers.process(batch[0]);
+      work
+        .catch((err) => {
+          elizaLogger.error("[Pipeline] Job failed =>", err);
+        })
+        .finally(() => {
+          this.active--;
+          this.pump();
+        });
+    }
+  }
+
+  /**
+   * Returns the next job (or, in digest mode, every waiting job of the same channel),
+   * skipping stale ones.
+   */
+  private takeNext(): J[] | null {
+    this.dropStale();
+    const first = this.queue.shift();
+    if (!first) {
+      return null;
+    }
+    if (!this.options.digest || !this.handlers.processDigest || first.digestible === false) {
+      return [first];
+    }
+
+    const batch = [first];
+    this.queue = this.queue.filter((job) => {
+      if (
+        job.channelId === first.channelId &&
+        job.digestible !== false &&
+        batch.length < this.options.digestMaxMessages
+      ) {
+        batch.push(job);
+        return false;
+      }
+      return true;
+    });
+    if (batch.length > 1) {
+      elizaLogger.info(`[Pipeline] Digest => merging ${batch.length} messages for channel ${first.channelId}`);
+    }
+    return batch;
+  }
+
+  private dropStale(): void {
+    const cutoff = Date.now() - this.options.staleAfterMs;
+    this.queue = this.queue.filter((job) => {
+      if (job.receivedAt >= cutoff) {
+        return true;
+      }
+      elizaLogger.info(`[Pipeline] Dropping stale job (${Math.round((Date.now() - job.receivedAt) / 1000)}s old)`);
+      this.handlers.onDrop?.(job, "stale");
+      return false;
+    });
+  }
+}
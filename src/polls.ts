@@ -0,0 +1,373 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/polls.ts
+ *
+ * Polls and predictions
+ *
+ * This module handles:
+ *   - Starting, ending and reporting on polls (POST / PATCH / GET /polls)
+ *   - Starting, locking, resolving, cancelling and reporting on predictions
+ *     (POST / PATCH / GET /predictions)
+ *   - Checking titles, choices, outcomes and durations against Twitch's limits before
+ *     the call, so a bad request is answered in chat instead of with a 400
+ *   - Formatting choices and outcomes for chat, the event memories and the prompt
+ *
+ * Twitch only accepts these calls with the broadcaster's own token, so they work in
+ * the bot account's channel only (like the AutoMod check).
+ *
+ * Settings:
+ *   TWITCH_POLLS_ENABLED                "true" to register the poll / prediction actions and mod
+ *                                       commands and to subscribe to their result events
+ *   TWITCH_POLL_ALLOWED_ROLES           roles whose messages may make the agent run the actions
+ *                                       (broadcaster, moderator, vip, subscriber, everyone),
+ *                                       default "moderator"
+ *   TWITCH_POLL_DEFAULT_DURATION        poll duration when none is given, seconds, default 120
+ *   TWITCH_PREDICTION_DEFAULT_WINDOW    prediction window when none is given, seconds, default 120
+ *   TWITCH_POLL_ANNOUNCE_MODE           how poll / prediction events are announced: "llm"
+ *                                       (default, in the character's voice) | "template" | "none"
+ */
+
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { TwitchRole } from "./commands";
+import { EventResponseMode } from "./events";
+import {
+  HelixClient,
+  HelixError,
+  HelixPage,
+  HelixPoll,
+  HelixPollChoice,
+  HelixPrediction,
+  HelixPredictionOutcome,
+} from "./helix";
+import { getBooleanSetting, getListSetting, getNumberSetting, getStringSetting } from "./settings";
+
+/* ============================================================================
+   1) Types, Limits & Settings
+=========================================================================== */
+export const POLL_SCOPES = ["channel:manage:polls", "channel:manage:predictions"];
+
+/** Result events subscribed to when polls are enabled; the .begin / .progress events are opt-in. */
+export const POLL_EVENT_TYPES = ["channel.poll.end", "channel.prediction.lock", "channel.prediction.end"];
+
+export const POLL_LIMITS = { titleLength: 60, minChoices: 2, maxChoices: 5, choiceLength: 25, minSeconds: 15, maxSeconds: 1800 };
+export const PREDICTION_LIMITS = { titleLength: 45, minOutcomes: 2, maxOutcomes: 10, outcomeLength: 25, minSeconds: 30, maxSeconds: 1800 };
+
+export interface PollRequest {
+  broadcasterId: string;
+  title: string;
+  choices: string[];
+  durationSeconds?: number;
+}
+
+export interface PredictionRequest {
+  broadcasterId: string;
+  title: string;
+  outcomes: string[];
+  windowSeconds?: number;
+}
+
+/**
+ * Result of a poll / prediction operation; text is ready to post in chat.
+ */
+export interface PollOutcome {
+  ok: boolean;
+  text: string;
+}
+
+export interface PollSettings {
+  enabled: boolean;
+  allowedRoles: TwitchRole[];
+  defaultPollSeconds: number;
+  defaultPredictionSeconds: number;
+  announceMode: EventResponseMode;
+}
+
+const ROLES: TwitchRole[] = ["broadcaster", "moderator", "vip", "subscriber", "everyone"];
+
+export function loadPollSettings(runtime: IAgentRuntime): PollSettings {
+  const roles = getListSetting(runtime, "TWITCH_POLL_ALLOWED_ROLES").map((r) => r.toLowerCase());
+  const mode = getStringSetting(runtime, "TWITCH_POLL_ANNOUNCE_MODE", "llm").toLowerCase();
+  return {
+    enabled: getBooleanSetting(runtime, "TWITCH_POLLS_ENABLED", false),
+    allowedRoles: roles.length > 0 ? (roles.filter((r) => ROLES.includes(r as TwitchRole)) as TwitchRole[]) : ["moderator"],
+    defaultPollSeconds: getNumberSetting(runtime, "TWITCH_POLL_DEFAULT_DURATION", 120),
+    defaultPredictionSeconds: getNumberSetting(runtime, "TWITCH_PREDICTION_DEFAULT_WINDOW", 120),
+    announceMode: (["template", "llm", "none"].includes(mode) ? mode : "llm") as EventResponseMode,
+  };
+}
+
+/* ============================================================================
+   2) Validation & Formatting
+=========================================================================== */
+/**
+ * Returns what is wrong with the poll, or null when Twitch will accept it.
+ */
+export function validatePoll(title: string, choices: string[], durationSeconds: number): string | null {
+  const limits = POLL_LIMITS;
+  return (
+    checkTitle(title, limits.titleLength) ??
+    checkEntries("choices", choices, limits.minChoices, limits.maxChoices, limits.choiceLength) ??
+    checkSeconds("duration", durationSeconds, limits.minSeconds, limits.maxSeconds)
+  );
+}
+
+/**
+ * Returns what is wrong with the prediction, or null when Twitch will accept it.
+ */
+export function validatePrediction(title: string, outcomes: string[], windowSeconds: number): string | null {
+  const limits = PREDICTION_LIMITS;
+  return (
+    checkTitle(title, limits.titleLength) ??
+    checkEntries("outcomes", outcomes, limits.minOutcomes, limits.maxOutcomes, limits.outcomeLength) ??
+    checkSeconds("prediction window", windowSeconds, limits.minSeconds, limits.maxSeconds)
+  );
+}
+
+function checkTitle(title: string, maxLength: number): string | null {
+  if (!title) {
+    return "the title is missing";
+  }
+  return title.length > maxLength ? `the title is longer than ${maxLength} characters` : null;
+}
+
+function checkEntries(label: string, entries: string[], min: number, max: number, maxLength: number): string | null {
+  if (entries.length < min || entries.length > max) {
+    return `it needs ${min}-${max} ${label} (got ${entries.length})`;
+  }
+  if (entries.some((e) => !e)) {
+    return `one of the ${label} is empty`;
+  }
+  const tooLong = entries.find((e) => e.length > maxLength);
+  if (tooLong) {
+    return `"${tooLong}" is longer than ${maxLength} characters`;
+  }
+  const lower = entries.map((e) => e.toLowerCase());
+  return new Set(lower).size !== lower.length ? `the ${label} must be different` : null;
+}
+
+function checkSeconds(label: string, seconds: number, min: number, max: number): string | null {
+  return Number.isInteger(seconds) && seconds >= min && seconds <= max
+    ? null
+    : `the ${label} must be ${min}-${max} seconds`;
+}
+
+/**
+ * 'Yes' 12 votes (60%), 'No' 8 votes (40%); most votes first. Works for Helix polls
+ * and for channel.poll.* events, which use the same choice fields.
+ */
+export function formatPollChoices(choices: Partial<HelixPollChoice>[]): string {
+  const total = choices.reduce((sum, c) => sum + (c.votes ?? 0), 0);
+  return [...choices]
+    .sort((a, b) => (b.votes ?? 0) - (a.votes ?? 0))
+    .map((c) => {
+      const votes = c.votes ?? 0;
+      const share = total > 0 ? ` (${Math.round((votes / total) * 100)}%)` : "";
+      return `'${c.title}' ${votes} vote${votes === 1 ? "" : "s"}${share}`;
+    })
+    .join(", ");
+}
+
+/**
+ * 'Win' 5 users / 12000 points, 'Lose' 3 users / 800 points. Works for Helix predictions
+ * and for channel.prediction.* events.
+ */
+export function formatPredictionOutcomes(outcomes: Partial<HelixPredictionOutcome>[]): string {
+  return outcomes
+    .map((o) => `'${o.title}' ${o.users ?? 0} user${o.users === 1 ? "" : "s"} / ${o.channel_points ?? 0} points`)
+    .join(", ");
+}
+
+/* ============================================================================
+   3) TwitchPolls Class
+=========================================================================== */
+export class TwitchPolls {
+  constructor(
+    private helix: HelixClient,
+    private botUserId: string,
+    public readonly settings: PollSettings
+  ) {}
+
+  /**
+   * Polls and predictions can only be managed with the broadcaster's token.
+   */
+  public canManage(broadcasterId: string): boolean {
+    return broadcasterId === this.botUserId;
+  }
+
+  public async createPoll(request: PollRequest): Promise<PollOutcome> {
+    const title = request.title.trim();
+    const choices = request.choices.map((c) => c.trim());
+    const duration = request.durationSeconds ?? this.settings.defaultPollSeconds;
+    const problem = validatePoll(title, choices, duration);
+    if (problem) {
+      return { ok: false, text: `Can't start that poll: ${problem}.` };
+    }
+    return this.run("start the poll", request.broadcasterId, async () => {
+      const page = await this.helix.post<HelixPage<HelixPoll>>("/polls", {
+        broadcaster_id: request.broadcasterId,
+        title,
+        choices: choices.map((c) => ({ title: c })),
+        duration,
+      });
+      elizaLogger.info(`[TwitchPolls] Poll started => ${page?.data?.[0]?.id} "${title}" (${duration}s)`);
+      return `Poll started: ${title} (${choices.join(" / ")}), ${duration}s to vote.`;
+    });
+  }
+
+  /**
+   * Ends the active poll; archive also hides it from the channel.
+   */
+  public async endPoll(broadcasterId: string, archive = false): Promise<PollOutcome> {
+    return this.run("end the poll", broadcasterId, async () => {
+      const poll = await this.latestPoll(broadcasterId);
+      if (!poll || poll.status !== "ACTIVE") {
+        return null;
+      }
+      const page = await this.helix.patch<HelixPage<HelixPoll>>("/polls", {
+        broadcaster_id: broadcasterId,
+        id: poll.id,
+        status: archive ? "ARCHIVED" : "TERMINATED",
+      });
+      const ended = page?.data?.[0] ?? poll;
+      return `Poll ended: ${ended.title} => ${formatPollChoices(ended.choices)}.`;
+    }, "There is no active poll.");
+  }
+
+  public async pollResults(broadcasterId: string): Promise<PollOutcome> {
+    return this.run("get the poll", broadcasterId, async () => {
+      const poll = await this.latestPoll(broadcasterId);
+      if (!poll) {
+        return null;
+      }
+      const state = poll.status === "ACTIVE" ? "Poll running" : "Last poll";
+      return `${state}: ${poll.title} => ${formatPollChoices(poll.choices)}.`;
+    }, "There hasn't been a poll yet.");
+  }
+
+  public async createPrediction(request: PredictionRequest): Promise<PollOutcome> {
+    const title = request.title.trim();
+    const outcomes = request.outcomes.map((o) => o.trim());
+    const window = request.windowSeconds ?? this.settings.defaultPredictionSeconds;
+    const problem = validatePrediction(title, outcomes, window);
+    if (problem) {
+      return { ok: false, text: `Can't start that prediction: ${problem}.` };
+    }
+    return this.run("start the prediction", request.broadcasterId, async () => {
+      const page = await this.helix.post<HelixPage<HelixPrediction>>("/predictions", {
+        broadcaster_id: request.broadcasterId,
+        title,
+        outcomes: outcomes.map((o) => ({ title: o })),
+        prediction_window: window,
+      });
+      elizaLogger.info(`[TwitchPolls] Prediction started => ${page?.data?.[0]?.id} "${title}" (${window}s)`);
+      return `Prediction started: ${title} (${outcomes.join(" / ")}), ${window}s to predict.`;
+    });
+  }
+
+  public async lockPrediction(broadcasterId: string): Promise<PollOutcome> {
+    return this.run("lock the prediction", broadcasterId, async () => {
+      const prediction = await this.latestPrediction(broadcasterId);
+      if (!prediction || prediction.status !== "ACTIVE") {
+        return null;
+      }
+      await this.updatePrediction(broadcasterId, prediction.id, { status: "LOCKED" });
+      return `Predictions are locked: ${prediction.title}.`;
+    }, "There is no open prediction.");
+  }
+
+  /**
+   * Pays out the prediction. The winner is matched by outcome title (case-insensitive)
+   * or by its 1-based position.
+   */
+  public async resolvePrediction(broadcasterId: string, winner: string): Promise<PollOutcome> {
+    return this.run("resolve the prediction", broadcasterId, async () => {
+      const prediction = await this.latestPrediction(broadcasterId);
+      if (!prediction || (prediction.status !== "ACTIVE" && prediction.status !== "LOCKED")) {
+        return null;
+      }
+      const wanted = winner.trim().toLowerCase();
+      const outcome =
+        prediction.outcomes.find((o) => o.title.toLowerCase() === wanted) ??
+        (/^\d+$/.test(wanted) ? prediction.outcomes[Number(wanted) - 1] : undefined);
+      if (!outcome) {
+        return { ok: false, text: `No outcome '${winner}'. Outcomes: ${prediction.outcomes.map((o) => o.title).join(" / ")}.` };
+      }
+      await this.updatePrediction(broadcasterId, prediction.id, { status: "RESOLVED", winning_outcome_id: outcome.id });
+      return `Prediction resolved: ${prediction.title} => '${outcome.title}' wins.`;
+    }, "There is no prediction to resolve.");
+  }
+
+  /**
+   * Cancels the open or locked prediction; Twitch refunds every point.
+   */
+  public async cancelPrediction(broadcasterId: string): Promise<PollOutcome> {
+    return this.run("cancel the prediction", broadcasterId, async () => {
+      const prediction = await this.latestPrediction(broadcasterId);
+      if (!prediction || (prediction.status !== "ACTIVE" && prediction.status !== "LOCKED")) {
+        return null;
+      }
+      await this.updatePrediction(broadcasterId, prediction.id, { status: "CANCELED" });
+      return `Prediction cancelled, points refunded: ${prediction.title}.`;
+    }, "There is no prediction to cancel.");
+  }
+
+  public async predictionResults(broadcasterId: string): Promise<PollOutcome> {
+    return this.run("get the prediction", broadcasterId, async () => {
+      const prediction = await this.latestPrediction(broadcasterId);
+      if (!prediction) {
+        return null;
+      }
+      const winner = prediction.outcomes.find((o) => o.id === prediction.winning_outcome_id);
+      const state =
+        prediction.status === "RESOLVED" && winner
+          ? `resolved, '${winner.title}' won`
+          : prediction.status.toLowerCase();
+      return `Prediction (${state}): ${prediction.title} => ${formatPredictionOutcomes(prediction.outcomes)}.`;
+    }, "There hasn't been a prediction yet.");
+  }
+
+  private async latestPoll(broadcasterId: string): Promise<HelixPoll | undefined> {
+    const page = await this.helix.get<HelixPage<HelixPoll>>("/polls", { broadcaster_id: broadcasterId, first: 1 });
+    return page?.data?.[0];
+  }
+
+  private async latestPrediction(broadcasterId: string): Promise<HelixPrediction | undefined> {
+    const page = await this.helix.get<HelixPage<HelixPrediction>>("/predictions", {
+      broadcaster_id: broadcasterId,
+      first: 1,
+    });
+    return page?.data?.[0];
+  }
+
+  private async updatePrediction(broadcasterId: string, id: string, update: Record<string, string>): Promise<void> {
+    await this.helix.patch("/predictions", { broadcaster_id: broadcasterId, id, ...update });
+  }
+
+  /**
+   * Runs an operation in the bot's own channel. The operation returns the chat text (or a
+   * refusal), or null when there is nothing to act on (answered with `nothing`).
+   */
+  private async run(
+    label: string,
+    broadcasterId: string,
+    operation: () => Promise<string | PollOutcome | null>,
+    nothing = "Nothing to do."
+  ): Promise<PollOutcome> {
+    if (!this.canManage(broadcasterId)) {
+      return { ok: false, text: "I can only run polls and predictions in my own channel." };
+    }
+    try {
+      const result = await operation();
+      if (result === null) {
+        return { ok: false, text: nothing };
+      }
+      return typeof result === "string" ? { ok: true, text: result } : result;
+    } catch (err) {
+      if (!(err instanceof HelixError)) {
+        throw err;
+      }
+      // 400: another poll / prediction is already running; 403: not a partner or affiliate
+      elizaLogger.error(`[TwitchPolls] Could not ${label} =>`, err.message);
+      return { ok: false, text: `Could not ${label}${err.twitchMessage ? `: ${err.twitchMessage}` : "."}` };
+    }
+  }
+}
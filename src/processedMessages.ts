@@ -0,0 +1,181 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/processedMessages.ts
+ *
+ * Persistent, idempotent chat message processing
+ *
+ * Twitch may deliver a notification more than once (reconnects, handovers),
+ * and the client may restart in the middle of a stream. This module handles:
+ *   - Deterministic memory ids derived from Twitch's message_id
+ *   - A per-message status ("received" / "processed") kept in the runtime cache
+ *     (database or filesystem backed) with a TTL, in front of a small in-memory map;
+ *     "processed" is set once the message has its final outcome (answered, ignored,
+ *     filtered, run as a !command or dropped by the reply pipeline)
+ *   - A "processed" marker (twitchProcessed) stored on the memory content, which outlives
+ *     the cache entry and lets state filtering work after a restart
+ *   - Re-processing messages an earlier run received but never finished (e.g. it
+ *     crashed while generating the reply)
+ *   - Falling back to the message memory itself when the cache entry is gone
+ *
+ * Memories cannot be updated in place, so the marker is written by re-creating the
+ * memory. The cache status is written first: if the process dies in between, the
+ * message is still not processed twice.
+ *
+ * Settings:
+ *   TWITCH_DEDUP_TTL_HOURS   how long message ids are remembered, default 24
+ */
+
+import { elizaLogger, IAgentRuntime, Memory, stringToUuid, UUID } from "@elizaos/core";
+import { getNumberSetting } from "./settings";
+
+/* ============================================================================
+   1) Types & Helpers
+=========================================================================== */
+export type MessageStatus = "received" | "processed";
+
+const MAX_IN_MEMORY = 1000;
+
+/**
+ * Memory id of a chat message; the same Twitch message always maps to the same memory.
+ */
+export function chatMemoryId(messageId: string): UUID {
+  return stringToUuid(`twitch-msg-${messageId}`);
+}
+
+/**
+ * Memory id of a channel event, from the EventSub message_id of its notification.
+ */
+export function eventMemoryId(messageId: string): UUID {
+  return stringToUuid(`twitch-event-${messageId}`);
+}
+
+/**
+ * Memory id of the agent's reply to a chat message.
+ */
+export function replyMemoryId(messageId: string): UUID {
+  return stringToUuid(`twitch-reply-${messageId}`);
+}
+
+/* ============================================================================
+   2) ProcessedMessageStore Class
+=========================================================================== */
+export class ProcessedMessageStore {
+  private recent = new Map<string, MessageStatus>();
+  private ttlMs: number;
+
+  constructor(private runtime: IAgentRuntime) {
+    this.ttlMs = Math.max(1, getNumberSetting(runtime, "TWITCH_DEDUP_TTL_HOURS", 24)) * 3600000;
+  }
+
+  private key(messageId: string): string {
+    return `twitch/messages/${this.runtime.agentId}/${messageId}`;
+  }
+
+  /**
+   * Claims a message for processing. Returns false when it was seen before in this run
+   * (in-memory), or was processed in an earlier run (cache, or the marker on its memory:
+   * a chat message, unless another memory id is given). A message an earlier run only
+   * received is claimed again.
+   */
+  public async claim(messageId: string, memoryId: UUID = chatMemoryId(messageId)): Promise<boolean> {
+    if (this.recent.has(messageId)) {
+      return false;
+    }
+    // Set synchronously so a duplicate arriving while we await below is rejected too
+    this.remember(messageId, "received");
+
+    const cached = await this.runtime.cacheManager.get<MessageStatus>(this.key(messageId)).catch(() => undefined);
+    if (cached === "processed") {
+      this.remember(messageId, cached);
+      return false;
+    }
+    if (cached === "received") {
+      elizaLogger.info(`[TwitchDedup] Message ${messageId} was received but not processed earlier => processing again`);
+      return true;
+    }
+    const existing = await this.runtime.messageManager.getMemoryById(memoryId).catch(() => null);
+    if (existing?.content.twitchProcessed) {
+      // Older than the cache TTL (or the cache was lost)
+      this.remember(messageId, "processed");
+      await this.persist(messageId, "processed");
+      return false;
+    }
+    if (existing) {
+      elizaLogger.info(`[TwitchDedup] Message ${messageId} is stored but was not processed => processing again`);
+    }
+
+    await this.persist(messageId, "received");
+    return true;
+  }
+
+  /**
+   * Records the final outcome of a message: in the cache and, when its memory is given,
+   * as the marker on the memory.
+   */
+  public async markProcessed(messageId: string, memory?: Memory): Promise<void> {
+    this.remember(messageId, "processed");
+    await this.persist(messageId, "processed");
+    if (memory) {
+      await markMemoryProcessed(this.runtime, memory);
+    }
+  }
+
+  /**
+   * Status of a message seen by this run; undefined for unknown messages.
+   */
+  public status(messageId: string): MessageStatus | undefined {
+    return this.recent.get(messageId);
+  }
+
+  private remember(messageId: string, status: MessageStatus): void {
+    this.recent.delete(messageId);
+    this.recent.set(messageId, status);
+    if (this.recent.size > MAX_IN_MEMORY) {
+      const oldest = this.recent.keys().next().value;
+      if (typeof oldest === "string") {
+        this.recent.delete(oldest);
+      }
+    }
+  }
+
+  private async persist(messageId: string, status: MessageStatus): Promise<void> {
+    try {
+      await this.runtime.cacheManager.set(this.key(messageId), status, { expires: Date.now() + this.ttlMs });
+    } catch (err) {
+      elizaLogger.warn(`[TwitchDedup] Could not persist status of message ${messageId} =>`, err);
+    }
+  }
+}
+
+/* ============================================================================
+   3) Processed Marker
+=========================================================================== */
+/**
+ * True when the memory carries the "processed" marker.
+ */
+export function isMemoryProcessed(memory: Memory): boolean {
+  return memory.content.twitchProcessed === true;
+}
+
+/**
+ * Stores the "processed" marker on the message memory by re-creating it under the same
+ * id. When the new memory cannot be written the original one is put back.
+ */
+export async function markMemoryProcessed(runtime: IAgentRuntime, memory: Memory): Promise<void> {
+  if (!memory.id || isMemoryProcessed(memory)) {
+    return;
+  }
+  const updated: Memory = { ...memory, content: { ...memory.content, twitchProcessed: true } };
+  try {
+    await runtime.messageManager.removeMemory(memory.id);
+  } catch (err) {
+    elizaLogger.warn(`[TwitchDedup] Could not mark memory ${memory.id} as processed =>`, err);
+    return;
+  }
+  try {
+    await runtime.messageManager.createMemory(updated);
+    memory.content = updated.content;
+  } catch (err) {
+    elizaLogger.warn(`[TwitchDedup] Could not mark memory ${memory.id} as processed => restoring it`, err);
+    await runtime.messageManager.createMemory(memory).catch(() => undefined);
+  }
+}
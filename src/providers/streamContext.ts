@@ -0,0 +1,30 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/providers/streamContext.ts
+ *
+ * Eliza provider that tells the character about the Twitch stream it is in
+ *
+ * Uses the channel stored on the memory content by the client and the data
+ * cached by StreamContextService, so viewers asking "what game is this?" or
+ * "how long have you been live?" get a real answer instead of a made-up one.
+ * Also adds the recap of the last stream, when one was stored.
+ */
+
+import { IAgentRuntime, Memory, Provider, stringToUuid } from "@elizaos/core";
+import { channelRoomKey } from "../channels";
+import { StreamContextService, describeStream } from "../streamContext";
+import { getLastStreamSummary } from "../streamLifecycle";
+
+export function createStreamContextProvider(streams: StreamContextService): Provider {
+  return {
+    get: async (runtime: IAgentRuntime, message: Memory) => {
+      const content = message.content as Record<string, unknown>;
+      if (content.source !== "twitch" || typeof content.twitchBroadcasterId !== "string") {
+        return "";
+      }
+      const info = streams.get(content.twitchBroadcasterId);
+      const lastRecap = await getLastStreamSummary(runtime, stringToUuid(channelRoomKey(content.twitchBroadcasterId)));
+      const lines = [info ? describeStream(info) : "", lastRecap ? `Last stream: ${lastRecap}` : ""].filter(Boolean);
+      return lines.length > 0 ? `# Twitch stream\n${lines.join("\n")}` : "";
+    },
+  };
+}
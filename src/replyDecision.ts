@@ -0,0 +1,243 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/replyDecision.ts
+ *
+ * "Should respond" layer for incoming chat
+ *
+ * Decides, per message, whether the bot replies:
+ *   1. @mentions of the bot and threaded replies to the bot are always answered
+ *      (they skip both cooldowns)
+ *   2. Per-user and per-channel (global) cooldowns
+ *   3. Keyword (whole word) / regex triggers
+ *   4. Otherwise: the optional LLM shouldRespond check, or a random ambient roll
+ *
+ * A message that may be answered reserves both cooldowns right away, so a burst of
+ * messages cannot all pass the checks while the first reply is still being generated.
+ * The caller releases the reservation when no reply comes of it (releaseReply).
+ *
+ * Settings:
+ *   TWITCH_REPLY_TRIGGERS        keywords or /regex/flags, comma-separated or JSON array
+ *                                (the character name is always a trigger)
+ *   TWITCH_REPLY_PROBABILITY     ambient reply probability 0..1 (default 0.1)
+ *   TWITCH_USER_COOLDOWN_SECONDS per-user cooldown (default 30)
+ *   TWITCH_GLOBAL_COOLDOWN_SECONDS per-channel cooldown (default 5)
+ *   TWITCH_LLM_SHOULD_RESPOND    "true" to ask the model instead of rolling the dice
+ */
+
+import {
+  elizaLogger,
+  IAgentRuntime,
+  State,
+  ModelClass,
+  composeContext,
+  generateShouldRespond,
+} from "@elizaos/core";
+import { getBooleanSetting, getListSetting, getNumberSetting } from "./settings";
+import { getTwitchTemplate, twitchShouldRespondTemplate } from "./templates";
+import { TwitchChatMessage } from "./types";
+import { escapeRegExp, wholeWordMatcher } from "./util";
+
+/* ============================================================================
+   1) Types
+=========================================================================== */
+const MAX_TRACKED_USERS = 5000;
+
+export interface ReplyDecisionOptions {
+  triggers: string[];
+  triggerPatterns: RegExp[];
+  ambientProbability: number;
+  userCooldownMs: number;
+  globalCooldownMs: number;
+  useLlmShouldRespond: boolean;
+}
+
+/**
+ * "respond" and "ignore" are final; "ask-llm" means the caller must run
+ * confirmWithLlm() once the state for the message is composed.
+ */
+export interface ReplyDecision {
+  verdict: "respond" | "ignore" | "ask-llm";
+  reason: string;
+  /** Cooldowns taken by evaluate(); undone by releaseReply(). */
+  reservation?: CooldownReservation;
+}
+
+interface CooldownReservation {
+  at: number;
+  previousUser?: number;
+  previousChannel?: number;
+}
+
+/* ============================================================================
+   2) Settings
+=========================================================================== */
+function parseTriggers(entries: string[]): { triggers: string[]; triggerPatterns: RegExp[] } {
+  const triggers: string[] = [];
+  const triggerPatterns: RegExp[] = [];
+  for (const entry of entries) {
+    const match = entry.match(/^\/(.+)\/([a-z]*)$/);
+    if (!match) {
+      triggers.push(entry.toLowerCase());
+      continue;
+    }
+    try {
+      triggerPatterns.push(new RegExp(match[1], match[2] || "i"));
+    } catch (err) {
+      elizaLogger.warn(`[ReplyDecision] Invalid trigger regex ${entry} =>`, err);
+    }
+  }
+  return { triggers, triggerPatterns };
+}
+
+export function loadReplyDecisionOptions(runtime: IAgentRuntime): ReplyDecisionOptions {
+  const { triggers, triggerPatterns } = parseTriggers(getListSetting(runtime, "TWITCH_REPLY_TRIGGERS"));
+  if (runtime.character.name) {
+    triggers.push(runtime.character.name.toLowerCase());
+  }
+  return {
+    triggers,
+    triggerPatterns,
+    ambientProbability: Math.min(1, Math.max(0, getNumberSetting(runtime, "TWITCH_REPLY_PROBABILITY", 0.1))),
+    userCooldownMs: getNumberSetting(runtime, "TWITCH_USER_COOLDOWN_SECONDS", 30) * 1000,
+    globalCooldownMs: getNumberSetting(runtime, "TWITCH_GLOBAL_COOLDOWN_SECONDS", 5) * 1000,
+    useLlmShouldRespond: getBooleanSetting(runtime, "TWITCH_LLM_SHOULD_RESPOND", false),
+  };
+}
+
+/* ============================================================================
+   3) ReplyDecisionEngine Class
+=========================================================================== */
+export class ReplyDecisionEngine {
+  private lastUserReply = new Map<string, number>();
+  private lastChannelReply = new Map<string, number>();
+  private mentionPattern: RegExp;
+  private keywordMatchers: Array<{ keyword: string; pattern: RegExp }>;
+
+  constructor(
+    private runtime: IAgentRuntime,
+    private bot: { userId: string; login: string },
+    private options: ReplyDecisionOptions = loadReplyDecisionOptions(runtime)
+  ) {
+    this.mentionPattern = new RegExp(`(^|[^\\w@])@${escapeRegExp(bot.login)}(?!\\w)`, "i");
+    this.keywordMatchers = options.triggers.map((keyword) => ({ keyword, pattern: wholeWordMatcher(keyword) }));
+  }
+
+  /**
+   * Cheap, synchronous checks that run before any state is composed. A "respond" or
+   * "ask-llm" verdict reserves the cooldowns for the message's sender and channel.
+   */
+  public evaluate(msg: TwitchChatMessage): ReplyDecision {
+    const decision = this.check(msg);
+    if (decision.verdict !== "ignore") {
+      decision.reservation = this.reserve(msg.broadcasterId, msg.chatterId);
+    }
+    return decision;
+  }
+
+  private check(msg: TwitchChatMessage): ReplyDecision {
+    const now = Date.now();
+    const userKey = `${msg.broadcasterId}:${msg.chatterId}`;
+    const sinceUser = now - (this.lastUserReply.get(userKey) ?? 0);
+    const sinceChannel = now - (this.lastChannelReply.get(msg.broadcasterId) ?? 0);
+
+    if (msg.mentions.some((m) => m.userId === this.bot.userId) || this.mentionPattern.test(msg.text)) {
+      return { verdict: "respond", reason: "mention" };
+    }
+    if (msg.reply?.parentUserId === this.bot.userId) {
+      return { verdict: "respond", reason: "reply to bot" };
+    }
+    if (sinceUser < this.options.userCooldownMs) {
+      return { verdict: "ignore", reason: `user cooldown (${Math.ceil((this.options.userCooldownMs - sinceUser) / 1000)}s left)` };
+    }
+    if (sinceChannel < this.options.globalCooldownMs) {
+      return { verdict: "ignore", reason: "global cooldown" };
+    }
+
+    const keyword = this.keywordMatchers.find((k) => k.pattern.test(msg.text));
+    if (keyword) {
+      return { verdict: "respond", reason: `trigger "${keyword.keyword}"` };
+    }
+    const pattern = this.options.triggerPatterns.find((re) => re.test(msg.text));
+    if (pattern) {
+      return { verdict: "respond", reason: `trigger ${pattern}` };
+    }
+
+    if (this.options.useLlmShouldRespond) {
+      return { verdict: "ask-llm", reason: "llm shouldRespond" };
+    }
+    if (Math.random() < this.options.ambientProbability) {
+      return { verdict: "respond", reason: "ambient" };
+    }
+    return { verdict: "ignore", reason: "no trigger" };
+  }
+
+  /**
+   * Asks the model whether to reply, using twitchShouldRespondTemplate.
+   */
+  public async confirmWithLlm(state: State): Promise<boolean> {
+    const context = composeContext({
+      state,
+      template: getTwitchTemplate(this.runtime, "twitchShouldRespondTemplate", twitchShouldRespondTemplate),
+    });
+    try {
+      const answer = await generateShouldRespond({ runtime: this.runtime, context, modelClass: ModelClass.SMALL });
+      elizaLogger.debug(`[ReplyDecision] LLM shouldRespond => ${answer}`);
+      return answer === "RESPOND";
+    } catch (err) {
+      elizaLogger.error("[ReplyDecision] LLM shouldRespond failed =>", err);
+      return false;
+    }
+  }
+
+  /**
+   * Starts the cooldowns once a reply was sent.
+   */
+  public recordReply(broadcasterId: string, chatterId: string): void {
+    this.reserve(broadcasterId, chatterId);
+  }
+
+  /**
+   * Gives back the cooldowns reserved by evaluate() when the message was not answered
+   * (generation failed or declined, or the job was dropped). Cooldowns started since
+   * then by another reply are kept.
+   */
+  public releaseReply(msg: TwitchChatMessage, decision: ReplyDecision): void {
+    const reservation = decision.reservation;
+    if (!reservation) {
+      return;
+    }
+    decision.reservation = undefined;
+    restore(this.lastUserReply, `${msg.broadcasterId}:${msg.chatterId}`, reservation.at, reservation.previousUser);
+    restore(this.lastChannelReply, msg.broadcasterId, reservation.at, reservation.previousChannel);
+  }
+
+  private reserve(broadcasterId: string, chatterId: string): CooldownReservation {
+    const now = Date.now();
+    const userKey = `${broadcasterId}:${chatterId}`;
+    const reservation: CooldownReservation = {
+      at: now,
+      previousUser: this.lastUserReply.get(userKey),
+      previousChannel: this.lastChannelReply.get(broadcasterId),
+    };
+    this.lastUserReply.set(userKey, now);
+    this.lastChannelReply.set(broadcasterId, now);
+    if (this.lastUserReply.size > MAX_TRACKED_USERS) {
+      for (const [key, at] of this.lastUserReply) {
+        if (now - at >= this.options.userCooldownMs) {
+          this.lastUserReply.delete(key);
+        }
+      }
+    }
+    return reservation;
+  }
+}
+
+function restore(map: Map<string, number>, key: string, reservedAt: number, previous: number | undefined): void {
+  if (map.get(key) !== reservedAt) {
+    return;
+  }
+  if (previous === undefined) {
+    map.delete(key);
+  } else {
+    map.set(key, previous);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/sanitizer.ts
+ *
+ * LLM output sanitizer for Twitch chat
+ *
+ * Reasoning models (e.g. deepseek-r1) and JSON-prompted replies often come back
+ * with extra baggage. Before a reply is sent, this module:
+ *   - Strips <think>...</think> reasoning blocks (also unterminated ones)
+ *   - Recovers the `text` field from (malformed) JSON / JSON5 replies
+ *   - Removes markdown (code fences, emphasis, headings, links, list markers)
+ *   - Neutralizes leading "/" or "." so Twitch does not read the reply as a chat command
+ *   - Collapses newlines into single spaces
+ *   - Enforces a maximum length, cutting at a sentence or word boundary
+ *
+ * A reply that ends up empty or without any letters/digits is reported as garbage
+ * (null) so the caller can retry generation.
+ *
+ * Settings:
+ *   TWITCH_MAX_REPLY_LENGTH   default 500 (one chat message)
+ *   TWITCH_LLM_RETRIES        retries on empty/garbage output, default 1
+ */
+
+import JSON5 from "json5";
+import { IAgentRuntime } from "@elizaos/core";
+import { getNumberSetting } from "./settings";
+import { TWITCH_MAX_MESSAGE_LENGTH } from "./sendQueue";
+
+/* ============================================================================
+   1) Types & Settings
+=========================================================================== */
+export interface SanitizerOptions {
+  maxLength: number;
+  retries: number;
+}
+
+export function loadSanitizerOptions(runtime: IAgentRuntime): SanitizerOptions {
+  return {
+    maxLength: Math.max(20, Math.floor(getNumberSetting(runtime, "TWITCH_MAX_REPLY_LENGTH", TWITCH_MAX_MESSAGE_LENGTH))),
+    retries: Math.max(0, Math.floor(getNumberSetting(runtime, "TWITCH_LLM_RETRIES", 1))),
+  };
+}
+
+/* ============================================================================
+   2) Sanitizer
+=========================================================================== */
+/**
+ * Turns raw model output into a single chat line, or null when nothing usable is left.
+ */
+export function sanitizeChatReply(raw: string | undefined, maxLength = TWITCH_MAX_MESSAGE_LENGTH): string | null {
+  if (!raw) {
+    return null;
+  }
+
+  let text = stripReasoning(raw);
+  text = recoverJsonText(text);
+  text = stripMarkdown(text);
+  text = text.replace(/\s*[\r\n]+\s*/g, " ").replace(/[ \t]{2,}/g, " ").trim();
+  text = stripWrappingQuotes(text);
+  text = neutralizeCommand(text);
+  text = truncate(text, maxLength);
+
+  return isGarbage(text) ? null : text;
+}
+
+function stripReasoning(text: string): string {
+  let out = text.replace(/<(think|thinking|reasoning)>[\s\S]*?<\/\1>/gi, "");
+  // A closing tag without an opening one: the reasoning is everything before it
+  const orphanClose = out.search(/<\/(think|thinking|reasoning)>/i);
+  if (orphanClose !== -1) {
+    out = out.slice(out.indexOf(">", orphanClose) + 1);
+  }
+  // An opening tag that was never closed: the model ran out of tokens while thinking
+  const orphanOpen = out.search(/<(think|thinking|reasoning)>/i);
+  if (orphanOpen !== -1) {
+    out = out.slice(0, orphanOpen);
+  }
+  return out.trim();
+}
+
+function recoverJsonText(text: string): string {
+  const unfenced = text.replace(/^```(?:json5?|javascript)?\s*([\s\S]*?)\s*```$/i, "$1").trim();
+  const start = unfenced.indexOf("{");
+  if (start === -1 || !/["']?text["']?\s*:/.test(unfenced)) {
+    return unfenced;
+  }
+
+  const end = unfenced.lastIndexOf("}");
+  if (end > start) {
+    try {
+      const parsed = JSON5.parse(unfenced.slice(start, end + 1));
+      if (typeof parsed?.text === "string") {
+        return parsed.text;
+      }
+    } catch {
+      // fall through to the regex recovery below
+    }
+  }
+
+  // Unterminated or otherwise broken JSON: pull the text value out directly
+  const match = unfenced.match(/["']?text["']?\s*:\s*(["'])((?:\\.|(?!\1)[^\\])*)(?:\1|$)/);
+  if (match) {
+    return match[2].replace(/\\n/g, " ").replace(/\\(["'\\])/g, "$1");
+  }
+  return unfenced;
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[a-z0-9]*\s*/gi, "")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/!?\[([^\]]*)\]\(([^)]*)\)/g, "$1 ($2)")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[\s(])[*_]([^*_\n]+)[*_](?=[\s).,!?]|$)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, "");
+}
+
+function stripWrappingQuotes(text: string): string {
+  const match = text.match(/^(["“'])([\s\S]*)(["”'])$/);
+  return match && !match[2].includes(match[1]) ? match[2].trim() : text;
+}
+
+/**
+ * Twitch treats chat lines starting with "/" or "." as commands (/ban, .timeout, ...).
+ */
+function neutralizeCommand(text: string): string {
+  return text.replace(/^[\s/.\\]+/, "").trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength - 1);
+  const sentenceEnd = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf("! "), cut.lastIndexOf("? "));
+  if (sentenceEnd > maxLength / 2) {
+    return cut.slice(0, sentenceEnd + 1);
+  }
+  const wordEnd = cut.lastIndexOf(" ");
+  return (wordEnd > maxLength / 2 ? cut.slice(0, wordEnd) : cut).trimEnd() + "…";
+}
+
+function isGarbage(text: string): boolean {
+  if (!/[\p{L}\p{N}]/u.test(text)) {
+    return true;
+  }
+  // Leftover JSON that could not be recovered
+  return /^[{[]/.test(text) && /[}\]]$/.test(text);
+}
@@ -0,0 +1,227 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/scheduler.ts
+ *
+ * Proactive messages: timers, idle chat and announcements
+ *
+ * The bot otherwise only reacts to chat. This scheduler adds:
+ *   - Recurring timed messages per channel, picked from a static pool or generated
+ *     by the model from a topic list
+ *   - An "idle chat" message when chat has been quiet for N minutes while live
+ *   - Optional announcements (POST /chat/announcements) in a given colour
+ *
+ * Every interval gets a random jitter so messages do not land like clockwork.
+ * The client sends everything through its regular send path (safety filter,
+ * rate-limited send queue).
+ *
+ * Settings (usually in the character's settings):
+ *   TWITCH_SCHEDULE                 JSON5 array of timers, e.g.
+ *                                   [{ id: "socials", intervalMinutes: 30, jitterMinutes: 5,
+ *                                      messages: ["Follow on X: ..."], announce: true, color: "purple" },
+ *                                    { id: "trivia", intervalMinutes: 45, topics: ["space facts"] }]
+ *                                   Optional per timer: channels (broadcaster ids), liveOnly (default true)
+ *   TWITCH_IDLE_CHAT_MINUTES        quiet time before an idle-chat message, 0 = off (default)
+ *   TWITCH_IDLE_CHAT_JITTER_MINUTES random extra wait, default 2
+ *   TWITCH_IDLE_CHAT_TOPICS         topics for idle-chat messages (comma-separated or JSON array)
+ */
+
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { AnnouncementColor } from "./sendQueue";
+import { getJsonSetting, getListSetting, getNumberSetting } from "./settings";
+
+/* ============================================================================
+   1) Types & Settings
+=========================================================================== */
+export interface ScheduledMessageConfig {
+  id?: string;
+  /** Broadcaster ids; defaults to every enabled channel. */
+  channels?: string[];
+  intervalMinutes: number;
+  jitterMinutes?: number;
+  /** Static pool; one message is picked at random. */
+  messages?: string[];
+  /** Topics the model writes about, used when no static pool is given. */
+  topics?: string[];
+  announce?: boolean;
+  color?: AnnouncementColor;
+  /** Only post while the channel is live (default true). */
+  liveOnly?: boolean;
+}
+
+export interface SchedulerSettings {
+  timers: ScheduledMessageConfig[];
+  idleChatMs: number;
+  idleJitterMs: number;
+  idleTopics: string[];
+}
+
+export const ANNOUNCEMENT_SCOPES = ["moderator:manage:announcements"];
+
+const ANNOUNCEMENT_COLORS: AnnouncementColor[] = ["primary", "blue", "green", "orange", "purple"];
+const IDLE_CHECK_INTERVAL_MS = 30000;
+
+export function loadSchedulerSettings(runtime: IAgentRuntime): SchedulerSettings {
+  const raw = getJsonSetting<ScheduledMessageConfig[]>(runtime, "TWITCH_SCHEDULE", []);
+  const timers: ScheduledMessageConfig[] = [];
+  for (const [index, timer] of (Array.isArray(raw) ? raw : []).entries()) {
+    const id = timer.id ?? `timer-${index + 1}`;
+    if (!(Number(timer.intervalMinutes) > 0) || (!timer.messages?.length && !timer.topics?.length)) {
+      elizaLogger.warn(`[TwitchScheduler] Timer "${id}" needs intervalMinutes > 0 and messages or topics; ignored`);
+      continue;
+    }
+    if (timer.color && !ANNOUNCEMENT_COLORS.includes(timer.color)) {
+      elizaLogger.warn(`[TwitchScheduler] Timer "${id}" has unknown colour "${timer.color}"; using primary`);
+    }
+    timers.push({
+      ...timer,
+      id,
+      color: timer.color && ANNOUNCEMENT_COLORS.includes(timer.color) ? timer.color : "primary",
+    });
+  }
+
+  return {
+    timers,
+    idleChatMs: Math.max(0, getNumberSetting(runtime, "TWITCH_IDLE_CHAT_MINUTES", 0)) * 60000,
+    idleJitterMs: Math.max(0, getNumberSetting(runtime, "TWITCH_IDLE_CHAT_JITTER_MINUTES", 2)) * 60000,
+    idleTopics: getListSetting(runtime, "TWITCH_IDLE_CHAT_TOPICS"),
+  };
+}
+
+/**
+ * What the scheduler needs from the client.
+ */
+export interface SchedulerHost {
+  /** Enabled broadcaster ids. */
+  channels: () => string[];
+  /** Live state, undefined when unknown. */
+  isLive: (broadcasterId: string) => boolean | undefined;
+  isMuted: (broadcasterId: string) => boolean;
+  /** Epoch milliseconds of the last chat message from a viewer. */
+  lastChatAt: (broadcasterId: string) => number | undefined;
+  /** Generates a proactive message about the topic; null when nothing usable came back. */
+  generate: (broadcasterId: string, kind: "scheduled" | "idle", topic: string) => Promise<string | null>;
+  send: (broadcasterId: string, text: string, announcementColor?: AnnouncementColor) => Promise<void>;
+}
+
+/* ============================================================================
+   2) TwitchScheduler Class
+=========================================================================== */
+export class TwitchScheduler {
+  private timers = new Set<NodeJS.Timeout>();
+  private idleTimer: NodeJS.Timeout | null = null;
+  /** Per channel: the earliest time the next idle-chat message may be posted. */
+  private nextIdleAt = new Map<string, number>();
+  private lastPicked = new Map<string, string>();
+  private running = false;
+  /** Stands in for the last chat message until the first one arrives. */
+  private startedAt = 0;
+
+  constructor(
+    private host: SchedulerHost,
+    private settings: SchedulerSettings
+  ) {}
+
+  public start(): void {
+    this.stop();
+    this.running = true;
+    this.startedAt = Date.now();
+    for (const timer of this.settings.timers) {
+      for (const broadcasterId of timer.channels ?? this.host.channels()) {
+        this.scheduleTimer(timer, broadcasterId);
+      }
+    }
+    if (this.settings.idleChatMs > 0) {
+      this.idleTimer = setInterval(() => void this.checkIdle(), IDLE_CHECK_INTERVAL_MS);
+    }
+    elizaLogger.info(
+      `[TwitchScheduler] Started => ${this.settings.timers.length} timer(s), idle chat ${
+        this.settings.idleChatMs > 0 ? `after ${this.settings.idleChatMs / 60000} min` : "off"
+      }`
+    );
+  }
+
+  public stop(): void {
+    this.running = false;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private scheduleTimer(timer: ScheduledMessageConfig, broadcasterId: string): void {
+    if (!this.running) {
+      return;
+    }
+    const delay = timer.intervalMinutes * 60000 + Math.random() * (timer.jitterMinutes ?? 0) * 60000;
+    const handle = setTimeout(async () => {
+      this.timers.delete(handle);
+      await this.runTimer(timer, broadcasterId).catch((err) => {
+        elizaLogger.error(`[TwitchScheduler] Timer "${timer.id}" failed in ${broadcasterId} =>`, err);
+      });
+      this.scheduleTimer(timer, broadcasterId);
+    }, delay);
+    this.timers.add(handle);
+  }
+
+  private async runTimer(timer: ScheduledMessageConfig, broadcasterId: string): Promise<void> {
+    if (this.host.isMuted(broadcasterId) || ((timer.liveOnly ?? true) && this.host.isLive(broadcasterId) === false)) {
+      elizaLogger.debug(`[TwitchScheduler] Timer "${timer.id}" skipped in ${broadcasterId} (muted or offline)`);
+      return;
+    }
+
+    const key = `${timer.id}:${broadcasterId}`;
+    const text = timer.messages?.length
+      ? this.pick(key, timer.messages)
+      : await this.host.generate(broadcasterId, "scheduled", this.pick(key, timer.topics!));
+    if (!text) {
+      return;
+    }
+    elizaLogger.info(`[TwitchScheduler] Timer "${timer.id}" => ${broadcasterId}`);
+    await this.host.send(broadcasterId, text, timer.announce ? timer.color : undefined);
+  }
+
+  /**
+   * Posts an idle-chat message in live channels where nobody chatted for the configured time.
+   */
+  private async checkIdle(): Promise<void> {
+    const now = Date.now();
+    for (const broadcasterId of this.host.channels()) {
+      const lastChatAt = this.host.lastChatAt(broadcasterId) ?? this.startedAt;
+      const nextIdleAt = this.nextIdleAt.get(broadcasterId) ?? 0;
+      if (
+        this.host.isLive(broadcasterId) !== true ||
+        this.host.isMuted(broadcasterId) ||
+        now - lastChatAt < this.settings.idleChatMs ||
+        now < nextIdleAt
+      ) {
+        continue;
+      }
+      // One idle message per quiet period, then wait a full interval (plus jitter) again
+      this.nextIdleAt.set(broadcasterId, now + this.settings.idleChatMs + Math.random() * this.settings.idleJitterMs);
+
+      const topic = this.settings.idleTopics.length > 0 ? this.pick(`idle:${broadcasterId}`, this.settings.idleTopics) : "";
+      try {
+        const text = await this.host.generate(broadcasterId, "idle", topic);
+        if (text) {
+          elizaLogger.info(`[TwitchScheduler] Idle chat => ${broadcasterId}`);
+          await this.host.send(broadcasterId, text);
+        }
+      } catch (err) {
+        elizaLogger.error(`[TwitchScheduler] Idle chat failed in ${broadcasterId} =>`, err);
+      }
+    }
+  }
+
+  /**
+   * Random pick from a pool, avoiding the previous pick when possible.
+   */
+  private pick(key: string, pool: string[]): string {
+    const candidates = pool.length > 1 ? pool.filter((p) => p !== this.lastPicked.get(key)) : pool;
+    const choice = candidates[Math.floor(Math.random() * candidates.length)];
+    this.lastPicked.set(key, choice);
+    return choice;
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/sendQueue.ts
+ *
+ * Outbound chat queue for the Helix Chat API
+ *
+ * This module handles:
+ *   - One FIFO queue per channel, drained sequentially
+ *   - Twitch chat rate limits (20 msgs / 30s as a regular user, 100 msgs / 30s
+ *     as a moderator or broadcaster) using a sliding window. The regular limit counts
+ *     every message the account sends, so that window is shared by all channels; the
+ *     moderator limit is kept per channel.
+ *   - Splitting long replies into <= 500 char chunks at sentence boundaries
+ *   - Retrying on HTTP 429 until the Ratelimit-Reset timestamp
+ *   - Logging drop reasons returned by Twitch (AutoMod holds, duplicates, ...)
+ *   - Threaded replies: every chunk of a reply points at the same parent message
+ *   - Announcements: chunks flagged with a colour are posted as chat announcements
+ */
+
+import { elizaLogger } from "@elizaos/core";
+import { sleep } from "./util";
+
+/* ============================================================================
+   1) Types & Constants
+=========================================================================== */
+export const TWITCH_MAX_MESSAGE_LENGTH = 500;
+
+const RATE_WINDOW_MS = 30000;
+const USER_MESSAGES_PER_WINDOW = 20;
+const MODERATOR_MESSAGES_PER_WINDOW = 100;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+export interface ChatDropReason {
+  code: string;
+  message: string;
+}
+
+export interface ChatSendResult {
+  /** HTTP status returned by Helix. */
+  status: number;
+  /** Mirrors data[0].is_sent; false when Twitch accepted the call but dropped the message. */
+  isSent: boolean;
+  dropReason?: ChatDropReason;
+  /** Epoch milliseconds from the Ratelimit-Reset header, if present. */
+  rateLimitResetAt?: number;
+}
+
+export type AnnouncementColor = "primary" | "blue" | "green" | "orange" | "purple";
+
+export interface ChatSendOptions {
+  /** Sends the message as a threaded reply to this chat message. */
+  replyParentMessageId?: string;
+  /** Sends the message as an announcement (POST /chat/announcements) in this colour. */
+  announcementColor?: AnnouncementColor;
+}
+
+export type ChatSender = (broadcasterId: string, text: string, options: ChatSendOptions) => Promise<ChatSendResult>;
+
+export interface SendQueueOptions {
+  /** True when the bot is a moderator (or the broadcaster) in the channels it talks in. */
+  isModerator: boolean;
+  maxMessageLength?: number;
+  maxRetries?: number;
+}
+
+interface QueuedChunk {
+  text: string;
+  options: ChatSendOptions;
+  resolve: (result: ChatSendResult | null) => void;
+}
+
+interface ChannelQueue {
+  items: QueuedChunk[];
+  /** Send times in this channel, for the moderator limit. */
+  sentAt: number[];
+  draining: boolean;
+}
+
+/* ============================================================================
+   2) Message Chunking
+   ----------------------------------------------------------------------------
+   Splits at sentence boundaries first, then at word boundaries, and only cuts
+   mid-word when a single word exceeds the limit.
+=========================================================================== */
+export function splitChatMessage(text: string, maxLength = TWITCH_MAX_MESSAGE_LENGTH): string[] {
+  const normalized = text.trim();
+  if (normalized.length <= maxLength) {
+    return normalized ? [normalized] : [];
+  }
+
+  const pieces: string[] = [];
+  for (const sentence of normalized.split(/(?<=[.!?…])\s+/)) {
+    if (sentence.length <= maxLength) {
+      pieces.push(sentence);
+      continue;
+    }
+    for (const word of sentence.split(/\s+/)) {
+      for (let i = 0; i < word.length; i += maxLength) {
+        pieces.push(word.slice(i, i + maxLength));
+      }
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const candidate = current ? `${current} ${piece}` : piece;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+    } else {
+      if (current) {
+        chunks.push(current);
+      }
+      current = piece;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/* ============================================================================
+   3) TwitchSendQueue Class
+=========================================================================== */
+export class TwitchSendQueue {
+  private queues = new Map<string, ChannelQueue>();
+  /** Send times across all channels, for the regular user limit. */
+  private accountSentAt: number[] = [];
+  private stopped = false;
+
+  constructor(
+    private sender: ChatSender,
+    private options: SendQueueOptions
+  ) {}
+
+  /**
+   * Splits the text into chunks and queues them for the given channel, optionally as
+   * threaded replies or announcements. Resolves once every chunk was sent, dropped or
+   * given up on; after stop() every chunk resolves with null right away.
+   */
+  public async enqueue(
+    broadcasterId: string,
+    text: string,
+    options: ChatSendOptions = {}
+  ): Promise<Array<ChatSendResult | null>> {
+    const chunks = splitChatMessage(text, this.options.maxMessageLength ?? TWITCH_MAX_MESSAGE_LENGTH);
+    if (chunks.length > 1) {
+      elizaLogger.info(`[SendQueue] Reply split into ${chunks.length} chunks for channel ${broadcasterId}`);
+    }
+
+    if (this.stopped) {
+      elizaLogger.debug(`[SendQueue] Queue stopped; not sending ${chunks.length} chunk(s) to channel ${broadcasterId}`);
+      return chunks.map(() => null);
+    }
+
+    const queue = this.getQueue(broadcasterId);
+    const results = chunks.map(
+      (chunk) =>
+        new Promise<ChatSendResult | null>((resolve) => {
+          queue.items.push({ text: chunk, options, resolve });
+        })
+    );
+    void this.drain(broadcasterId, queue);
+    return Promise.all(results);
+  }
+
+  /**
+   * Stops draining; queued chunks, and chunks still waiting for a rate slot or a retry,
+   * are resolved with null.
+   */
+  public stop(): void {
+    this.stopped = true;
+    for (const queue of this.queues.values()) {
+      for (const item of queue.items.splice(0)) {
+        item.resolve(null);
+      }
+    }
+  }
+
+  private getQueue(broadcasterId: string): ChannelQueue {
+    let queue = this.queues.get(broadcasterId);
+    if (!queue) {
+      queue = { items: [], sentAt: [], draining: false };
+      this.queues.set(broadcasterId, queue);
+    }
+    return queue;
+  }
+
+  private async drain(broadcasterId: string, queue: ChannelQueue): Promise<void> {
+    if (queue.draining) {
+      return;
+    }
+    queue.draining = true;
+    try {
+      while (!this.stopped && queue.items.length > 0) {
+        const item = queue.items.shift()!;
+        const result = await this.sendWithRetry(broadcasterId, queue, item).catch((err) => {
+          elizaLogger.error(`[SendQueue] Unexpected send error for channel ${broadcasterId} =>`, err);
+          return null;
+        });
+        item.resolve(result);
+      }
+    } finally {
+      queue.draining = false;
+    }
+  }
+
+  private async sendWithRetry(broadcasterId: string, queue: ChannelQueue, item: QueuedChunk): Promise<ChatSendResult | null> {
+    const { text } = item;
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const sentAt = this.rateWindow(queue);
+      await this.waitForRateSlot(sentAt);
+      if (this.stopped) {
+        return null;
+      }
+      sentAt.push(Date.now());
+
+      const result = await this.sender(broadcasterId, text, item.options);
+
+      if (result.status === 429) {
+        const waitMs = result.rateLimitResetAt
+          ? Math.max(0, result.rateLimitResetAt - Date.now())
+          : DEFAULT_RETRY_DELAY_MS * (attempt + 1);
+        elizaLogger.warn(`[SendQueue] 429 from Helix for channel ${broadcasterId}; retrying in ${waitMs}ms`);
+        await sleep(waitMs);
+        continue;
+      }
+
+      if (result.status >= 200 && result.status < 300 && !result.isSent) {
+        elizaLogger.warn(
+          `[SendQueue] Twitch dropped message in channel ${broadcasterId} => code=${result.dropReason?.code ?? "unknown"}, reason="${result.dropReason?.message ?? ""}"`,
+          { textPreview: preview(text) }
+        );
+      } else if (result.status < 200 || result.status >= 300) {
+        elizaLogger.error(`[SendQueue] Send failed with HTTP ${result.status} for channel ${broadcasterId}`);
+      }
+      return result;
+    }
+
+    elizaLogger.error(`[SendQueue] Giving up after ${maxRetries} retries for channel ${broadcasterId}`, {
+      textPreview: preview(text),
+    });
+    return null;
+  }
+
+  private rateWindow(queue: ChannelQueue): number[] {
+    return this.options.isModerator ? queue.sentAt : this.accountSentAt;
+  }
+
+  /**
+   * Waits until the sliding 30s window has room for one more message.
+   */
+  private async waitForRateSlot(sentAt: number[]): Promise<void> {
+    const limit = this.options.isModerator ? MODERATOR_MESSAGES_PER_WINDOW : USER_MESSAGES_PER_WINDOW;
+    for (;;) {
+      const now = Date.now();
+      while (sentAt.length > 0 && now - sentAt[0] >= RATE_WINDOW_MS) {
+        sentAt.shift();
+      }
+      if (sentAt.length < limit) {
+        return;
+      }
+      const waitMs = RATE_WINDOW_MS - (now - sentAt[0]);
+      elizaLogger.debug(`[SendQueue] Rate limit reached; waiting ${waitMs}ms`);
+      await sleep(waitMs);
+    }
+  }
+}
+
+function preview(text: string): string {
+  return text.slice(0, 80) + (text.length > 80 ? "..." : "");
+}
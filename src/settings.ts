@@ -0,0 +1,93 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/settings.ts
+ *
+ * Typed accessors for optional Twitch client settings
+ *
+ * Credentials are validated with Zod in index.ts; behaviour knobs (rate limits,
+ * reply policies, ...) are optional and read through these helpers so every
+ * module parses runtime settings the same way.
+ */
+
+import JSON5 from "json5";
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+
+function getRawSetting(runtime: IAgentRuntime, key: string): string | undefined {
+  const value = runtime.getSetting(key) as unknown;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const str = String(value).trim();
+  return str.length > 0 ? str : undefined;
+}
+
+/**
+ * Reads a string setting, falling back to the given default.
+ */
+export function getStringSetting(runtime: IAgentRuntime, key: string, fallback: string): string {
+  return getRawSetting(runtime, key) ?? fallback;
+}
+
+/**
+ * Reads a boolean setting ("true"/"false"/"1"/"0"/"yes"/"no").
+ */
+export function getBooleanSetting(runtime: IAgentRuntime, key: string, fallback: boolean): boolean {
+  const raw = getRawSetting(runtime, key);
+  if (raw === undefined) {
+    return fallback;
+  }
+  return ["true", "1", "yes", "on"].includes(raw.toLowerCase());
+}
+
+/**
+ * Reads a numeric setting; invalid values fall back to the default with a warning.
+ */
+export function getNumberSetting(runtime: IAgentRuntime, key: string, fallback: number): number {
+  const raw = getRawSetting(runtime, key);
+  if (raw === undefined) {
+    return fallback;
+  }
+  const num = Number(raw);
+  if (!Number.isFinite(num)) {
+    elizaLogger.warn(`[Twitch] Setting ${key}="${raw}" is not a number; using ${fallback}`);
+    return fallback;
+  }
+  return num;
+}
+
+/**
+ * Reads a structured setting. Accepts either an already-parsed value (character
+ * settings) or a JSON5 string (env / secrets). Invalid JSON falls back with a warning.
+ */
+export function getJsonSetting<T>(runtime: IAgentRuntime, key: string, fallback: T): T {
+  const value = runtime.getSetting(key) as unknown;
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+  if (typeof value !== "string") {
+    return value as T;
+  }
+  try {
+    return JSON5.parse(value) as T;
+  } catch (err) {
+    elizaLogger.warn(`[Twitch] Setting ${key} is not valid JSON5; using default`, err);
+    return fallback;
+  }
+}
+
+/**
+ * Reads a comma-separated list setting (or a JSON array).
+ */
+export function getListSetting(runtime: IAgentRuntime, key: string): string[] {
+  const value = runtime.getSetting(key) as unknown;
+  if (Array.isArray(value)) {
+    return value.map((v) => String(v).trim()).filter(Boolean);
+  }
+  const raw = getRawSetting(runtime, key);
+  if (!raw) {
+    return [];
+  }
+  if (raw.startsWith("[")) {
+    return getJsonSetting<unknown[]>(runtime, key, []).map((v) => String(v).trim()).filter(Boolean);
+  }
+  return raw.split(",").map((v) => v.trim()).filter(Boolean);
+}
@@ -0,0 +1,489 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/simulator.ts
+ *
+ * Offline simulator, transcripts and session recording
+ *
+ * Lets a character be developed and tuned without Twitch. With TWITCH_SIMULATOR
+ * the client opens no Twitch connection, loads no tokens and sends nothing to Helix.
+ * This module handles:
+ *   - The replay format: one JSON object per line, either
+ *       { kind: "event", at, frame }       an EventSub notification frame as received
+ *       { kind: "sent", at, broadcasterId, text, ... }   a chat message the bot posted
+ *       { kind: "helix", at, method, path, ... }         any other Helix write (simulator)
+ *     Input lines may also be a bare frame, a bare { subscription, event } payload,
+ *     a shorthand { user, text, channel?, badges?, delayMs? } or, on stdin, plain
+ *     "user: text" lines
+ *   - Replay sources: a JSONL file or stdin, dispatched directly or served by a local
+ *     fake EventSub WebSocket server that the regular connection code connects to
+ *   - A Helix stand-in that writes every outbound call to the transcript and answers
+ *     with empty (successful) responses
+ *   - ReplayWriter, used for the simulator transcript and for recording live sessions
+ *     (TWITCH_RECORD_FILE) in the same format, so a recorded session can be replayed
+ *     or loaded as a test fixture (readReplayFile)
+ *
+ * Replayed frames get fresh message ids and timestamps, so a file can be replayed any
+ * number of times without being deduplicated or dropped as stale.
+ *
+ * Settings:
+ *   TWITCH_SIMULATOR              "true" to run offline
+ *   TWITCH_SIMULATOR_SOURCE       replay file (JSONL), or "-" for stdin (default)
+ *   TWITCH_SIMULATOR_TRANSPORT    "direct" (default) | "ws" (local fake EventSub WebSocket server)
+ *   TWITCH_SIMULATOR_WS_PORT      port of the fake server, default 8081
+ *   TWITCH_SIMULATOR_SPEED        replay speed for recorded timing: 1 = real time (default),
+ *                                 2 = twice as fast, 0 = no waiting
+ *   TWITCH_SIMULATOR_TRANSCRIPT   transcript file, default data/twitch-transcript-<agentId>.jsonl
+ *   TWITCH_RECORD_FILE            (live mode) records the session to this file
+ */
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import readline from "readline";
+import { createReadStream } from "fs";
+import { WebSocketServer, WebSocket } from "ws";
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { TwitchChannelConfig } from "./channels";
+import { HelixClient, HelixRequestOptions, HelixResponse } from "./helix";
+import { getBooleanSetting, getNumberSetting, getStringSetting } from "./settings";
+import { sleep } from "./util";
+
+/* ============================================================================
+   1) Types & Settings
+=========================================================================== */
+export interface SimulatorSettings {
+  enabled: boolean;
+  /** JSONL file, or "-" for stdin. */
+  source: string;
+  transport: "direct" | "ws";
+  wsPort: number;
+  speed: number;
+  transcriptFile: string;
+}
+
+export function loadSimulatorSettings(runtime: IAgentRuntime): SimulatorSettings {
+  const transport = getStringSetting(runtime, "TWITCH_SIMULATOR_TRANSPORT", "direct").toLowerCase();
+  return {
+    enabled: getBooleanSetting(runtime, "TWITCH_SIMULATOR", false),
+    source: getStringSetting(runtime, "TWITCH_SIMULATOR_SOURCE", "-"),
+    transport: transport === "ws" ? "ws" : "direct",
+    wsPort: getNumberSetting(runtime, "TWITCH_SIMULATOR_WS_PORT", 8081),
+    speed: Math.max(0, getNumberSetting(runtime, "TWITCH_SIMULATOR_SPEED", 1)),
+    transcriptFile: getStringSetting(
+      runtime,
+      "TWITCH_SIMULATOR_TRANSCRIPT",
+      path.join(process.cwd(), "data", `twitch-transcript-${runtime.agentId}.jsonl`)
+    ),
+  };
+}
+
+/**
+ * EventSub message as received on the WebSocket (and forwarded by ./webhook).
+ */
+export interface EventSubFrame {
+  metadata: {
+    message_id?: string;
+    message_type?: string;
+    message_timestamp?: string;
+    subscription_type?: string;
+    subscription_version?: string;
+  };
+  payload: { subscription?: { type?: string; version?: string }; event?: any };
+}
+
+export type ReplayEntry =
+  | { kind: "event"; at: string; frame: EventSubFrame; delayMs?: number }
+  | {
+      kind: "sent";
+      at: string;
+      broadcasterId: string;
+      text: string;
+      replyParentMessageId?: string;
+      announcementColor?: string;
+    }
+  | { kind: "helix"; at: string; method: string; path: string; query?: unknown; body?: unknown };
+
+type SentEntry = Extract<ReplayEntry, { kind: "sent" }>;
+
+/* ============================================================================
+   2) Replay Format
+=========================================================================== */
+/**
+ * Builds a channel.chat.message frame for a hand-written chat line.
+ */
+export function chatFrame(
+  channel: Pick<TwitchChannelConfig, "broadcasterId" | "login">,
+  user: string,
+  text: string,
+  badges: string[] = []
+): EventSubFrame {
+  const login = user.toLowerCase().replace(/[^a-z0-9_]/g, "") || "viewer";
+  const broadcasterLogin = channel.login ?? channel.broadcasterId;
+  return {
+    metadata: {
+      message_id: crypto.randomUUID(),
+      message_type: "notification",
+      message_timestamp: new Date().toISOString(),
+      subscription_type: "channel.chat.message",
+      subscription_version: "1",
+    },
+    payload: {
+      subscription: { type: "channel.chat.message", version: "1" },
+      event: {
+        broadcaster_user_id: channel.broadcasterId,
+        broadcaster_user_login: broadcasterLogin,
+        broadcaster_user_name: broadcasterLogin,
+        chatter_user_id: `sim-${login}`,
+        chatter_user_login: login,
+        chatter_user_name: user,
+        message_id: crypto.randomUUID(),
+        message: { text, fragments: [{ type: "text", text }] },
+        message_type: "text",
+        badges: badges.map((set_id) => ({ set_id, id: "1", info: "" })),
+        color: "",
+      },
+    },
+  };
+}
+
+/**
+ * Parses one replay line. Returns null for blank lines, comments (#) and lines that are
+ * not understood. Channels resolve shorthand lines; the first one is the default.
+ */
+export function parseReplayLine(line: string, channels: TwitchChannelConfig[]): ReplayEntry | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith("#")) {
+    return null;
+  }
+  const at = new Date().toISOString();
+
+  let value: any;
+  try {
+    value = JSON.parse(trimmed);
+  } catch {
+    // Plain "user: text" (or just "text") chat line
+    const match = /^([\w.-]{1,25}):\s+(.+)$/.exec(trimmed);
+    return channels[0]
+      ? { kind: "event", at, frame: chatFrame(channels[0], match?.[1] ?? "viewer", match?.[2] ?? trimmed) }
+      : null;
+  }
+
+  if (value?.kind === "event" || value?.kind === "sent" || value?.kind === "helix") {
+    return value as ReplayEntry;
+  }
+  if (value?.metadata && value?.payload) {
+    return { kind: "event", at: value.metadata.message_timestamp ?? at, frame: value };
+  }
+  if (value?.subscription && value?.event) {
+    return {
+      kind: "event",
+      at,
+      frame: {
+        metadata: {
+          message_id: crypto.randomUUID(),
+          message_type: "notification",
+          message_timestamp: at,
+          subscription_type: value.subscription.type,
+          subscription_version: value.subscription.version,
+        },
+        payload: value,
+      },
+    };
+  }
+  if (typeof value?.text === "string") {
+    const channel =
+      channels.find((c) => c.broadcasterId === value.channel || c.login === value.channel) ?? channels[0];
+    if (!channel) {
+      return null;
+    }
+    const frame = chatFrame(channel, String(value.user ?? "viewer"), value.text, value.badges ?? []);
+    return { kind: "event", at, frame, delayMs: Number(value.delayMs) || undefined };
+  }
+  elizaLogger.warn(`[TwitchSimulator] Ignoring unknown replay line => ${trimmed.slice(0, 120)}`);
+  return null;
+}
+
+/**
+ * Reads a replay file (recording, transcript or hand-written script), e.g. as a test fixture.
+ */
+export async function readReplayFile(filePath: string, channels: TwitchChannelConfig[] = []): Promise<ReplayEntry[]> {
+  const raw = await fs.readFile(filePath, "utf8");
+  return raw
+    .split("\n")
+    .map((line) => parseReplayLine(line, channels))
+    .filter((entry): entry is ReplayEntry => entry !== null);
+}
+
+/**
+ * Gives a replayed frame a fresh message id and timestamp (dedup and staleness checks
+ * would otherwise drop it), keeping the original ids recognizable.
+ */
+export function restampFrame(frame: EventSubFrame, runId: string): EventSubFrame {
+  const suffix = `-replay-${runId}`;
+  const event = frame.payload?.event;
+  return {
+    metadata: {
+      ...frame.metadata,
+      message_id: `${frame.metadata?.message_id ?? crypto.randomUUID()}${suffix}`,
+      message_timestamp: new Date().toISOString(),
+    },
+    payload: {
+      ...frame.payload,
+      event: event && {
+        ...event,
+        ...(event.message_id ? { message_id: `${event.message_id}${suffix}` } : {}),
+        ...(event.whisper_id ? { whisper_id: `${event.whisper_id}${suffix}` } : {}),
+      },
+    },
+  };
+}
+
+/* ============================================================================
+   3) ReplayWriter Class
+   ----------------------------------------------------------------------------
+   Appends entries to a JSONL file, one write at a time. Without a file the
+   entries are kept in memory (tests).
+=========================================================================== */
+export class ReplayWriter {
+  public readonly entries: ReplayEntry[] = [];
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string | null) {}
+
+  public event(frame: EventSubFrame): void {
+    this.write({ kind: "event", at: new Date().toISOString(), frame });
+  }
+
+  public sent(entry: Omit<SentEntry, "kind" | "at">): void {
+    this.write({ kind: "sent", at: new Date().toISOString(), ...entry });
+  }
+
+  public helix(method: string, path: string, options: HelixRequestOptions): void {
+    this.write({ kind: "helix", at: new Date().toISOString(), method, path, query: options.query, body: options.body });
+  }
+
+  /**
+   * Resolves once every entry so far has been written.
+   */
+  public flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private write(entry: ReplayEntry): void {
+    if (!this.filePath) {
+      this.entries.push(entry);
+      return;
+    }
+    const filePath = this.filePath;
+    this.pending = this.pending
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8");
+      })
+      .catch((err) => {
+        elizaLogger.warn(`[TwitchSimulator] Could not write to ${filePath} =>`, err);
+      });
+  }
+}
+
+/* ============================================================================
+   4) TranscriptHelixClient Class
+   ----------------------------------------------------------------------------
+   Stands in for Helix in the simulator. Reads return empty pages; writes are
+   recorded and succeed. Chat messages and announcements are recorded as "sent"
+   entries by the client itself, like in a live recording.
+=========================================================================== */
+const CLIENT_RECORDED_PATHS = ["/chat/messages", "/chat/announcements"];
+
+export class TranscriptHelixClient extends HelixClient {
+  constructor(private writer: ReplayWriter) {
+    super(() => {
+      throw new Error("[TwitchSimulator] No Twitch tokens in simulator mode");
+    }, "http://simulator.invalid/helix");
+  }
+
+  public async request<T>(method: string, path: string, options: HelixRequestOptions = {}): Promise<HelixResponse<T>> {
+    if (method === "GET") {
+      return { status: 200, data: { data: [] } as T };
+    }
+    if (!CLIENT_RECORDED_PATHS.includes(path)) {
+      this.writer.helix(method, path, options);
+    }
+    if (method === "POST" && path === "/chat/messages") {
+      return { status: 200, data: { data: [{ message_id: crypto.randomUUID(), is_sent: true }] } as T };
+    }
+    return { status: 204, data: undefined as T };
+  }
+}
+
+/* ============================================================================
+   5) FakeEventSubServer Class
+   ----------------------------------------------------------------------------
+   A minimal EventSub WebSocket server: session_welcome on connect, keepalives,
+   and notification frames pushed by the replay source.
+=========================================================================== */
+const FAKE_KEEPALIVE_SECONDS = 10;
+
+export class FakeEventSubServer {
+  private server: WebSocketServer | null = null;
+  private keepalive: NodeJS.Timeout | null = null;
+  private backlog: EventSubFrame[] = [];
+
+  constructor(private port: number) {}
+
+  public get url(): string {
+    return `ws://127.0.0.1:${this.port}/ws`;
+  }
+
+  /**
+   * Starts listening; the server and its keepalive only stay around once it listens.
+   */
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({ port: this.port, host: "127.0.0.1" });
+      server.once("error", reject);
+      server.on("listening", () => {
+        server.off("error", reject);
+        this.server = server;
+        this.keepalive = setInterval(
+          () => this.broadcast(this.frame("session_keepalive", {})),
+          (FAKE_KEEPALIVE_SECONDS / 2) * 1000
+        );
+        elizaLogger.info(`[TwitchSimulator] Fake EventSub server listening => ${this.url}`);
+        resolve();
+      });
+      server.on("connection", (socket) => this.welcome(socket));
+    });
+  }
+
+  public stop(): void {
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+    for (const socket of this.server?.clients ?? []) {
+      socket.close();
+    }
+    this.server?.close();
+    this.server = null;
+  }
+
+  /**
+   * Sends a notification to the connected client (queued until one connects).
+   */
+  public async push(frame: EventSubFrame): Promise<void> {
+    if (!this.broadcast(frame)) {
+      this.backlog.push(frame);
+    }
+  }
+
+  private welcome(socket: WebSocket): void {
+    socket.send(
+      JSON.stringify(
+        this.frame("session_welcome", {
+          session: {
+            id: crypto.randomUUID(),
+            status: "connected",
+            connected_at: new Date().toISOString(),
+            keepalive_timeout_seconds: FAKE_KEEPALIVE_SECONDS,
+            reconnect_url: null,
+          },
+        })
+      )
+    );
+    const backlog = this.backlog;
+    this.backlog = [];
+    for (const frame of backlog) {
+      socket.send(JSON.stringify(frame));
+    }
+  }
+
+  private broadcast(frame: object): boolean {
+    let delivered = false;
+    for (const socket of this.server?.clients ?? []) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(frame));
+        delivered = true;
+      }
+    }
+    return delivered;
+  }
+
+  private frame(type: string, payload: Record<string, unknown>) {
+    return {
+      metadata: { message_id: crypto.randomUUID(), message_type: type, message_timestamp: new Date().toISOString() },
+      payload,
+    };
+  }
+}
+
+/* ============================================================================
+   6) ReplaySource Class
+   ----------------------------------------------------------------------------
+   Reads the replay file or stdin and dispatches its events, keeping the
+   recorded gaps between them (scaled by TWITCH_SIMULATOR_SPEED).
+=========================================================================== */
+const MAX_REPLAY_GAP_MS = 60000;
+
+export class ReplaySource {
+  private stopped = false;
+  private runId = Date.now().toString(36);
+  private lines: readline.Interface | null = null;
+
+  constructor(
+    private settings: SimulatorSettings,
+    private channels: TwitchChannelConfig[],
+    private dispatch: (frame: EventSubFrame) => Promise<void>
+  ) {}
+
+  public async start(): Promise<void> {
+    const fromStdin = this.settings.source === "-";
+    elizaLogger.info(
+      `[TwitchSimulator] Replaying from ${fromStdin ? "stdin (type \"user: message\")" : this.settings.source}`
+    );
+    this.lines = readline.createInterface({
+      input: fromStdin ? process.stdin : createReadStream(this.settings.source, "utf8"),
+      crlfDelay: Infinity,
+    });
+
+    let previousAt: number | undefined;
+    let count = 0;
+    for await (const line of this.lines) {
+      if (this.stopped) {
+        break;
+      }
+      const entry = parseReplayLine(line, this.channels);
+      if (entry?.kind !== "event") {
+        continue;
+      }
+      const at = Date.parse(entry.at);
+      if (!fromStdin) {
+        await sleep(this.gapMs(entry.delayMs, previousAt, at));
+      }
+      previousAt = at;
+      count++;
+      await this.dispatch(restampFrame(entry.frame, this.runId)).catch((err) => {
+        elizaLogger.error("[TwitchSimulator] Dispatch failed =>", err);
+      });
+    }
+    elizaLogger.info(`[TwitchSimulator] Replay finished => ${count} event(s)`);
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    this.lines?.close();
+    this.lines = null;
+  }
+
+  private gapMs(delayMs: number | undefined, previousAt: number | undefined, at: number): number {
+    if (this.settings.speed === 0) {
+      return 0;
+    }
+    if (delayMs !== undefined) {
+      return delayMs / this.settings.speed;
+    }
+    if (previousAt === undefined || !Number.isFinite(previousAt) || !Number.isFinite(at)) {
+      return 0;
+    }
+    return Math.min(MAX_REPLAY_GAP_MS, Math.max(0, at - previousAt)) / this.settings.speed;
+  }
+}
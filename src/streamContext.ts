@@ -0,0 +1,185 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/streamContext.ts
+ *
+ * Live stream context
+ *
+ * Polls Helix for every configured channel and caches what the character should
+ * know about the stream it is chatting in:
+ *   - GET /streams   live state, title, category, tags, start time, viewer count
+ *   - GET /channels  title, category and tags (also while offline)
+ *
+ * The cached data is exposed to composeState by the provider in
+ * ./providers/streamContext. stream.online / stream.offline events update the
+ * live state immediately (see ./streamLifecycle).
+ *
+ * Settings:
+ *   TWITCH_STREAM_CONTEXT       "false" to disable polling and the provider (default true)
+ *   TWITCH_STREAM_POLL_SECONDS  poll interval, default 60
+ */
+
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { HelixChannel, HelixClient, HelixPage, HelixStream } from "./helix";
+import { getBooleanSetting, getNumberSetting } from "./settings";
+
+/* ============================================================================
+   1) Types
+=========================================================================== */
+export interface StreamInfo {
+  broadcasterId: string;
+  broadcasterLogin?: string;
+  live: boolean;
+  title: string;
+  gameName: string;
+  tags: string[];
+  /** Epoch milliseconds when the current stream started (live only). */
+  startedAt?: number;
+  viewerCount?: number;
+  /** Epoch milliseconds of the last successful poll. */
+  fetchedAt: number;
+}
+
+export interface StreamContextOptions {
+  enabled: boolean;
+  pollIntervalMs: number;
+}
+
+export function loadStreamContextOptions(runtime: IAgentRuntime): StreamContextOptions {
+  return {
+    enabled: getBooleanSetting(runtime, "TWITCH_STREAM_CONTEXT", true),
+    pollIntervalMs: Math.max(15, getNumberSetting(runtime, "TWITCH_STREAM_POLL_SECONDS", 60)) * 1000,
+  };
+}
+
+/* ============================================================================
+   2) StreamContextService Class
+=========================================================================== */
+export class StreamContextService {
+  private cache = new Map<string, StreamInfo>();
+  private broadcasterIds: string[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private helix: HelixClient,
+    private options: StreamContextOptions
+  ) {}
+
+  public get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Polls once right away and then every poll interval.
+   */
+  public start(broadcasterIds: string[]): void {
+    this.stop();
+    this.broadcasterIds = broadcasterIds;
+    if (!this.options.enabled || broadcasterIds.length === 0) {
+      return;
+    }
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), this.options.pollIntervalMs);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public get(broadcasterId: string): StreamInfo | undefined {
+    return this.cache.get(broadcasterId);
+  }
+
+  /**
+   * Updates the live state right away (from stream.online / stream.offline) instead of
+   * waiting for the next poll.
+   */
+  public setLive(broadcasterId: string, live: boolean, startedAt?: number): void {
+    const info: StreamInfo = this.cache.get(broadcasterId) ?? {
+      broadcasterId,
+      live,
+      title: "",
+      gameName: "",
+      tags: [],
+      fetchedAt: Date.now(),
+    };
+    this.cache.set(broadcasterId, {
+      ...info,
+      live,
+      startedAt: live ? startedAt ?? info.startedAt : undefined,
+      viewerCount: live ? info.viewerCount : undefined,
+    });
+    if (live && this.options.enabled) {
+      // Title and category may have changed right before going live
+      void this.refresh();
+    }
+  }
+
+  /**
+   * Fetches /streams and /channels for every channel (up to 100 ids per request).
+   */
+  public async refresh(): Promise<void> {
+    for (let i = 0; i < this.broadcasterIds.length; i += 100) {
+      const ids = this.broadcasterIds.slice(i, i + 100);
+      try {
+        const [streams, channels] = await Promise.all([
+          this.helix.getAll<HelixStream>("/streams", { user_id: ids, first: 100 }),
+          this.helix.get<HelixPage<HelixChannel>>("/channels", { broadcaster_id: ids }).then((page) => page?.data ?? []),
+        ]);
+        const now = Date.now();
+        for (const id of ids) {
+          const stream = streams.find((s) => s.user_id === id && s.type === "live");
+          const channel = channels.find((c) => c.broadcaster_id === id);
+          if (!stream && !channel) {
+            continue;
+          }
+          this.cache.set(id, {
+            broadcasterId: id,
+            broadcasterLogin: stream?.user_login ?? channel?.broadcaster_login,
+            live: Boolean(stream),
+            title: stream?.title ?? channel?.title ?? "",
+            gameName: stream?.game_name ?? channel?.game_name ?? "",
+            tags: stream?.tags ?? channel?.tags ?? [],
+            startedAt: stream ? Date.parse(stream.started_at) : undefined,
+            viewerCount: stream?.viewer_count,
+            fetchedAt: now,
+          });
+        }
+      } catch (err) {
+        elizaLogger.warn("[StreamContext] Poll failed; keeping cached data =>", err);
+      }
+    }
+  }
+}
+
+/* ============================================================================
+   3) Formatting
+=========================================================================== */
+export function formatUptime(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * Describes the stream for the prompt, e.g.
+ * "#streamer is LIVE: "Chill ranked grind" (category: Valorant; tags: English). Live for 2h 5m, 132 viewers."
+ */
+export function describeStream(info: StreamInfo, now = Date.now()): string {
+  const channel = `#${info.broadcasterLogin ?? info.broadcasterId}`;
+  const details = [
+    info.gameName ? `category: ${info.gameName}` : "",
+    info.tags.length > 0 ? `tags: ${info.tags.join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("; ");
+  const title = `"${info.title}"${details ? ` (${details})` : ""}`;
+
+  if (!info.live) {
+    return `${channel} is currently OFFLINE. Last title: ${title}.`;
+  }
+  const uptime = info.startedAt ? ` Live for ${formatUptime(now - info.startedAt)}` : "";
+  const viewers = info.viewerCount !== undefined ? `, ${info.viewerCount} viewers` : "";
+  return `${channel} is LIVE: ${title}.${uptime}${viewers}.`;
+}
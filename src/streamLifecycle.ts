@@ -0,0 +1,133 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/streamLifecycle.ts
+ *
+ * Stream lifecycle: live-only replies and end-of-stream summaries
+ *
+ * The client subscribes to stream.online and stream.offline for every channel.
+ * This module handles:
+ *   - The live mode: reply always, only while live, or in a reduced "offline chat"
+ *     mode (only direct mentions, replies to the bot and !ask, kept short)
+ *   - Collecting the chat memories of a finished stream from the channel room
+ *   - Storing the model's recap as a long-term memory (lore manager, channel room),
+ *     which the stream context provider shows as "last stream"
+ *
+ * Settings:
+ *   TWITCH_LIVE_MODE                     "always" (default) | "live-only" | "offline-reduced"
+ *   TWITCH_STREAM_SUMMARY                "false" to skip end-of-stream recaps (default true)
+ *   TWITCH_STREAM_SUMMARY_MAX_MESSAGES   chat lines given to the model, default 300
+ */
+
+import { elizaLogger, getEmbeddingZeroVector, IAgentRuntime, Memory, stringToUuid, UUID } from "@elizaos/core";
+import { ReplyDecision } from "./replyDecision";
+import { getBooleanSetting, getNumberSetting, getStringSetting } from "./settings";
+
+/* ============================================================================
+   1) Types & Settings
+=========================================================================== */
+export const STREAM_LIFECYCLE_TYPES = ["stream.online", "stream.offline"];
+
+export type LiveMode = "always" | "live-only" | "offline-reduced";
+
+export interface StreamLifecycleSettings {
+  liveMode: LiveMode;
+  summaries: boolean;
+  summaryMaxMessages: number;
+}
+
+export function loadStreamLifecycleSettings(runtime: IAgentRuntime): StreamLifecycleSettings {
+  const mode = getStringSetting(runtime, "TWITCH_LIVE_MODE", "always").toLowerCase();
+  return {
+    liveMode: (["always", "live-only", "offline-reduced"].includes(mode) ? mode : "always") as LiveMode,
+    summaries: getBooleanSetting(runtime, "TWITCH_STREAM_SUMMARY", true),
+    summaryMaxMessages: Math.max(20, Math.floor(getNumberSetting(runtime, "TWITCH_STREAM_SUMMARY_MAX_MESSAGES", 300))),
+  };
+}
+
+/** Replies that are still allowed in the reduced offline mode. */
+const OFFLINE_REASONS = ["mention", "reply to bot", "!ask"];
+
+export const OFFLINE_REPLY_STYLE =
+  "The stream is currently offline: keep replies short and casual, and don't pretend to be live.";
+
+/* ============================================================================
+   2) Live Mode
+=========================================================================== */
+/**
+ * Applies the live mode to a reply decision. `live` is undefined when the state is unknown
+ * (stream context disabled and no lifecycle event seen yet); replies are not blocked then.
+ */
+export function applyLiveMode(mode: LiveMode, live: boolean | undefined, decision: ReplyDecision): ReplyDecision {
+  if (mode === "always" || live !== false || decision.verdict === "ignore") {
+    return decision;
+  }
+  if (mode === "live-only") {
+    return { verdict: "ignore", reason: "channel offline" };
+  }
+  return OFFLINE_REASONS.includes(decision.reason)
+    ? decision
+    : { verdict: "ignore", reason: `offline chat mode (${decision.reason})` };
+}
+
+/* ============================================================================
+   3) Stream Summaries
+=========================================================================== */
+/**
+ * Formats the chat memories of the room between `since` and `until`, oldest first.
+ */
+export async function collectSessionChat(
+  runtime: IAgentRuntime,
+  roomId: UUID,
+  since: number,
+  until: number,
+  maxMessages: number
+): Promise<string[]> {
+  const memories = await runtime.messageManager.getMemories({ roomId, count: maxMessages, start: since, end: until });
+  return memories
+    .filter((m) => m.content.source === "twitch" && m.content.text)
+    .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0))
+    .slice(-maxMessages)
+    .map((m) => {
+      const name = m.userId === runtime.agentId ? runtime.character.name : (m.content.chatterName as string | undefined) ?? "viewer";
+      return `${name}: ${m.content.text}`;
+    });
+}
+
+/**
+ * Stores a stream recap as a long-term memory of the channel room.
+ */
+export async function storeStreamSummary(
+  runtime: IAgentRuntime,
+  roomId: UUID,
+  broadcasterId: string,
+  startedAt: number,
+  recap: string
+): Promise<void> {
+  const date = new Date(startedAt).toISOString().slice(0, 10);
+  const memory: Memory = {
+    id: stringToUuid(`twitch-stream-summary-${broadcasterId}-${startedAt}`),
+    agentId: runtime.agentId,
+    userId: runtime.agentId,
+    roomId,
+    content: {
+      text: `Recap of the stream on ${date}: ${recap}`,
+      source: "twitch",
+      twitchStreamSummary: true,
+      twitchBroadcasterId: broadcasterId,
+    },
+    createdAt: Date.now(),
+    embedding: getEmbeddingZeroVector(),
+  };
+  await runtime.loreManager.addEmbeddingToMemory(memory);
+  await runtime.loreManager.createMemory(memory, true);
+  elizaLogger.info(`[StreamLifecycle] Stored stream recap for ${broadcasterId} (${date})`);
+}
+
+/**
+ * Returns the most recent stream recap stored for the room, if any.
+ */
+export async function getLastStreamSummary(runtime: IAgentRuntime, roomId: UUID): Promise<string | undefined> {
+  const memories = await runtime.loreManager.getMemories({ roomId, count: 10 });
+  return memories
+    .filter((m) => m.content.twitchStreamSummary)
+    .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0))[0]?.content.text;
+}
@@ -0,0 +1,240 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/templates.ts
+ *
+ * Prompt templates for the Twitch client
+ *
+ * Templates are rendered with composeContext against the state built by
+ * runtime.composeState, plus the Twitch-specific keys set in index.ts:
+ *   {{twitchChannel}}, {{twitchChatter}}, {{twitchBadges}}, {{twitchReplyContext}},
+ *   {{twitchRecentChat}}, {{twitchReplyStyle}}
+ * plus per-template keys documented below.
+ *
+ * Characters can override any template through character.templates.
+ */
+
+import { IAgentRuntime, TemplateType, messageCompletionFooter, shouldRespondFooter } from "@elizaos/core";
+
+/* ============================================================================
+   1) Message Handler Template
+=========================================================================== */
+export const twitchMessageHandlerTemplate =
+  `# Knowledge
+{{knowledge}}
+
+# About {{agentName}}:
+{{bio}}
+{{lore}}
+
+{{providers}}
+
+{{characterMessageExamples}}
+
+{{messageDirections}}
+
+# Twitch context
+{{agentName}} is chatting in the Twitch channel #{{twitchChannel}}.
+The latest message comes from {{twitchChatter}} (badges: {{twitchBadges}}).
+{{twitchReplyContext}}
+Emotes appear as [emote:Name] and cheers as [cheer: N bits]; they are not words.
+{{twitchReplyStyle}}
+
+# Recent chat in #{{twitchChannel}}
+{{twitchRecentChat}}
+
+{{recentMessages}}
+
+# Task: Write {{agentName}}'s next chat message in reply to {{twitchChatter}}.
+Keep it short and conversational: a single Twitch chat line, no markdown, no hashtags.
+` + messageCompletionFooter;
+
+/* ============================================================================
+   2) Should Respond Template
+   ----------------------------------------------------------------------------
+   Used by the optional LLM check in ./replyDecision.
+=========================================================================== */
+export const twitchShouldRespondTemplate =
+  `# About {{agentName}}:
+{{bio}}
+
+# Twitch context
+{{agentName}} is a chatter in the Twitch channel #{{twitchChannel}}. The chat moves fast and
+{{agentName}} should only jump in when it adds something: a question {{agentName}} can answer,
+a topic {{agentName}} cares about, or a conversation {{agentName}} is already part of.
+Ignore greetings between other viewers, spam, emote walls and messages aimed at someone else.
+
+# Recent chat in #{{twitchChannel}}
+{{twitchRecentChat}}
+
+# Task: Decide whether {{agentName}} should reply to the latest message from {{twitchChatter}}.
+` + shouldRespondFooter;
+
+/* ============================================================================
+   3) Digest Template
+   ----------------------------------------------------------------------------
+   Used in digest mode (./pipeline): {{twitchDigest}} lists the burst of chat
+   lines that get a single combined reply.
+=========================================================================== */
+export const twitchDigestTemplate =
+  `# Knowledge
+{{knowledge}}
+
+# About {{agentName}}:
+{{bio}}
+{{lore}}
+
+{{providers}}
+
+{{characterMessageExamples}}
+
+{{messageDirections}}
+
+# Twitch context
+{{agentName}} is chatting in the Twitch channel #{{twitchChannel}}, which is moving fast.
+Emotes appear as [emote:Name] and cheers as [cheer: N bits]; they are not words.
+{{twitchReplyStyle}}
+
+# Recent chat in #{{twitchChannel}}
+{{twitchRecentChat}}
+
+# Messages waiting for an answer
+{{twitchDigest}}
+
+# Task: Write ONE chat message from {{agentName}} that answers several of the waiting
+messages at once, addressing chatters with @name. Keep it under 400 characters, no markdown.
+` + messageCompletionFooter;
+
+/* ============================================================================
+   4) Channel Event Template
+   ----------------------------------------------------------------------------
+   Used when TWITCH_EVENT_RESPONSE_MODE is "llm"; {{twitchEvent}} holds the
+   description of the follow / sub / cheer / raid / redemption.
+=========================================================================== */
+export const twitchEventTemplate =
+  `# About {{agentName}}:
+{{bio}}
+{{lore}}
+
+{{messageDirections}}
+
+# Twitch context
+{{agentName}} is chatting in the Twitch channel #{{twitchChannel}}.
+Something just happened on stream: {{twitchEvent}}
+
+# Recent chat in #{{twitchChannel}}
+{{twitchRecentChat}}
+
+# Task: Write {{agentName}}'s short chat message reacting to this event (a thank-you,
+welcome, shout-out or poll / prediction result in {{agentName}}'s own voice). One chat line,
+no markdown.
+` + messageCompletionFooter;
+
+/* ============================================================================
+   5) Stream Summary Template
+   ----------------------------------------------------------------------------
+   Used when a stream goes offline; {{twitchSessionChat}} holds the chat of
+   that stream. The recap is stored as a long-term memory, not sent to chat.
+=========================================================================== */
+export const twitchStreamSummaryTemplate =
+  `# About {{agentName}}:
+{{bio}}
+
+# Twitch context
+The stream in #{{twitchChannel}} just ended. {{twitchStreamInfo}}
+
+# Chat during the stream
+{{twitchSessionChat}}
+
+# Task: Write a short recap (at most 5 sentences) of this stream from {{agentName}}'s point
+of view: what was played or done, memorable moments, running jokes and notable chatters.
+{{agentName}} will read it before the next stream, so keep names and facts accurate.
+` + messageCompletionFooter;
+
+/* ============================================================================
+   6) Proactive Message Template
+   ----------------------------------------------------------------------------
+   Used by the scheduler (./scheduler) for generated timer and idle-chat
+   messages; {{twitchProactiveTask}} says why the message is posted and
+   what it should be about.
+=========================================================================== */
+export const twitchProactiveTemplate =
+  `# About {{agentName}}:
+{{bio}}
+{{lore}}
+
+{{providers}}
+
+{{messageDirections}}
+
+# Twitch context
+{{agentName}} is chatting in the Twitch channel #{{twitchChannel}}.
+{{twitchReplyStyle}}
+
+# Recent chat in #{{twitchChannel}}
+{{twitchRecentChat}}
+
+# Task: Write ONE chat message that {{agentName}} posts on their own, not as a reply.
+{{twitchProactiveTask}}
+Keep it to one line, under 300 characters, no markdown.
+` + messageCompletionFooter;
+
+/* ============================================================================
+   7) Whisper Template
+   ----------------------------------------------------------------------------
+   Used for whispers (./whispers); {{twitchWhisperPersona}} holds the optional
+   TWITCH_WHISPER_PERSONA instruction.
+=========================================================================== */
+export const twitchWhisperTemplate =
+  `# Knowledge
+{{knowledge}}
+
+# About {{agentName}}:
+{{bio}}
+{{lore}}
+
+{{providers}}
+
+{{characterMessageExamples}}
+
+{{messageDirections}}
+
+# Twitch context
+{{twitchChatter}} is whispering {{agentName}} on Twitch: a private conversation, not public chat.
+{{twitchWhisperPersona}}
+
+{{recentMessages}}
+
+# Task: Write {{agentName}}'s next whisper in reply to {{twitchChatter}}.
+Keep it conversational and plain text, no markdown.
+` + messageCompletionFooter;
+
+/* ============================================================================
+   8) Poll Parameters Template
+   ----------------------------------------------------------------------------
+   Used by the poll / prediction actions (./actions/polls) to read the poll from
+   the conversation; {{twitchPollRequest}} describes the fields to extract and
+   {{twitchPollLimits}} Twitch's limits.
+=========================================================================== */
+export const twitchPollParametersTemplate =
+  `# Recent conversation
+{{recentMessages}}
+
+# Task: {{agentName}} is about to {{twitchPollRequest}} in the Twitch channel #{{twitchChannel}}.
+Read the details from the latest messages. Keep to Twitch's limits: {{twitchPollLimits}}.
+Use short titles and options; leave out a duration nobody asked for.
+
+Response format should be formatted in a JSON block like this:
+\`\`\`json
+{{twitchPollFormat}}
+\`\`\`
+`;
+
+/* ============================================================================
+   9) Template Resolution
+=========================================================================== */
+/**
+ * Returns the character's override for the named template, or the default.
+ */
+export function getTwitchTemplate(runtime: IAgentRuntime, name: string, fallback: TemplateType): TemplateType {
+  const templates = runtime.character.templates as Record<string, TemplateType | undefined> | undefined;
+  return templates?.[name] || fallback;
+}
@@ -0,0 +1,445 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/tokenManager.ts
+ *
+ * Twitch OAuth token lifecycle
+ *
+ * This module handles:
+ *   - Loading tokens from a pluggable store (Eliza cache, a dedicated JSON file, or env-only)
+ *   - Validating tokens via /oauth2/validate (at startup and hourly, as Twitch requires)
+ *   - Checking that the token carries the scopes the client needs
+ *   - Scheduling refreshes from expires_in and refreshing on demand after a 401
+ *     (both token classes are token sources of the Helix client, ./helix)
+ *   - Persisting refreshed tokens through the store
+ *   - Redacting secrets before they reach the logs
+ *   - App access tokens (client credentials) for EventSub webhook subscriptions
+ *
+ * Settings:
+ *   TWITCH_TOKEN_STORE     "cache" (default) | "file" | "env"
+ *   TWITCH_TOKEN_FILE      path used by the "file" store
+ *   TWITCH_REQUIRED_SCOPES extra scopes to require (comma-separated)
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import fetch, { Headers } from "node-fetch";
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { HelixAuth, loadTwitchEndpoints } from "./helix";
+import { getListSetting, getStringSetting } from "./settings";
+
+/* ============================================================================
+   1) Types & Helpers
+=========================================================================== */
+export interface TwitchTokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch milliseconds, when known. */
+  expiresAt?: number;
+  scopes?: string[];
+}
+
+interface TwitchRefreshResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string[];
+}
+
+interface TwitchValidateResponse {
+  client_id?: string;
+  login?: string;
+  user_id?: string;
+  scopes?: string[];
+  expires_in?: number;
+}
+
+export const BASE_REQUIRED_SCOPES = ["user:read:chat", "user:write:chat"];
+
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const MIN_REFRESH_DELAY_MS = 30 * 1000;
+const VALIDATE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Masks a secret for logging, keeping only a short prefix.
+ */
+export function redactSecret(secret: string | undefined | null): string {
+  if (!secret) {
+    return "<empty>";
+  }
+  return secret.length <= 6 ? "***" : `${secret.slice(0, 4)}…(${secret.length} chars)`;
+}
+
+/* ============================================================================
+   2) Token Stores
+=========================================================================== */
+export interface TokenStore {
+  readonly name: string;
+  load(): Promise<TwitchTokenSet | null>;
+  save(tokens: TwitchTokenSet): Promise<void>;
+}
+
+/**
+ * Keeps tokens in memory only; the initial tokens come from settings.
+ */
+export class EnvTokenStore implements TokenStore {
+  public readonly name = "env";
+
+  public async load(): Promise<TwitchTokenSet | null> {
+    return null;
+  }
+
+  public async save(): Promise<void> {
+    elizaLogger.debug("[TwitchTokens] env store: refreshed tokens are kept in memory only");
+  }
+}
+
+/**
+ * Persists tokens to a dedicated JSON file (never the character file).
+ */
+export class FileTokenStore implements TokenStore {
+  public readonly name = "file";
+
+  constructor(private filePath: string) {}
+
+  public async load(): Promise<TwitchTokenSet | null> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as TwitchTokenSet;
+      return parsed.accessToken ? parsed : null;
+    } catch (err: unknown) {
+      if (!(err instanceof Error && "code" in err && err.code === "ENOENT")) {
+        elizaLogger.warn(`[TwitchTokens] Could not read token file ${this.filePath} =>`, err);
+      }
+      return null;
+    }
+  }
+
+  public async save(tokens: TwitchTokenSet): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(tokens, null, 2), { encoding: "utf8", mode: 0o600 });
+  }
+}
+
+/**
+ * Persists tokens through the runtime's cache manager (database or filesystem backed).
+ */
+export class CacheTokenStore implements TokenStore {
+  public readonly name = "cache";
+
+  constructor(private runtime: IAgentRuntime) {}
+
+  private get key(): string {
+    return `twitch/tokens/${this.runtime.agentId}`;
+  }
+
+  public async load(): Promise<TwitchTokenSet | null> {
+    return (await this.runtime.cacheManager.get<TwitchTokenSet>(this.key)) ?? null;
+  }
+
+  public async save(tokens: TwitchTokenSet): Promise<void> {
+    await this.runtime.cacheManager.set(this.key, tokens);
+  }
+}
+
+export function createTokenStore(runtime: IAgentRuntime): TokenStore {
+  const kind = getStringSetting(runtime, "TWITCH_TOKEN_STORE", "cache").toLowerCase();
+  switch (kind) {
+    case "env":
+      return new EnvTokenStore();
+    case "file":
+      return new FileTokenStore(
+        getStringSetting(
+          runtime,
+          "TWITCH_TOKEN_FILE",
+          path.join(process.cwd(), "data", `twitch-tokens-${runtime.agentId}.json`)
+        )
+      );
+    case "cache":
+      return new CacheTokenStore(runtime);
+    default:
+      elizaLogger.warn(`[TwitchTokens] Unknown TWITCH_TOKEN_STORE="${kind}"; using cache`);
+      return new CacheTokenStore(runtime);
+  }
+}
+
+/* ============================================================================
+   3) TwitchTokenManager Class
+=========================================================================== */
+export class TwitchTokenManager implements HelixAuth {
+  private tokens: TwitchTokenSet | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private validateTimer: NodeJS.Timeout | null = null;
+  private inflightRefresh: Promise<boolean> | null = null;
+  private requiredScopes: string[];
+  private authUrl: string;
+
+  constructor(
+    private runtime: IAgentRuntime,
+    public readonly clientId: string,
+    extraScopes: string[] = [],
+    private store: TokenStore = createTokenStore(runtime)
+  ) {
+    this.authUrl = loadTwitchEndpoints(runtime).authUrl;
+    this.requiredScopes = [
+      ...new Set([...BASE_REQUIRED_SCOPES, ...extraScopes, ...getListSetting(runtime, "TWITCH_REQUIRED_SCOPES")]),
+    ];
+  }
+
+  public get accessToken(): string {
+    if (!this.tokens) {
+      throw new Error("[TwitchTokens] Token manager not initialized");
+    }
+    return this.tokens.accessToken;
+  }
+
+  public async getAccessToken(): Promise<string> {
+    return this.accessToken;
+  }
+
+  public get expiresAt(): number | undefined {
+    return this.tokens?.expiresAt;
+  }
+
+  public get scopes(): string[] {
+    return this.tokens?.scopes ?? [];
+  }
+
+  /**
+   * Loads tokens (store first, then settings), validates or refreshes them,
+   * checks scopes and schedules the next refresh and the hourly validation.
+   * A candidate that lacks scopes is skipped, so a new TWITCH_OAUTH_TOKEN with
+   * more scopes wins over an older stored token.
+   */
+  public async init(): Promise<void> {
+    const stored = await this.store.load().catch((err) => {
+      elizaLogger.warn(`[TwitchTokens] ${this.store.name} store load failed =>`, err);
+      return null;
+    });
+    const fromSettings: TwitchTokenSet = {
+      accessToken: (this.runtime.getSetting("TWITCH_OAUTH_TOKEN") || "") as string,
+      refreshToken: (this.runtime.getSetting("TWITCH_REFRESH_TOKEN") || undefined) as string | undefined,
+    };
+
+    let scopeError: Error | null = null;
+    for (const candidate of [stored, fromSettings]) {
+      if (!candidate?.accessToken) {
+        continue;
+      }
+      this.tokens = candidate;
+      if ((await this.validate()) || (await this.refresh())) {
+        const missing = this.missingScopes();
+        if (missing.length > 0) {
+          scopeError = new Error(`[TwitchTokens] Token is missing required scopes: ${missing.join(", ")}`);
+          elizaLogger.warn(`${scopeError.message} (token=${redactSecret(this.accessToken)}); trying the next token`);
+          this.stop();
+          continue;
+        }
+        this.validateTimer = setInterval(() => {
+          this.validate().then((ok) => ok || this.refresh());
+        }, VALIDATE_INTERVAL_MS);
+        elizaLogger.info(
+          `[TwitchTokens] Token ready (store=${this.store.name}, token=${redactSecret(this.accessToken)}, scopes=${this.scopes.join(" ")})`
+        );
+        return;
+      }
+    }
+
+    this.tokens = null;
+    throw scopeError ?? new Error("Twitch token invalid");
+  }
+
+  public stop(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.validateTimer) {
+      clearInterval(this.validateTimer);
+      this.validateTimer = null;
+    }
+  }
+
+  /**
+   * Validates the current token via /oauth2/validate and updates expiry and scopes.
+   */
+  public async validate(): Promise<boolean> {
+    if (!this.tokens) {
+      return false;
+    }
+    elizaLogger.debug("[TwitchTokens] Validating token via /oauth2/validate");
+    const res = await fetch(`${this.authUrl}/oauth2/validate`, {
+      method: "GET",
+      headers: { Authorization: `OAuth ${this.tokens.accessToken}` },
+    }).catch((err) => {
+      elizaLogger.error("[TwitchTokens] Token validation request failed =>", err);
+      return null;
+    });
+    if (!res) {
+      // Network problems are not a reason to throw the token away.
+      return true;
+    }
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      elizaLogger.warn("[TwitchTokens] Token validation failed =>", res.status, data);
+      return false;
+    }
+
+    const data = (await res.json().catch(() => ({}))) as TwitchValidateResponse;
+    if (data.client_id && data.client_id !== this.clientId) {
+      elizaLogger.warn("[TwitchTokens] Token was issued for a different client id than TWITCH_CLIENT_ID");
+    }
+    this.tokens.scopes = data.scopes ?? this.tokens.scopes;
+    if (typeof data.expires_in === "number" && data.expires_in > 0) {
+      this.tokens.expiresAt = Date.now() + data.expires_in * 1000;
+    }
+    this.scheduleRefresh();
+    elizaLogger.info(`[TwitchTokens] OAuth token validated (login=${data.login}, expires_in=${data.expires_in}s)`);
+    return true;
+  }
+
+  /**
+   * Refreshes the token. Concurrent callers share the same in-flight refresh.
+   */
+  public refresh(): Promise<boolean> {
+    if (!this.inflightRefresh) {
+      this.inflightRefresh = this.doRefresh().finally(() => {
+        this.inflightRefresh = null;
+      });
+    }
+    return this.inflightRefresh;
+  }
+
+  private async doRefresh(): Promise<boolean> {
+    const clientSecret = (this.runtime.getSetting("TWITCH_CLIENT_SECRET") || "") as string;
+    const refreshTk = this.tokens?.refreshToken || "";
+    if (!clientSecret || !refreshTk) {
+      elizaLogger.warn("[TwitchTokens] Missing TWITCH_CLIENT_SECRET or refresh token. Skipping refresh.");
+      return false;
+    }
+
+    elizaLogger.info(`[TwitchTokens] Refreshing token (refresh_token=${redactSecret(refreshTk)})`);
+    try {
+      const res = await fetch(`${this.authUrl}/oauth2/token`, {
+        method: "POST",
+        headers: new Headers({ "Content-Type": "application/x-www-form-urlencoded" }),
+        body: new URLSearchParams({
+          client_id: this.clientId,
+          client_secret: clientSecret,
+          grant_type: "refresh_token",
+          refresh_token: refreshTk,
+        }),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as TwitchRefreshResponse & { message?: string };
+      if (!res.ok || !json.access_token || !json.refresh_token) {
+        elizaLogger.error(`[TwitchTokens] Token refresh failed => status=${res.status}, message=${json.message ?? ""}`);
+        return false;
+      }
+
+      this.tokens = {
+        accessToken: json.access_token,
+        refreshToken: json.refresh_token,
+        expiresAt: json.expires_in ? Date.now() + json.expires_in * 1000 : undefined,
+        scopes: json.scope ?? this.tokens?.scopes,
+      };
+      await this.store.save(this.tokens).catch((err) => {
+        elizaLogger.error(`[TwitchTokens] Could not persist tokens to ${this.store.name} store =>`, err);
+      });
+      this.scheduleRefresh();
+      elizaLogger.info(`[TwitchTokens] Token refreshed successfully (access_token=${redactSecret(json.access_token)})`);
+      return true;
+    } catch (err) {
+      elizaLogger.error("[TwitchTokens] Token refresh error =>", err);
+      return false;
+    }
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (!this.tokens?.expiresAt) {
+      return;
+    }
+    const delay = Math.max(MIN_REFRESH_DELAY_MS, this.tokens.expiresAt - Date.now() - REFRESH_MARGIN_MS);
+    elizaLogger.debug(`[TwitchTokens] Next token refresh in ${Math.round(delay / 1000)}s`);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      void this.refresh();
+    }, delay);
+  }
+
+  private missingScopes(): string[] {
+    if (!this.tokens?.scopes) {
+      elizaLogger.warn("[TwitchTokens] Token scopes unknown (validation unavailable); skipping scope check");
+      return [];
+    }
+    return this.requiredScopes.filter((scope) => !this.scopes.includes(scope));
+  }
+}
+
+/* ============================================================================
+   4) TwitchAppToken Class
+   ----------------------------------------------------------------------------
+   Webhook subscriptions must be created with an app access token (client
+   credentials grant). App tokens have no refresh token; a new one is requested
+   when the current one expires or is rejected.
+=========================================================================== */
+export class TwitchAppToken implements HelixAuth {
+  private token: { accessToken: string; expiresAt: number } | null = null;
+  private inflight: Promise<string> | null = null;
+
+  constructor(
+    public readonly clientId: string,
+    private clientSecret: string,
+    private authUrl = "https://id.twitch.tv"
+  ) {}
+
+  public getAccessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return Promise.resolve(this.token.accessToken);
+    }
+    if (!this.inflight) {
+      this.inflight = this.requestToken().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return this.inflight;
+  }
+
+  /**
+   * Drops the current token (rejected with a 401) and requests a new one.
+   */
+  public async refresh(): Promise<boolean> {
+    this.token = null;
+    try {
+      await this.getAccessToken();
+      return true;
+    } catch (err) {
+      elizaLogger.error("[TwitchTokens] App token refresh failed =>", err);
+      return false;
+    }
+  }
+
+  private async requestToken(): Promise<string> {
+    const res = await fetch(`${this.authUrl}/oauth2/token`, {
+      method: "POST",
+      headers: new Headers({ "Content-Type": "application/x-www-form-urlencoded" }),
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        grant_type: "client_credentials",
+      }),
+    });
+    const json = (await res.json().catch(() => ({}))) as TwitchRefreshResponse & { message?: string };
+    if (!res.ok || !json.access_token) {
+      throw new Error(`[TwitchTokens] App token request failed => status=${res.status}, message=${json.message ?? ""}`);
+    }
+    this.token = {
+      accessToken: json.access_token,
+      expiresAt: Date.now() + (json.expires_in ?? 3600) * 1000,
+    };
+    elizaLogger.info(`[TwitchTokens] App access token ready (token=${redactSecret(json.access_token)})`);
+    return json.access_token;
+  }
+}
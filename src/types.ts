@@ -0,0 +1,66 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/types.ts
+ *
+ * Shared Twitch types used across the client modules.
+ */
+
+/* ============================================================================
+   1) Chat Message
+   ----------------------------------------------------------------------------
+   Normalized view of a channel.chat.message EventSub notification.
+=========================================================================== */
+export interface TwitchBadge {
+  set_id: string;
+  id: string;
+  info?: string;
+}
+
+export interface TwitchEmote {
+  id: string;
+  name: string;
+  setId?: string;
+  ownerId?: string;
+}
+
+export interface TwitchMention {
+  userId: string;
+  userLogin: string;
+  userName: string;
+}
+
+export interface TwitchCheermote {
+  prefix: string;
+  bits: number;
+  tier: number;
+}
+
+export interface TwitchReplyParent {
+  parentMessageId: string;
+  parentMessageBody: string;
+  parentUserId: string;
+  parentUserLogin: string;
+  parentUserName: string;
+  threadMessageId: string;
+}
+
+export interface TwitchChatMessage {
+  messageId: string;
+  broadcasterId: string;
+  broadcasterLogin: string;
+  chatterId: string;
+  chatterLogin: string;
+  chatterName: string;
+  badges: TwitchBadge[];
+  color?: string;
+  /** Raw text as typed in chat. */
+  text: string;
+  /** Text for the model, with emotes and cheermotes marked (see ./fragments). */
+  cleanText: string;
+  emotes: TwitchEmote[];
+  mentions: TwitchMention[];
+  cheermotes: TwitchCheermote[];
+  /** Set when the message is a threaded reply. */
+  reply?: TwitchReplyParent;
+  /** Epoch milliseconds from the EventSub message_timestamp. */
+  sentAt: number;
+}
@@ -0,0 +1,24 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/util.ts
+ *
+ * Small helpers shared by the client modules.
+ */
+
+/**
+ * Resolves after the given number of milliseconds.
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whole-word, case-insensitive matcher for a term: it must not touch other letters or
+ * digits, so "eli" does not match "delicious".
+ */
+export function wholeWordMatcher(term: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, "iu");
+}
@@ -0,0 +1,300 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/webhook.ts
+ *
+ * EventSub webhook transport
+ *
+ * An alternative to the WebSocket transport for always-on deployments: webhook
+ * subscriptions are not bound to a session and are not limited by the WebSocket
+ * subscription cap. This module handles:
+ *   - A local HTTP endpoint that Twitch posts EventSub messages to (TLS is expected
+ *     to be terminated by a reverse proxy in front of it; Twitch only calls https URLs)
+ *   - Answering webhook_callback_verification challenges
+ *   - Verifying Twitch-Eventsub-Message-Signature (HMAC-SHA256 over id + timestamp + body)
+ *   - Rejecting replays by message timestamp (older than the allowed age) and message id
+ *   - Forwarding notifications and revocations in the same shape as WebSocket frames, so
+ *     the client dispatches both transports the same way
+ *   - Removing stale webhook subscriptions for the callback before subscribing again
+ *
+ * Webhook subscriptions are created with an app access token (./tokenManager), so
+ * TWITCH_CLIENT_SECRET is required. For channel.chat.message the bot account must have
+ * authorized the app with user:bot, and the broadcaster with channel:bot (or the bot is a
+ * moderator).
+ *
+ * Settings:
+ *   TWITCH_EVENTSUB_TRANSPORT          "websocket" (default) | "webhook"
+ *   TWITCH_WEBHOOK_CALLBACK_URL        public https URL Twitch posts to, e.g. https://bot.example.com/twitch/eventsub
+ *   TWITCH_WEBHOOK_SECRET              HMAC secret, 10-100 characters
+ *   TWITCH_WEBHOOK_PORT                local port of the endpoint, default 8080
+ *   TWITCH_WEBHOOK_PATH                local path of the endpoint, default the callback URL's path
+ *   TWITCH_WEBHOOK_MAX_AGE_SECONDS     oldest accepted message timestamp, default 600
+ */
+
+import crypto from "crypto";
+import http from "http";
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { EventSubConnectionHandlers } from "./connection";
+import { EventSubTransport, HelixClient, HelixEventSubSubscription } from "./helix";
+import { getNumberSetting, getStringSetting } from "./settings";
+
+/* ============================================================================
+   1) Types & Settings
+=========================================================================== */
+export const WEBHOOK_SCOPES = ["user:bot"];
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_TRACKED_MESSAGE_IDS = 2000;
+
+export interface WebhookSettings {
+  enabled: boolean;
+  callbackUrl: string;
+  secret: string;
+  port: number;
+  path: string;
+  maxAgeMs: number;
+}
+
+export function loadWebhookSettings(runtime: IAgentRuntime): WebhookSettings {
+  const callbackUrl = getStringSetting(runtime, "TWITCH_WEBHOOK_CALLBACK_URL", "");
+  let callbackPath = "/";
+  try {
+    callbackPath = callbackUrl ? new URL(callbackUrl).pathname : "/";
+  } catch {
+    elizaLogger.warn(`[EventSubWebhook] TWITCH_WEBHOOK_CALLBACK_URL="${callbackUrl}" is not a valid URL`);
+  }
+  return {
+    enabled: getStringSetting(runtime, "TWITCH_EVENTSUB_TRANSPORT", "websocket").toLowerCase() === "webhook",
+    callbackUrl,
+    secret: getStringSetting(runtime, "TWITCH_WEBHOOK_SECRET", ""),
+    port: getNumberSetting(runtime, "TWITCH_WEBHOOK_PORT", 8080),
+    path: getStringSetting(runtime, "TWITCH_WEBHOOK_PATH", callbackPath),
+    maxAgeMs: Math.max(1, getNumberSetting(runtime, "TWITCH_WEBHOOK_MAX_AGE_SECONDS", 600)) * 1000,
+  };
+}
+
+/**
+ * Throws when the webhook settings cannot work (Twitch rejects them at subscribe time anyway).
+ */
+export function assertWebhookSettings(settings: WebhookSettings): void {
+  if (!settings.callbackUrl.startsWith("https://")) {
+    throw new Error("[EventSubWebhook] TWITCH_WEBHOOK_CALLBACK_URL must be an https URL");
+  }
+  if (settings.secret.length < 10 || settings.secret.length > 100) {
+    throw new Error("[EventSubWebhook] TWITCH_WEBHOOK_SECRET must be 10-100 characters");
+  }
+}
+
+/**
+ * Checks Twitch-Eventsub-Message-Signature: "sha256=" + HMAC-SHA256(secret, id + timestamp + body).
+ */
+export function verifyEventSubSignature(
+  secret: string,
+  messageId: string,
+  timestamp: string,
+  rawBody: Buffer,
+  signature: string
+): boolean {
+  const expected =
+    "sha256=" +
+    crypto
+      .createHmac("sha256", secret)
+      .update(messageId + timestamp)
+      .update(rawBody)
+      .digest("hex");
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Deletes the webhook subscriptions pointing at the callback URL (left over from an
+ * earlier run, possibly with another secret) so they can be created again.
+ */
+export async function removeWebhookSubscriptions(
+  helix: HelixClient,
+  subscriptionsUrl: string,
+  callbackUrl: string
+): Promise<number> {
+  const stale: string[] = [];
+  try {
+    for await (const sub of helix.paginate<HelixEventSubSubscription>(subscriptionsUrl)) {
+      if (sub.transport.method === "webhook" && sub.transport.callback === callbackUrl) {
+        stale.push(sub.id);
+      }
+    }
+  } catch (err) {
+    elizaLogger.warn("[EventSubWebhook] Could not list subscriptions =>", err);
+  }
+
+  for (const id of stale) {
+    await helix.delete(subscriptionsUrl, { id }).catch((err) => {
+      elizaLogger.warn(`[EventSubWebhook] Could not delete subscription ${id} =>`, err);
+    });
+  }
+  if (stale.length > 0) {
+    elizaLogger.info(`[EventSubWebhook] Removed ${stale.length} existing webhook subscription(s) for ${callbackUrl}`);
+  }
+  return stale.length;
+}
+
+/* ============================================================================
+   2) EventSubWebhookServer Class
+   ----------------------------------------------------------------------------
+   Twitch expects a 2xx within a few seconds, so every message is acknowledged
+   before it is dispatched.
+=========================================================================== */
+export class EventSubWebhookServer {
+  private server: http.Server | null = null;
+  private seenMessageIds = new Set<string>();
+
+  constructor(
+    private settings: WebhookSettings,
+    private handlers: Pick<EventSubConnectionHandlers, "onNotification" | "onRevocation">
+  ) {}
+
+  public get isListening(): boolean {
+    return this.server?.listening ?? false;
+  }
+
+  public get transport(): EventSubTransport {
+    return { method: "webhook", callback: this.settings.callbackUrl, secret: this.settings.secret };
+  }
+
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handleRequest(req, res).catch((err) => {
+          elizaLogger.error("[EventSubWebhook] Error while handling request =>", err);
+          if (!res.headersSent) {
+            res.writeHead(500).end();
+          }
+        });
+      });
+      server.once("error", reject);
+      server.listen(this.settings.port, () => {
+        server.off("error", reject);
+        server.on("error", (err) => elizaLogger.error("[EventSubWebhook] Server error =>", err));
+        this.server = server;
+        elizaLogger.info(
+          `[EventSubWebhook] Listening on :${this.settings.port}${this.settings.path} (callback ${this.settings.callbackUrl})`
+        );
+        resolve();
+      });
+    });
+  }
+
+  public stop(): void {
+    this.server?.close();
+    this.server = null;
+    elizaLogger.info("[EventSubWebhook] Server stopped");
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url ?? "/").split("?")[0];
+    if (req.method !== "POST" || path !== this.settings.path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const body = await readBody(req);
+    if (!body) {
+      res.writeHead(413).end();
+      return;
+    }
+
+    const messageId = header(req, "twitch-eventsub-message-id");
+    const timestamp = header(req, "twitch-eventsub-message-timestamp");
+    const signature = header(req, "twitch-eventsub-message-signature");
+    const messageType = header(req, "twitch-eventsub-message-type");
+    if (!messageId || !timestamp || !verifyEventSubSignature(this.settings.secret, messageId, timestamp, body, signature)) {
+      elizaLogger.warn(`[EventSubWebhook] Rejected request with invalid signature (id=${messageId || "<none>"})`);
+      res.writeHead(403).end();
+      return;
+    }
+
+    const sentAt = Date.parse(timestamp);
+    if (!Number.isFinite(sentAt) || Date.now() - sentAt > this.settings.maxAgeMs) {
+      // Acknowledged so Twitch stops retrying, but never dispatched
+      elizaLogger.warn(`[EventSubWebhook] Ignoring message older than allowed => id=${messageId}, timestamp=${timestamp}`);
+      res.writeHead(204).end();
+      return;
+    }
+    if (this.seenMessageIds.has(messageId)) {
+      elizaLogger.debug(`[EventSubWebhook] Duplicate message ignored => id=${messageId}`);
+      res.writeHead(204).end();
+      return;
+    }
+    this.remember(messageId);
+
+    let payload: any;
+    try {
+      payload = JSON.parse(body.toString("utf8"));
+    } catch (err) {
+      elizaLogger.error("[EventSubWebhook] JSON parse error =>", err);
+      res.writeHead(400).end();
+      return;
+    }
+
+    switch (messageType) {
+      case "webhook_callback_verification":
+        elizaLogger.info(`[EventSubWebhook] Verified callback for ${payload.subscription?.type} (${payload.subscription?.id})`);
+        res.writeHead(200, { "Content-Type": "text/plain" }).end(String(payload.challenge ?? ""));
+        return;
+      case "notification":
+      case "revocation": {
+        res.writeHead(204).end();
+        // Same shape as a WebSocket frame: { metadata, payload: { subscription, event } }
+        const frame = {
+          metadata: {
+            message_id: messageId,
+            message_type: messageType,
+            message_timestamp: timestamp,
+            subscription_type: header(req, "twitch-eventsub-subscription-type") || payload.subscription?.type,
+            subscription_version: header(req, "twitch-eventsub-subscription-version") || payload.subscription?.version,
+          },
+          payload,
+        };
+        await (messageType === "notification" ? this.handlers.onNotification(frame) : this.handlers.onRevocation(frame));
+        return;
+      }
+      default:
+        elizaLogger.info("[EventSubWebhook] Unhandled message type =>", messageType);
+        res.writeHead(204).end();
+    }
+  }
+
+  private remember(messageId: string): void {
+    this.seenMessageIds.add(messageId);
+    if (this.seenMessageIds.size > MAX_TRACKED_MESSAGE_IDS) {
+      const firstKey = this.seenMessageIds.values().next().value;
+      if (typeof firstKey === "string") {
+        this.seenMessageIds.delete(firstKey);
+      }
+    }
+  }
+}
+
+function header(req: http.IncomingMessage, name: string): string {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value) ?? "";
+}
+
+/**
+ * Reads the raw request body (the signature covers the exact bytes); null when too large.
+ */
+function readBody(req: http.IncomingMessage): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.destroy();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
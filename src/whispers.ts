@@ -0,0 +1,252 @@
+/**
+ * /home/funboy/eliza/packages/client-twitch/src/whispers.ts
+ *
+ * Twitch whispers (private messages)
+ *
+ * The client subscribes to user.whisper.message for the bot account and answers
+ * through the same prompt and generation flow as chat, in a private room per
+ * whisper partner. This module handles:
+ *   - Whisper settings (who may whisper the bot, persona instruction)
+ *   - Normalizing whisper events into chat messages
+ *   - Sending via POST /whispers with Twitch's whisper limits: 3 per second,
+ *     100 per minute, 40 new recipients per day, and 500 characters for the
+ *     first whisper to a new recipient (10,000 afterwards)
+ *
+ * Twitch only lets accounts with a verified phone number send whispers.
+ *
+ * Settings:
+ *   TWITCH_WHISPERS_ENABLED        "true" to subscribe to and answer whispers
+ *   TWITCH_WHISPER_ALLOWED_ROLES   roles that may whisper the bot (broadcaster, moderator, vip,
+ *                                  subscriber, everyone), default "everyone". Roles come from the
+ *                                  badges the user last had in one of the bot's channels, so a user
+ *                                  who never chatted there needs TWITCH_WHISPER_ALLOWED_USERS.
+ *   TWITCH_WHISPER_ALLOWED_USERS   logins that are always allowed
+ *   TWITCH_WHISPER_PERSONA         extra instruction for whisper replies
+ */
+
+import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import { TwitchRole, getUserRoles } from "./commands";
+import { HelixClient, HelixError } from "./helix";
+import { getBooleanSetting, getListSetting, getStringSetting } from "./settings";
+import { TwitchChatMessage } from "./types";
+import { sleep } from "./util";
+
+/* ============================================================================
+   1) Types & Settings
+=========================================================================== */
+export const WHISPER_SCOPES = ["user:read:whispers", "user:manage:whispers"];
+
+const FIRST_WHISPER_MAX_LENGTH = 500;
+const WHISPER_MAX_LENGTH = 10000;
+const PER_SECOND_LIMIT = 3;
+const PER_MINUTE_LIMIT = 100;
+const NEW_RECIPIENTS_PER_DAY = 40;
+
+export interface WhisperSettings {
+  enabled: boolean;
+  allowedRoles: TwitchRole[];
+  allowedUsers: Set<string>;
+  persona: string;
+}
+
+const ROLES: TwitchRole[] = ["broadcaster", "moderator", "vip", "subscriber", "everyone"];
+
+export function loadWhisperSettings(runtime: IAgentRuntime): WhisperSettings {
+  const roles = getListSetting(runtime, "TWITCH_WHISPER_ALLOWED_ROLES").map((r) => r.toLowerCase());
+  return {
+    enabled: getBooleanSetting(runtime, "TWITCH_WHISPERS_ENABLED", false),
+    allowedRoles: roles.length > 0 ? (roles.filter((r) => ROLES.includes(r as TwitchRole)) as TwitchRole[]) : ["everyone"],
+    allowedUsers: new Set(getListSetting(runtime, "TWITCH_WHISPER_ALLOWED_USERS").map((u) => u.toLowerCase())),
+    persona: getStringSetting(runtime, "TWITCH_WHISPER_PERSONA", ""),
+  };
+}
+
+export function whisperRoomKey(twitchUserId: string): string {
+  return `twitch-whisper-${twitchUserId}`;
+}
+
+/**
+ * Normalizes a user.whisper.message event into the chat message shape used by the client.
+ */
+export function parseWhisper(event: any): TwitchChatMessage {
+  const text: string = event?.whisper?.text ?? "";
+  return {
+    messageId: event?.whisper_id ?? "",
+    broadcasterId: "",
+    broadcasterLogin: "",
+    chatterId: event?.from_user_id ?? "",
+    chatterLogin: event?.from_user_login ?? "",
+    chatterName: event?.from_user_name ?? event?.from_user_login ?? "",
+    badges: [],
+    text,
+    cleanText: text.replace(/\s+/g, " ").trim(),
+    emotes: [],
+    mentions: [],
+    cheermotes: [],
+    sentAt: Date.now(),
+  };
+}
+
+/* ============================================================================
+   2) TwitchWhispers Class
+=========================================================================== */
+export class TwitchWhispers {
+  private sentAt: number[] = [];
+  /** Recipients the bot has whispered before (persisted), for the first-message limit. */
+  private recipients: Set<string> | null = null;
+  /** New recipients whispered today (persisted), for the daily limit. */
+  private newRecipientsToday: { day: string; count: number } | null = null;
+
+  constructor(
+    private runtime: IAgentRuntime,
+    private helix: HelixClient,
+    private botUserId: string,
+    public readonly settings: WhisperSettings
+  ) {}
+
+  private get cacheKey(): string {
+    return `twitch/whispers/${this.runtime.agentId}`;
+  }
+
+  private get newRecipientsKey(): string {
+    return `${this.cacheKey}/new-recipients`;
+  }
+
+  /**
+   * Why the user may not whisper the bot, or null when they may. Besides the allowed
+   * users, this goes by the badges they were last seen with in chat (badge set ids per
+   * channel): Twitch sends no roles with a whisper, so a user who has not chatted in one
+   * of the bot's channels has no known role.
+   */
+  public deniedReason(login: string, badgesByChannel: Record<string, string[]>): string | null {
+    if (this.settings.allowedRoles.includes("everyone") || this.settings.allowedUsers.has(login.toLowerCase())) {
+      return null;
+    }
+    const channels = Object.values(badgesByChannel);
+    if (channels.length === 0) {
+      return "not seen in chat, so their roles are unknown";
+    }
+    const allowed = channels.some((setIds) => {
+      const roles = getUserRoles(setIds.map((set_id) => ({ set_id, id: "" })));
+      return this.settings.allowedRoles.some((role) => roles.has(role));
+    });
+    return allowed ? null : `none of the allowed roles (${this.settings.allowedRoles.join(", ")}) in chat`;
+  }
+
+  /**
+   * Sends a whisper, waiting for the per-second / per-minute limits. Returns false when
+   * the whisper could not be sent (daily recipient limit, Twitch error). A new recipient
+   * only counts against the daily limit once a whisper to them went through.
+   */
+  public async send(toUserId: string, text: string): Promise<boolean> {
+    const recipients = await this.loadRecipients();
+    const isNew = !recipients.has(toUserId);
+    if (isNew && !(await this.takeNewRecipientSlot())) {
+      elizaLogger.warn(`[TwitchWhispers] Daily limit of ${NEW_RECIPIENTS_PER_DAY} new recipients reached; not whispering ${toUserId}`);
+      return false;
+    }
+
+    const maxLength = isNew ? FIRST_WHISPER_MAX_LENGTH : WHISPER_MAX_LENGTH;
+    const message = text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+    await this.waitForSlot();
+    try {
+      await this.helix.post("/whispers", { message }, { from_user_id: this.botUserId, to_user_id: toUserId });
+    } catch (err) {
+      if (isNew) {
+        await this.releaseNewRecipientSlot();
+      }
+      if (!(err instanceof HelixError)) {
+        throw err;
+      }
+      // 400: recipient blocks whispers from strangers; 401: missing scope or unverified phone
+      elizaLogger.error(`[TwitchWhispers] Whisper to ${toUserId} failed =>`, err.message);
+      return false;
+    }
+
+    if (isNew) {
+      recipients.add(toUserId);
+      await this.runtime.cacheManager.set(this.cacheKey, [...recipients]).catch((err) => {
+        elizaLogger.warn("[TwitchWhispers] Could not persist whisper recipients =>", err);
+      });
+    }
+    elizaLogger.info(`[TwitchWhispers] Whispered ${toUserId} => "${message.slice(0, 80)}"`);
+    return true;
+  }
+
+  private async loadRecipients(): Promise<Set<string>> {
+    if (!this.recipients) {
+      const stored = await this.runtime.cacheManager.get<string[]>(this.cacheKey).catch(() => undefined);
+      this.recipients = new Set(stored ?? []);
+    }
+    return this.recipients;
+  }
+
+  /**
+   * Counts a new recipient against the daily limit, before sending so concurrent
+   * whispers cannot overshoot it. The count is kept in the runtime cache, so restarting
+   * the agent does not reset it.
+   */
+  private async takeNewRecipientSlot(): Promise<boolean> {
+    const today = await this.loadNewRecipientsToday();
+    if (today.count >= NEW_RECIPIENTS_PER_DAY) {
+      return false;
+    }
+    today.count++;
+    await this.persistNewRecipientsToday();
+    return true;
+  }
+
+  /**
+   * Gives back the slot of a new recipient whose whisper failed.
+   */
+  private async releaseNewRecipientSlot(): Promise<void> {
+    const today = await this.loadNewRecipientsToday();
+    if (today.count > 0) {
+      today.count--;
+      await this.persistNewRecipientsToday();
+    }
+  }
+
+  private async loadNewRecipientsToday(): Promise<{ day: string; count: number }> {
+    const day = new Date().toISOString().slice(0, 10);
+    if (!this.newRecipientsToday) {
+      const stored = await this.runtime.cacheManager
+        .get<{ day: string; count: number }>(this.newRecipientsKey)
+        .catch(() => undefined);
+      // A concurrent send may have loaded it meanwhile
+      this.newRecipientsToday ??= stored ?? { day, count: 0 };
+    }
+    if (this.newRecipientsToday.day !== day) {
+      this.newRecipientsToday = { day, count: 0 };
+    }
+    return this.newRecipientsToday;
+  }
+
+  private async persistNewRecipientsToday(): Promise<void> {
+    await this.runtime.cacheManager
+      .set(this.newRecipientsKey, this.newRecipientsToday, { expires: Date.now() + 2 * 86400000 })
+      .catch((err) => {
+        elizaLogger.warn("[TwitchWhispers] Could not persist the new recipient count =>", err);
+      });
+  }
+
+  /**
+   * Waits for room under the per-second / per-minute limits and takes it, in the same
+   * tick as the check so concurrent sends cannot pass it together.
+   */
+  private async waitForSlot(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.sentAt = this.sentAt.filter((t) => now - t < 60000);
+      const lastSecond = this.sentAt.filter((t) => now - t < 1000);
+      if (lastSecond.length < PER_SECOND_LIMIT && this.sentAt.length < PER_MINUTE_LIMIT) {
+        this.sentAt.push(now);
+        return;
+      }
+      const waitMs =
+        lastSecond.length >= PER_SECOND_LIMIT ? 1000 - (now - lastSecond[0]) : 60000 - (now - this.sentAt[0]);
+      await sleep(Math.max(waitMs, 50));
+    }
+  }
+}